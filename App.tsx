@@ -1,66 +1,478 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { TARGET_SYMBOLS, TradeSetup, SignalType } from './types';
-import { analyzeSymbol } from './services/binanceService';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { AIAnalysisResult, TradeSetup, SignalType, StrategyConfig, SymbolInfo, JournalEntry, MarketBriefing, FuturesContext } from './types';
+import {
+  IntervalSetups, IntervalKlines, StrategyInterval, analyzeTimeframes, evaluateTimeframes, normalizeStrategyConfig, rankAnalyses
+} from './services/strategyService';
+import { createKlineStream, KlineStream, StreamStatus, StreamUpdate } from './services/klineStream';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './services/storage';
+import {
+  AlertEngine, AlertEvent, AlertSettings, loadAlertSettings, saveAlertSettings, createAlertEngine,
+  createNotificationChannel, createWebhookChannel, createTestAlert
+} from './services/alertService';
+import { SignalJournal, createSignalJournal } from './services/journalService';
+import { MarketType, RiskSettings, loadRiskSettings, saveRiskSettings } from './services/riskService';
+import { AISettings, createAIProvider, getAIProvider, getLatestAnalysis, loadAISettings, saveAISettings, setAIProvider } from './services/aiAnalysisService';
+import { AIError, describeAIError } from './services/aiProvider';
+import { BTC_SYMBOL, generateMarketBriefing } from './services/marketBriefingService';
+import {
+  PaperAccount, PaperSettings, PaperTrader, createPaperTrader, loadPaperState, savePaperState
+} from './services/paperTradingService';
+import { FetchReport, describeMarketDataError, subscribeFetchLog } from './services/marketDataProvider';
+import {
+  MarketDataConfig, MARKET_DATA_SOURCES, loadMarketDataConfig, saveMarketDataConfig,
+  createMarketDataProvider, setMarketDataProvider, analyzeSymbol, fetchSymbolKlines
+} from './services/marketDataService';
+import { ScanHandle, ScanProgress } from './services/scanScheduler';
+import { RS_REFRESH_MS, attachRelativeStrength, computeRelativeStrength } from './services/relativeStrengthService';
+import {
+  FUTURES_CONTEXT_LIMIT, FUTURES_CONTEXT_TTL_MS, attachFuturesContext, loadFuturesContexts
+} from './services/futuresContextService';
+import {
+  ScanSnapshot, createScanSnapshot, downloadFile, exportFileName, parseScanSnapshot, serializeScanSnapshot,
+  setupsToCSV, setupsToMarkdown
+} from './services/exportService';
+import { DEFAULT_SCAN_VIEW, ScanRow, ScanViewState, SortKey, applyScanView, loadScanView, saveScanView } from './services/scanViewService';
+import { WatchlistState, loadWatchlists, saveWatchlists, getActiveList, getScanSymbols, getMarketSymbols } from './services/watchlistService';
 import SignalCard from './components/SignalCard';
-import { AdjustmentsHorizontalIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import StrategySettings from './components/StrategySettings';
+import ConnectionStatus from './components/ConnectionStatus';
+import WatchlistManager from './components/WatchlistManager';
+import ScanProgressPanel from './components/ScanProgressPanel';
+import AlertCenter from './components/AlertCenter';
+import AlertToasts from './components/AlertToasts';
+import JournalPage from './components/JournalPage';
+import RiskSettingsPanel from './components/RiskSettingsPanel';
+import AISettingsPanel from './components/AISettingsPanel';
+import MarketBriefingPanel from './components/MarketBriefingPanel';
+import PaperTradingPage from './components/PaperTradingPage';
+import ScanViewControls from './components/ScanViewControls';
+import ScanTable from './components/ScanTable';
+import ScanExportMenu, { ExportFormat } from './components/ScanExportMenu';
+import { AdjustmentsHorizontalIcon, ArrowPathIcon, BellIcon, CalculatorIcon, Cog6ToothIcon, GlobeAltIcon, ListBulletIcon, NewspaperIcon, SparklesIcon } from '@heroicons/react/24/outline';
 
 const App: React.FC = () => {
-  const [setups, setSetups] = useState<TradeSetup[]>([]);
+  // Latest setup per symbol and timeframe, kept current by the kline stream
+  const [setupCache, setSetupCache] = useState<Record<string, IntervalSetups>>({});
+  // Rolling candle buffers from the same stream, used by the card charts
+  const [klineCache, setKlineCache] = useState<Record<string, IntervalKlines>>({});
+  const [config, setConfig] = useState<StrategyConfig>(() =>
+    normalizeStrategyConfig(loadJSON<Partial<StrategyConfig> | null>(STORAGE_KEYS.strategyConfig, null))
+  );
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [watchlists, setWatchlists] = useState<WatchlistState>(loadWatchlists);
+  const [showWatchlists, setShowWatchlists] = useState<boolean>(false);
+  const [marketConfig, setMarketConfig] = useState<MarketDataConfig>(loadMarketDataConfig);
+  const provider = useMemo(() => createMarketDataProvider(marketConfig), [marketConfig]);
+  // Last request outcome, shown next to the source picker to diagnose outages
+  const [lastFetch, setLastFetch] = useState<FetchReport | null>(null);
+  const [exchangeInfo, setExchangeInfo] = useState<Record<string, SymbolInfo>>({});
+  // Full market mode scans every USDT pair instead of just the active watchlist
+  const [fullMarket, setFullMarket] = useState<boolean>(false);
+  const [quoteVolumes, setQuoteVolumes] = useState<Record<string, number>>({});
+  const [changes24h, setChanges24h] = useState<Record<string, number>>({});
+  const [futuresContexts, setFuturesContexts] = useState<Record<string, FuturesContext>>({});
+  const [btcKlines, setBtcKlines] = useState<IntervalKlines | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
-  const [filter, setFilter] = useState<SignalType | 'ALL'>('ALL');
+  // Layout, filters and sort of the results, mirrored in the URL
+  const [scanView, setScanView] = useState<ScanViewState>(loadScanView);
+  // An imported scan shown instead of the live results, the stream keeps running underneath
+  const [snapshot, setSnapshot] = useState<ScanSnapshot | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
-  const [progress, setProgress] = useState<number>(0);
-
-  const fetchAllData = useCallback(async () => {
-    setLoading(true);
-    setProgress(0);
-    
-    const results: (TradeSetup | null)[] = [];
-    // Process 1 symbol at a time (Sequential) to guarantee network reliability
-    const batchSize = 1; 
-
-    for (let i = 0; i < TARGET_SYMBOLS.length; i += batchSize) {
-      const batch = TARGET_SYMBOLS.slice(i, i + batchSize);
-      
-      const batchResults = await Promise.all(batch.map(symbol => analyzeSymbol(symbol)));
-      results.push(...batchResults);
-      
-      // Update progress for UI
-      setProgress(Math.round(((i + batchSize) / TARGET_SYMBOLS.length) * 100));
-
-      // 1.5 second delay between requests - Very conservative to ensure success
-      if (i + batchSize < TARGET_SYMBOLS.length) {
-        await new Promise(resolve => setTimeout(resolve, 1500));
-      }
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('idle');
+  const [retryCount, setRetryCount] = useState<number>(0);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>([]);
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const [showAlerts, setShowAlerts] = useState<boolean>(false);
+  const [unreadAlerts, setUnreadAlerts] = useState<number>(0);
+  const [view, setView] = useState<'scanner' | 'journal' | 'paper'>('scanner');
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(loadRiskSettings);
+  const [showRisk, setShowRisk] = useState<boolean>(false);
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  const [showAI, setShowAI] = useState<boolean>(false);
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
+  const [briefings, setBriefings] = useState<MarketBriefing[]>([]);
+  const [showBriefing, setShowBriefing] = useState<boolean>(false);
+  const [briefingStream, setBriefingStream] = useState<string | null>(null);
+  const [briefingError, setBriefingError] = useState<string | null>(null);
+  const briefingAbortRef = useRef<AbortController | null>(null);
+  const [paperInitial] = useState(() => loadPaperState(riskSettings.equity));
+  const [paperAccount, setPaperAccount] = useState<PaperAccount>(paperInitial.account);
+  const [paperSettings, setPaperSettings] = useState<PaperSettings>(paperInitial.settings);
+  const streamRef = useRef<KlineStream | null>(null);
+  const configRef = useRef(config);
+  configRef.current = config;
+  const alertSettingsRef = useRef(alertSettings);
+  alertSettingsRef.current = alertSettings;
+
+  // Channels read the latest settings on every delivery, so the engine is created once
+  const alertEngineRef = useRef<AlertEngine | null>(null);
+  alertEngineRef.current ??= createAlertEngine({
+    settings: alertSettings,
+    channels: [
+      event => {
+        setAlertHistory(prev => [event, ...prev].slice(0, 100));
+        setToasts(prev => [...prev, event].slice(-5));
+        setUnreadAlerts(n => n + 1);
+      },
+      event => {
+        if (alertSettingsRef.current.notifications) return createNotificationChannel()(event);
+      },
+      event => createWebhookChannel(alertSettingsRef.current.webhook)(event)
+    ],
+    onDeliveryError: (error, event) => console.error(`Failed to deliver alert ${event.title}`, error)
+  });
+  const alertEngine = alertEngineRef.current;
+
+  // Records every call the scanner makes and resolves it against later candles
+  const journalRef = useRef<SignalJournal | null>(null);
+  journalRef.current ??= createSignalJournal({ onChange: setJournalEntries, onBriefingsChange: setBriefings });
+  const journal = journalRef.current;
+
+  // Sizing context for paper entries, read when a position opens
+  const marketType: MarketType = marketConfig.source === 'binance-futures' ? 'futures' : 'spot';
+  const paperRiskRef = useRef({ settings: riskSettings, market: marketType, filters: (symbol: string) => exchangeInfo[symbol]?.filters });
+  paperRiskRef.current = { settings: riskSettings, market: marketType, filters: symbol => exchangeInfo[symbol]?.filters };
+
+  const paperTraderRef = useRef<PaperTrader | null>(null);
+  paperTraderRef.current ??= createPaperTrader({
+    account: paperInitial.account,
+    settings: paperInitial.settings,
+    getRisk: () => paperRiskRef.current,
+    onChange: setPaperAccount
+  });
+  const paperTrader = paperTraderRef.current;
+
+  const handleUpdates = useCallback((updates: StreamUpdate[]) => {
+    setSetupCache(prev => {
+      const next = { ...prev };
+      updates.forEach(({ symbol, interval, setup }) => {
+        next[symbol] = { ...next[symbol], [interval]: setup };
+      });
+      return next;
+    });
+    setKlineCache(prev => {
+      const next = { ...prev };
+      updates.forEach(({ symbol, interval, klines }) => {
+        next[symbol] = { ...next[symbol], [interval]: klines };
+      });
+      return next;
+    });
+    alertEngine.process(updates.map(({ symbol, interval, setup, klines }) => ({
+      symbol, interval, setup, candleTime: klines[klines.length - 1]?.openTime
+    })));
+    journal.process(updates, configRef.current);
+    paperTrader.process(updates);
+    setLastUpdated(new Date());
+  }, []);
+
+  useEffect(() => subscribeFetchLog(setLastFetch), []);
+
+  useEffect(() => {
+    savePaperState({ account: paperAccount, settings: paperSettings });
+  }, [paperAccount, paperSettings]);
+
+  // Share the selected source with code outside React
+  useEffect(() => {
+    setMarketDataProvider(provider);
+  }, [provider]);
+
+  // Exchange symbol list, loaded per source to validate and search watchlists
+  useEffect(() => {
+    let cancelled = false;
+    setExchangeInfo({});
+    setQuoteVolumes({});
+    setSetupCache({});
+    setKlineCache({});
+    setFuturesContexts({});
+    provider.fetchExchangeInfo()
+      .then(symbols => {
+        if (!cancelled) setExchangeInfo(Object.fromEntries(symbols.map(info => [info.symbol, info])));
+      })
+      .catch(error => console.error('Failed to load exchange info', error));
+    return () => { cancelled = true; };
+  }, [provider]);
+
+  // 24h tickers, per source: volumes decide the order of the full market sweep so
+  // liquid pairs show up first, price changes are a column of the results table
+  useEffect(() => {
+    let cancelled = false;
+    setQuoteVolumes({});
+    setChanges24h({});
+    provider.fetchTickers()
+      .then(tickers => {
+        if (cancelled) return;
+        setQuoteVolumes(Object.fromEntries(tickers.map(t => [t.symbol, t.quoteVolume])));
+        setChanges24h(Object.fromEntries(tickers.map(t => [t.symbol, t.priceChangePercent])));
+      })
+      .catch(error => console.error('Failed to load 24h tickers', error));
+    return () => { cancelled = true; };
+  }, [provider]);
+
+  const activeList = getActiveList(watchlists);
+  const scanSymbols = useMemo(() => {
+    const listSymbols = getScanSymbols(activeList, exchangeInfo);
+    // Wait for both lookups so the sweep does not restart once volumes arrive
+    if (!fullMarket || Object.keys(exchangeInfo).length === 0 || Object.keys(quoteVolumes).length === 0) {
+      return listSymbols;
     }
-    
-    // Filter out nulls and sort by "watch" status then signal strength
-    const validSetups = results.filter((s): s is TradeSetup => s !== null);
-    
-    // Custom sort: Dense/Watch first, then setups with clear signals
-    validSetups.sort((a, b) => {
-        if (a.signal === SignalType.WATCH && b.signal !== SignalType.WATCH) return -1;
-        if (b.signal === SignalType.WATCH && a.signal !== SignalType.WATCH) return 1;
-        return 0;
+    return getMarketSymbols(exchangeInfo, quoteVolumes, listSymbols);
+  }, [activeList, exchangeInfo, fullMarket, quoteVolumes]);
+  // Only restart the stream when the actual symbol set changes, not on every list edit
+  const scanKey = scanSymbols.join(',');
+  // Adding or removing a timeframe needs new history, other config changes only re-score
+  const timeframeKey = config.timeframes.join(',');
+
+  const updateWatchlists = (next: WatchlistState) => {
+    setWatchlists(next);
+    saveWatchlists(next);
+  };
+
+  // Seed history once over REST, then keep every series current from the WebSocket
+  useEffect(() => {
+    const symbols = scanKey ? scanKey.split(',') : [];
+    if (symbols.length === 0) {
+      setLoading(false);
+      return;
+    }
+    const stream = createKlineStream({
+      symbols,
+      intervals: timeframeKey.split(',') as StrategyConfig['timeframes'],
+      config: configRef.current,
+      provider,
+      onUpdate: handleUpdates,
+      onStatus: (status, retries) => {
+        setStreamStatus(status);
+        setRetryCount(retries);
+      },
+      onSeedProgress: progress => {
+        setScanProgress(progress);
+        setLoading(!progress.finished);
+      }
     });
+    streamRef.current = stream;
+    stream.start();
+    return () => {
+      stream.close();
+      streamRef.current = null;
+    };
+  }, [handleUpdates, scanKey, timeframeKey, provider]);
 
-    setSetups(validSetups);
-    setLastUpdated(new Date());
-    setLoading(false);
+  const refreshAll = useCallback(() => {
+    streamRef.current?.resync();
   }, []);
 
+  const cancelScan = useCallback(() => {
+    streamRef.current?.cancelSeed();
+  }, []);
+
+  const seedPercent = scanProgress && scanProgress.total
+    ? Math.round(((scanProgress.done + scanProgress.failed) / scanProgress.total) * 100)
+    : 0;
+
+  // BTC candles, the reference for relative strength and the briefing: the stream's own
+  // series when BTC is scanned, otherwise fetched once per source and timeframe set
+  const btcScanned = scanSymbols.includes(BTC_SYMBOL);
+  useEffect(() => {
+    setBtcKlines(null);
+    if (btcScanned) return;
+    let cancelled = false;
+    const load = () => fetchSymbolKlines(BTC_SYMBOL, timeframeKey.split(',') as StrategyInterval[], provider)
+      .then(klines => { if (!cancelled) setBtcKlines(klines); })
+      .catch(error => console.error('Failed to load BTC klines', error));
+    load();
+    const timer = setInterval(load, RS_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [btcScanned, timeframeKey, provider]);
+  const btcSeries = btcScanned ? klineCache[BTC_SYMBOL] ?? null : btcKlines;
+
+  const relativeStrength = useMemo(
+    () => computeRelativeStrength(Object.fromEntries(scanSymbols.filter(s => klineCache[s]).map(s => [s, klineCache[s]])), btcSeries),
+    [klineCache, scanSymbols, btcSeries]
+  );
+
+  const rankedAnalyses = useMemo(() => {
+    // Only the configured timeframes count, the cache may still hold removed ones
+    return rankAnalyses(scanSymbols
+      .filter(symbol => setupCache[symbol])
+      .map(symbol => {
+        const setups: IntervalSetups = {};
+        config.timeframes.forEach(tf => { setups[tf] = setupCache[symbol][tf] ?? null; });
+        return attachRelativeStrength(analyzeTimeframes(symbol, setups), relativeStrength[symbol]);
+      }));
+  }, [setupCache, scanSymbols, config.timeframes, relativeStrength]);
+
+  // Perpetual positioning for the setups worth trading, WAIT rows would only cost requests
+  const futuresKey = rankedAnalyses
+    .filter(a => a.primary.signal !== SignalType.WAIT)
+    .slice(0, FUTURES_CONTEXT_LIMIT)
+    .map(a => a.symbol)
+    .join(',');
+
   useEffect(() => {
-    fetchAllData();
-    // Auto refresh every 5 minutes
-    const interval = setInterval(fetchAllData, 300000);
-    return () => clearInterval(interval);
-  }, [fetchAllData]);
-
-  const filteredSetups = setups.filter(s => {
-    if (filter === 'ALL') return true;
-    return s.signal === filter;
+    const symbols = futuresKey ? futuresKey.split(',') : [];
+    if (symbols.length === 0) return;
+    let handle: ScanHandle | null = null;
+    const load = () => {
+      handle?.cancel();
+      handle = loadFuturesContexts(symbols, provider, (symbol, context) =>
+        setFuturesContexts(prev => ({ ...prev, [symbol]: context })));
+    };
+    load();
+    const timer = setInterval(load, FUTURES_CONTEXT_TTL_MS);
+    return () => {
+      clearInterval(timer);
+      handle?.cancel();
+    };
+  }, [futuresKey, provider]);
+
+  const analyses = useMemo(
+    () => rankedAnalyses.map(a => (futuresContexts[a.symbol] ? attachFuturesContext(a, futuresContexts[a.symbol]) : a)),
+    [rankedAnalyses, futuresContexts]
+  );
+
+  // The stream re-scores its buffered candles, nothing is refetched
+  const applyConfig = (next: StrategyConfig) => {
+    setConfig(next);
+    saveJSON(STORAGE_KEYS.strategyConfig, next);
+    // Every signal is re-scored, a changed config must not read as a wave of transitions
+    alertEngine.reset();
+    streamRef.current?.setConfig(next);
+  };
+
+  const updateAlertSettings = (next: AlertSettings) => {
+    setAlertSettings(next);
+    saveAlertSettings(next);
+    alertEngine.setSettings(next);
+  };
+
+  const updateRiskSettings = (next: RiskSettings) => {
+    setRiskSettings(next);
+    saveRiskSettings(next);
+  };
+
+  const updateAISettings = (next: AISettings) => {
+    // Swapped before the re-render so the cards pick up the new provider
+    setAIProvider(createAIProvider(next));
+    setAISettings(next);
+    saveAISettings(next);
+  };
+
+  const updatePaperSettings = (next: PaperSettings) => {
+    setPaperSettings(next);
+    paperTrader.setSettings(next);
+  };
+
+  // Manual entries fill on the candle currently forming on the setup's timeframe
+  const openPaperPosition = (setup: TradeSetup): string | null => {
+    const klines = klineCache[setup.symbol]?.[setup.interval];
+    const candle = klines?.[klines.length - 1];
+    if (!candle) return '暂无K线数据';
+    const result = paperTrader.open(setup, candle.openTime);
+    return typeof result === 'string' ? result : null;
+  };
+
+  // One AI read of every current setup, kept in the journal
+  const generateBriefing = async () => {
+    briefingAbortRef.current?.abort();
+    const controller = new AbortController();
+    briefingAbortRef.current = controller;
+    setBriefingError(null);
+    setBriefingStream('');
+    try {
+      // BTC is the market's reference even when it is not on the watchlist
+      const btc = analyses.find(a => a.symbol === BTC_SYMBOL) ??
+        (btcKlines ? evaluateTimeframes(BTC_SYMBOL, btcKlines, config) : await analyzeSymbol(BTC_SYMBOL, config, provider).catch(() => null));
+      const briefing = await generateMarketBriefing(analyses, btc, { signal: controller.signal, onToken: setBriefingStream });
+      journal.addBriefing(briefing);
+    } catch (error) {
+      if (!(error instanceof AIError && error.reason === 'ABORTED')) setBriefingError(describeAIError(error));
+    } finally {
+      if (briefingAbortRef.current === controller) {
+        briefingAbortRef.current = null;
+        setBriefingStream(null);
+      }
+    }
+  };
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const changeSource = (source: MarketDataConfig['source']) => {
+    const next = { ...marketConfig, source };
+    setMarketConfig(next);
+    saveMarketDataConfig(next);
+  };
+
+  const updateScanView = (next: ScanViewState) => {
+    setScanView(next);
+    saveScanView(next);
+  };
+  const filter = scanView.signal;
+  const setFilter = (signal: ScanViewState['signal']) => updateScanView({ ...scanView, signal });
+  // Same column clicked twice flips the direction
+  const sortBy = (sort: SortKey) => updateScanView({
+    ...scanView,
+    sort,
+    sortDir: scanView.sort === sort ? (scanView.sortDir === 'asc' ? 'desc' : 'asc') : scanView.sortDir
   });
 
+  const shownAnalyses = snapshot ? snapshot.analyses : analyses;
+  const shownKlines = snapshot ? snapshot.klines : klineCache;
+  const scanRows = useMemo(
+    () => applyScanView(shownAnalyses, scanView, snapshot ? {} : changes24h),
+    [shownAnalyses, scanView, changes24h, snapshot]
+  );
+
+  // With an interval filter the row's setup may not be the symbol's primary, the card shows the row's
+  const renderCard = (row: ScanRow) => (
+    <SignalCard
+      key={row.analysis.symbol}
+      analysis={row.setup === row.analysis.primary ? row.analysis : { ...row.analysis, primary: row.setup }}
+      config={snapshot?.config ?? config}
+      klines={shownKlines[row.analysis.symbol]}
+      risk={riskSettings}
+      market={marketType}
+      filters={exchangeInfo[row.analysis.symbol]?.filters}
+      onPaperTrade={snapshot ? undefined : openPaperPosition}
+      savedAnalysis={snapshot?.aiAnalyses[row.analysis.symbol]}
+    />
+  );
+
+  // Exports what is on screen: the filtered rows, with any AI analysis already run on their setups
+  const exportResults = (format: ExportFormat) => {
+    const aiAnalyses: Record<string, AIAnalysisResult> = {};
+    scanRows.forEach(({ analysis, setup }) => {
+      const ai = snapshot ? snapshot.aiAnalyses[analysis.symbol] : getLatestAnalysis(analysis.symbol, setup.interval);
+      if (ai && ai.interval === setup.interval) aiAnalyses[analysis.symbol] = ai;
+    });
+    const setups = scanRows.map(row => row.setup);
+    const source = snapshot?.source ?? MARKET_DATA_SOURCES.find(s => s.value === marketConfig.source)?.label ?? marketConfig.source;
+    const exportedAt = Date.now();
+    if (format === 'csv') {
+      downloadFile(exportFileName('scan', 'csv', exportedAt), setupsToCSV(setups, aiAnalyses), 'text/csv;charset=utf-8');
+    } else if (format === 'markdown') {
+      downloadFile(exportFileName('scan', 'md', exportedAt), setupsToMarkdown(setups, aiAnalyses, { source, exportedAt }), 'text/markdown;charset=utf-8');
+    } else {
+      const data = createScanSnapshot(
+        scanRows.map(row => row.analysis), snapshot?.config ?? config, source, shownKlines, aiAnalyses, exportedAt
+      );
+      downloadFile(exportFileName('scan', 'json', exportedAt), serializeScanSnapshot(data), 'application/json');
+    }
+  };
+
+  const importSnapshot = (json: string) => {
+    setSnapshot(parseScanSnapshot(json));
+    setView('scanner');
+  };
+
+  const timeframeLabel = config.timeframes.map(tf => tf.toUpperCase()).join('/');
+
   return (
     <div className="min-h-screen bg-crypto-dark text-crypto-light font-sans pb-10">
       {/* Header */}
@@ -72,11 +484,24 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold tracking-tight flex flex-col sm:flex-row sm:items-baseline sm:gap-2">
               <span>Binance Strategy</span>
-              <span className="text-crypto-yellow text-sm font-mono bg-crypto-yellow/10 px-2 py-0.5 rounded">六线纠缠系统 (1H/4H)</span>
+              <span className="text-crypto-yellow text-sm font-mono bg-crypto-yellow/10 px-2 py-0.5 rounded">六线纠缠系统 ({timeframeLabel})</span>
             </h1>
           </div>
-          <div className="text-xs text-gray-500 hidden sm:block">
-            Power by Gemini Flash 2.5
+          <div className="flex items-center gap-4">
+            <nav className="bg-slate-800 p-1 rounded-lg flex items-center text-xs font-medium">
+              {(['scanner', 'journal', 'paper'] as const).map(v => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={`px-3 py-1.5 rounded-md transition-all ${view === v ? 'bg-slate-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {v === 'scanner' ? '实时扫描' : v === 'journal' ? `信号日志 (${journalEntries.length})` : `模拟交易 (${paperAccount.positions.length})`}
+                </button>
+              ))}
+            </nav>
+            <div className="text-xs text-gray-500 hidden sm:block">
+              AI 分析: {getAIProvider().label}
+            </div>
           </div>
         </div>
       </header>
@@ -89,9 +514,10 @@ const App: React.FC = () => {
             <h2 className="text-2xl font-semibold mb-1 flex items-center gap-2">
               多周期均线密集策略
               <span className="text-xs bg-green-500/20 text-green-400 px-2 py-0.5 rounded border border-green-500/30">Live Data</span>
+              <ConnectionStatus status={streamStatus} retryCount={retryCount} />
             </h2>
             <p className="text-sm text-gray-400">
-               自动筛选 4小时 (4H) 或 1小时 (1H) 级别中最符合【密集变盘】或【明确趋势】的标的。
+               在 {timeframeLabel} 各周期中自动筛选最符合【密集变盘】或【明确趋势】的标的，并计算多周期共振。
             </p>
           </div>
 
@@ -103,6 +529,12 @@ const App: React.FC = () => {
                 >
                   全部
                 </button>
+                <button
+                  onClick={() => setFilter('BREAKOUT')}
+                  className={`px-3 py-1.5 rounded-md transition-all ${filter === 'BREAKOUT' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  突破
+                </button>
                 <button 
                   onClick={() => setFilter(SignalType.WATCH)}
                   className={`px-3 py-1.5 rounded-md transition-all ${filter === SignalType.WATCH ? 'bg-crypto-yellow text-black' : 'text-gray-400 hover:text-white'}`}
@@ -123,41 +555,219 @@ const App: React.FC = () => {
                 </button>
              </div>
 
+             <select
+                value={marketConfig.source}
+                onChange={e => changeSource(e.target.value as MarketDataConfig['source'])}
+                className={`bg-slate-800 text-xs rounded-lg px-2 py-2 focus:outline-none ${lastFetch?.error ? 'text-crypto-red' : 'text-gray-300'}`}
+                title={lastFetch
+                  ? `${lastFetch.request}: ${lastFetch.error ? describeMarketDataError(lastFetch.error) : `via ${lastFetch.strategy} (${lastFetch.durationMs}ms)`}`
+                  : '数据源'}
+             >
+                {MARKET_DATA_SOURCES.map(source => (
+                  <option key={source.value} value={source.value}>{source.label}</option>
+                ))}
+             </select>
+
+             <select
+                value={watchlists.activeId}
+                onChange={e => updateWatchlists({ ...watchlists, activeId: e.target.value })}
+                className="bg-slate-800 text-gray-300 text-xs rounded-lg px-2 py-2 focus:outline-none"
+                title="切换自选列表"
+             >
+                {watchlists.lists.map(list => (
+                  <option key={list.id} value={list.id}>{list.name}</option>
+                ))}
+             </select>
+
+             <button
+                onClick={() => setFullMarket(v => !v)}
+                className={`flex items-center gap-1 px-2 py-2 rounded-lg text-xs transition-colors ${fullMarket ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+                title="扫描全部 USDT 交易对（自选币种优先）"
+             >
+                <GlobeAltIcon className="w-4 h-4" />
+                全市场
+             </button>
+
+             <button
+                onClick={() => setShowWatchlists(v => !v)}
+                className={`p-2 rounded-lg transition-colors ${showWatchlists ? 'bg-slate-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+                title="管理自选列表"
+             >
+                <ListBulletIcon className="w-5 h-5" />
+             </button>
+
+             <button
+                onClick={() => {
+                  setShowAlerts(v => !v);
+                  setUnreadAlerts(0);
+                }}
+                className={`relative p-2 rounded-lg transition-colors ${showAlerts ? 'bg-slate-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+                title="信号提醒"
+             >
+                <BellIcon className="w-5 h-5" />
+                {unreadAlerts > 0 && (
+                  <span className="absolute -top-1 -right-1 bg-crypto-red text-white text-[10px] font-bold rounded-full min-w-[1rem] h-4 px-1 flex items-center justify-center">
+                    {unreadAlerts > 99 ? '99+' : unreadAlerts}
+                  </span>
+                )}
+             </button>
+
+             <button
+                onClick={() => setShowRisk(v => !v)}
+                className={`p-2 rounded-lg transition-colors ${showRisk ? 'bg-slate-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+                title="仓位与风险"
+             >
+                <CalculatorIcon className="w-5 h-5" />
+             </button>
+
+             <button
+                onClick={() => setShowBriefing(v => !v)}
+                className={`p-2 rounded-lg transition-colors ${showBriefing ? 'bg-slate-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+                title="AI 市场简报"
+             >
+                <NewspaperIcon className="w-5 h-5" />
+             </button>
+
+             <button
+                onClick={() => setShowAI(v => !v)}
+                className={`p-2 rounded-lg transition-colors ${showAI ? 'bg-slate-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+                title="AI 分析"
+             >
+                <SparklesIcon className="w-5 h-5" />
+             </button>
+
+             <button
+                onClick={() => setShowSettings(v => !v)}
+                className={`p-2 rounded-lg transition-colors ${showSettings ? 'bg-slate-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+                title="策略参数"
+             >
+                <Cog6ToothIcon className="w-5 h-5" />
+             </button>
+
              <button 
-                onClick={fetchAllData}
+                onClick={refreshAll}
                 disabled={loading}
                 className="p-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white transition-colors disabled:opacity-50"
-                title="刷新数据"
+                title="重新同步历史数据"
              >
                 <ArrowPathIcon className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
              </button>
           </div>
         </div>
 
+        {showWatchlists && (
+          <WatchlistManager
+            state={watchlists}
+            exchangeInfo={exchangeInfo}
+            onChange={updateWatchlists}
+            onClose={() => setShowWatchlists(false)}
+          />
+        )}
+
+        {showAlerts && (
+          <AlertCenter
+            settings={alertSettings}
+            history={alertHistory}
+            onChange={updateAlertSettings}
+            onClearHistory={() => setAlertHistory([])}
+            onSendTest={() => Promise.resolve(createWebhookChannel({ ...alertSettings.webhook, enabled: true })(createTestAlert()))}
+            onClose={() => setShowAlerts(false)}
+          />
+        )}
+
+        {showRisk && (
+          <RiskSettingsPanel
+            settings={riskSettings}
+            market={marketType}
+            onChange={updateRiskSettings}
+            onClose={() => setShowRisk(false)}
+          />
+        )}
+
+        {showAI && (
+          <AISettingsPanel settings={aiSettings} onChange={updateAISettings} onClose={() => setShowAI(false)} />
+        )}
+
+        {showBriefing && (
+          <MarketBriefingPanel
+            briefing={briefings[0] ?? null}
+            streaming={briefingStream}
+            error={briefingError}
+            setupCount={analyses.length}
+            onGenerate={generateBriefing}
+            onCancel={() => briefingAbortRef.current?.abort()}
+            onClose={() => setShowBriefing(false)}
+          />
+        )}
+
+        {showSettings && (
+          <StrategySettings config={config} onApply={applyConfig} onClose={() => setShowSettings(false)} />
+        )}
+
+        {scanProgress && (loading || scanProgress.failed > 0 || scanProgress.cancelled > 0) && (
+          <ScanProgressPanel progress={scanProgress} onCancel={cancelScan} />
+        )}
+
         {/* Content */}
-        {loading && setups.length === 0 ? (
+        {view === 'journal' ? (
+          <JournalPage entries={journalEntries} briefings={briefings} onClear={() => journal.clear()} />
+        ) : view === 'paper' ? (
+          <PaperTradingPage
+            account={paperAccount}
+            settings={paperSettings}
+            onSettingsChange={updatePaperSettings}
+            onClosePosition={id => paperTrader.close(id)}
+            onReset={equity => paperTrader.reset(equity)}
+          />
+        ) : loading && analyses.length === 0 && !snapshot ? (
            <div className="flex flex-col items-center justify-center py-20">
               <div className="w-16 h-16 relative flex items-center justify-center">
                  <div className="absolute w-full h-full border-4 border-slate-700 rounded-full"></div>
                  <div className="absolute w-full h-full border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
-                 <span className="text-xs font-mono text-white">{progress}%</span>
+                 <span className="text-xs font-mono text-white">{seedPercent}%</span>
               </div>
-              <p className="text-gray-400 mt-4 animate-pulse">正在双周期(1H/4H)扫描数据，请耐心等待...</p>
+              <p className="text-gray-400 mt-4 animate-pulse">正在加载 {timeframeLabel} 历史数据，随后切换为实时推送...</p>
               <p className="text-xs text-gray-600 mt-2">为防止数据接口限流，加载速度已优化</p>
            </div>
         ) : (
           <>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredSetups.map((setup) => (
-                <SignalCard key={setup.symbol} setup={setup} />
-              ))}
-            </div>
+            <ScanViewControls
+              view={scanView}
+              timeframes={config.timeframes}
+              shown={scanRows.length}
+              total={shownAnalyses.length}
+              onChange={updateScanView}
+              actions={<ScanExportMenu disabled={scanRows.length === 0} onExport={exportResults} onImport={importSnapshot} />}
+            />
+
+            {snapshot && (
+              <div className="mb-6 flex items-center gap-3 text-xs bg-indigo-900/30 border border-indigo-500/40 rounded-lg px-4 py-2">
+                <span className="text-indigo-300 font-bold">快照</span>
+                <span className="text-gray-300">
+                  {new Date(snapshot.exportedAt).toLocaleString()}{snapshot.source && ` · ${snapshot.source}`} · {snapshot.analyses.length} 个币种 · 离线查看，不会更新
+                </span>
+                <button onClick={() => setSnapshot(null)} className="ml-auto text-indigo-300 hover:text-white font-medium">
+                  返回实时扫描
+                </button>
+              </div>
+            )}
 
-            {filteredSetups.length === 0 && (
+            {scanView.layout === 'table' ? (
+              scanRows.length > 0 && <ScanTable rows={scanRows} view={scanView} onSort={sortBy} renderDetail={renderCard} />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {scanRows.map(renderCard)}
+              </div>
+            )}
+
+            {scanRows.length === 0 && (
               <div className="text-center py-20 bg-slate-800/50 rounded-xl border border-dashed border-slate-700">
                 <AdjustmentsHorizontalIcon className="w-12 h-12 text-gray-600 mx-auto mb-3" />
                 <p className="text-gray-400">当前筛选条件下没有符合策略的信号。</p>
-                <button onClick={() => setFilter('ALL')} className="mt-4 text-indigo-400 hover:text-indigo-300 text-sm font-medium">
+                <button
+                  onClick={() => updateScanView({ ...DEFAULT_SCAN_VIEW, layout: scanView.layout, columns: scanView.columns })}
+                  className="mt-4 text-indigo-400 hover:text-indigo-300 text-sm font-medium"
+                >
                   查看全部币种
                 </button>
               </div>
@@ -166,11 +776,13 @@ const App: React.FC = () => {
             <div className="mt-8 text-center text-xs text-gray-500">
               最后更新时间: {lastUpdated.toLocaleTimeString()}
               <br/>
-              风险提示: 本系统仅供技术分析参考，不构成投资建议。Gemini AI分析可能存在误差。
+              风险提示: 本系统仅供技术分析参考，不构成投资建议。AI 分析可能存在误差。
             </div>
           </>
         )}
       </main>
+
+      <AlertToasts toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 };
@@ -0,0 +1,172 @@
+import { parseArgs } from 'node:util';
+import { readFile } from 'node:fs/promises';
+import { StrategyConfig } from '../types';
+import { MarketDataSource } from '../services/marketDataProvider';
+import { MARKET_DATA_SOURCES } from '../services/marketDataService';
+import { TIMEFRAMES, StrategyInterval, normalizeStrategyConfig } from '../services/strategyService';
+import { DEFAULT_SCAN_VIEW, ScanViewState, decodeScanView } from '../services/scanViewService';
+import { DEFAULT_AI_SETTINGS, AISettings } from '../services/aiAnalysisService';
+import { DEFAULT_WATCHLISTS, normalizeSymbol } from '../services/watchlistService';
+
+// Command line flags of the headless scanner, turned into the same config
+// objects the app keeps in storage.
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+export interface CliOptions {
+  symbols: string[]; // Empty when --top picks the symbols from the market
+  top: number | null;
+  config: StrategyConfig;
+  source: MarketDataSource;
+  fixturePath: string | null;
+  format: OutputFormat;
+  view: ScanViewState;
+  ai: AISettings | null; // Null unless --ai
+  futures: boolean;
+  watch: boolean;
+  concurrency: number;
+}
+
+// Usage problems exit with 2, data failures with 1
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const USAGE = `Usage: npm run scan -- [options]
+
+Symbols
+  --symbols BTCUSDT,ETHUSDT   Symbols to scan (default: the "majors" watchlist)
+  --top N                     Scan the N most liquid USDT pairs instead
+
+Strategy
+  --intervals 1h,4h           Timeframes (${TIMEFRAMES.join(', ')})
+  --config config.json        Strategy config JSON, merged over the defaults
+
+Data
+  --source NAME               ${MARKET_DATA_SOURCES.map(s => s.value).join(' | ')}
+  --fixture market.json       Recorded fixture file, implies --source fixture
+  --concurrency N             Parallel symbols (default 6)
+
+Output
+  --format table|json|csv     Written to stdout, progress and errors go to stderr
+  --view "signal=long&sort=density"
+                              Filter and sort like a shared view link
+  --futures                   Add funding, open interest and long/short ratio of the perpetuals
+  --ai                        Add an AI analysis of every shown setup
+  --ai-provider NAME          gemini (API_KEY env) | openai-compatible (AI_API_KEY env)
+  --ai-model NAME
+  --ai-base-url URL
+
+  --watch                     Re-scan after every close of the shortest timeframe
+  -h, --help
+
+Exit status: 0 when every symbol was scanned, 1 when any failed, 2 on bad options.`;
+
+const FORMATS: OutputFormat[] = ['table', 'json', 'csv'];
+
+const splitList = (value: string | undefined) =>
+  (value ?? '').split(',').map(s => s.trim()).filter(Boolean);
+
+const parsePositive = (name: string, value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) throw new UsageError(`--${name} must be a positive integer`);
+  return n;
+};
+
+const readConfigFile = async (path: string): Promise<Partial<StrategyConfig>> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Cannot read --config ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+const parseAISettings = (values: Record<string, string | boolean | undefined>): AISettings | null => {
+  if (!values.ai) return null;
+  // No backend to go through here, Gemini is called with the key from the environment
+  const provider = (values['ai-provider'] as string | undefined) ?? 'gemini';
+  if (provider !== 'gemini' && provider !== 'openai-compatible') {
+    throw new UsageError(`Unknown --ai-provider ${provider}`);
+  }
+  const model = values['ai-model'] as string | undefined;
+  return {
+    provider,
+    geminiModel: provider === 'gemini' && model ? model : DEFAULT_AI_SETTINGS.geminiModel,
+    geminiApiKey: process.env.API_KEY ?? '',
+    openai: {
+      baseUrl: (values['ai-base-url'] as string | undefined) ?? DEFAULT_AI_SETTINGS.openai.baseUrl,
+      model: provider === 'openai-compatible' && model ? model : DEFAULT_AI_SETTINGS.openai.model,
+      apiKey: process.env.AI_API_KEY ?? ''
+    }
+  };
+};
+
+// Returns null when help was asked for
+export const parseCliOptions = async (argv: string[]): Promise<CliOptions | null> => {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        symbols: { type: 'string' },
+        top: { type: 'string' },
+        intervals: { type: 'string' },
+        config: { type: 'string' },
+        source: { type: 'string' },
+        fixture: { type: 'string' },
+        concurrency: { type: 'string' },
+        format: { type: 'string' },
+        view: { type: 'string' },
+        futures: { type: 'boolean' },
+        ai: { type: 'boolean' },
+        'ai-provider': { type: 'string' },
+        'ai-model': { type: 'string' },
+        'ai-base-url': { type: 'string' },
+        watch: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    }));
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  if (values.help) return null;
+
+  const fixturePath = values.fixture ?? null;
+  const source = (values.source ?? (fixturePath ? 'fixture' : 'binance-spot')) as MarketDataSource;
+  if (!MARKET_DATA_SOURCES.some(s => s.value === source)) throw new UsageError(`Unknown --source ${source}`);
+  if (source === 'fixture' && !fixturePath) throw new UsageError('--source fixture needs --fixture <file>');
+
+  const format = (values.format ?? 'table') as OutputFormat;
+  if (!FORMATS.includes(format)) throw new UsageError(`--format must be one of ${FORMATS.join(', ')}`);
+
+  const top = parsePositive('top', values.top);
+  const symbols = splitList(values.symbols).map(normalizeSymbol);
+  if (top !== null && symbols.length) throw new UsageError('Use either --symbols or --top');
+
+  const intervals = splitList(values.intervals);
+  const unknown = intervals.filter(tf => !TIMEFRAMES.includes(tf as StrategyInterval));
+  if (unknown.length) throw new UsageError(`Unknown interval ${unknown.join(', ')}`);
+
+  const fileConfig = values.config ? await readConfigFile(values.config) : {};
+  const config = normalizeStrategyConfig(
+    intervals.length ? { ...fileConfig, timeframes: intervals as StrategyInterval[] } : fileConfig
+  );
+
+  return {
+    symbols: top === null && symbols.length === 0 ? DEFAULT_WATCHLISTS[0].entries.map(e => e.symbol) : symbols,
+    top,
+    config,
+    source,
+    fixturePath,
+    format,
+    view: values.view ? decodeScanView(new URLSearchParams(values.view)) : DEFAULT_SCAN_VIEW,
+    futures: !!values.futures,
+    ai: parseAISettings(values),
+    watch: !!values.watch,
+    concurrency: parsePositive('concurrency', values.concurrency) ?? 6
+  };
+};
@@ -0,0 +1,83 @@
+import { AIAnalysisResult, CrowdingMetric, StrategyConfig } from '../types';
+import { signalCode } from '../services/strategyService';
+import { ScanRow } from '../services/scanViewService';
+import { createScanSnapshot, setupsToCSV } from '../services/exportService';
+import { OutputFormat } from './options';
+
+// What one scan writes to stdout. Every format is self-contained per scan, so a
+// watch run produces a stream: tables one after another, one JSON document per
+// line, or CSV rows under a single header.
+
+export interface ScanFailure {
+  symbol: string;
+  error: string;
+}
+
+export interface ScanResult {
+  scannedAt: number;
+  source: string; // Provider label
+  config: StrategyConfig;
+  rows: ScanRow[];
+  aiAnalyses: Record<string, AIAnalysisResult>;
+  failures: ScanFailure[];
+}
+
+const formatPrice = (value: number) => value.toFixed(value < 1 ? 6 : value < 100 ? 4 : 2);
+
+const signed = (value: number, digits = 2) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// '!' marks crowding on the side the signal trades
+const CROWDING_CODES: Record<CrowdingMetric, string> = { FUNDING: 'FR', LONG_SHORT_RATIO: 'LSR', OPEN_INTEREST: 'OI' };
+
+const TABLE_COLUMNS: { label: string; right?: boolean; value: (row: ScanRow, ai?: AIAnalysisResult) => string }[] = [
+  { label: 'SYMBOL', value: row => row.analysis.symbol },
+  { label: 'TF', value: row => row.setup.interval },
+  { label: 'SIGNAL', value: row => signalCode(row.setup.signal) },
+  { label: 'PRICE', right: true, value: row => formatPrice(row.setup.price) },
+  { label: 'DENSITY', right: true, value: row => `${row.setup.densityScore.toFixed(2)}%${row.setup.isDense ? '*' : ''}` },
+  { label: 'DEV', right: true, value: row => `${row.setup.priceDeviation.toFixed(2)}%` },
+  { label: 'ATR%', right: true, value: row => row.atrPct.toFixed(2) },
+  { label: 'STOP', right: true, value: row => formatPrice(row.setup.stopLoss) },
+  { label: 'TARGET', right: true, value: row => formatPrice(row.setup.takeProfit) },
+  { label: 'RR', right: true, value: row => row.rewardRatio.toFixed(2) },
+  { label: '24H', right: true, value: row => (row.change24h === null ? '-' : `${signed(row.change24h)}%`) },
+  { label: 'CONF', right: true, value: row => signed(row.analysis.confluence.score, 0) },
+  { label: 'RS', right: true, value: row => `${row.analysis.relativeStrength?.percentile ?? '-'}` },
+  { label: 'FUNDING', right: true, value: row => (row.setup.futures ? `${signed(row.setup.futures.fundingRate * 100, 4)}%` : '') },
+  { label: 'CROWDED', value: row => (row.setup.crowding ?? []).map(c => `${CROWDING_CODES[c.metric]}:${c.side}${c.againstSignal ? '!' : ''}`).join(' ') },
+  { label: 'AI', value: (_, ai) => (ai ? `${ai.bias}/${ai.confidence}` : '') }
+];
+
+export const formatTable = (result: ScanResult): string => {
+  const hasFutures = result.rows.some(row => row.setup.futures);
+  const hasAI = Object.keys(result.aiAnalyses).length > 0;
+  // Optional columns only when --futures / --ai produced something
+  const columns = TABLE_COLUMNS.filter(c =>
+    c.label === 'AI' ? hasAI : c.label === 'FUNDING' || c.label === 'CROWDED' ? hasFutures : true);
+  const cells = result.rows.map(row => columns.map(c => c.value(row, result.aiAnalyses[row.analysis.symbol])));
+  const widths = columns.map((c, i) => Math.max(c.label.length, ...cells.map(line => line[i].length)));
+  const line = (values: string[]) =>
+    values.map((v, i) => (columns[i].right ? v.padStart(widths[i]) : v.padEnd(widths[i]))).join('  ').trimEnd();
+  return [line(columns.map(c => c.label)), ...cells.map(line)].join('\n');
+};
+
+// A scan snapshot, so the file can also be opened with the app's import button
+export const formatJSON = (result: ScanResult): string =>
+  JSON.stringify({
+    ...createScanSnapshot(result.rows.map(r => r.analysis), result.config, result.source, {}, result.aiAnalyses, result.scannedAt),
+    failures: result.failures
+  });
+
+// No BOM on stdout, it would end up in the middle of a piped stream
+export const formatCSV = (result: ScanResult, header: boolean): string => {
+  const lines = setupsToCSV(result.rows.map(r => r.setup), result.aiAnalyses).replace(/^\uFEFF/, '').split('\r\n');
+  return (header ? lines : lines.slice(1)).join('\r\n');
+};
+
+export const formatResult = (result: ScanResult, format: OutputFormat, first: boolean): string => {
+  switch (format) {
+    case 'json': return formatJSON(result);
+    case 'csv': return formatCSV(result, first);
+    default: return `${first ? '' : '\n'}${formatTable(result)}`;
+  }
+};
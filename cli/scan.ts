@@ -0,0 +1,191 @@
+import { readFile } from 'node:fs/promises';
+import { AIAnalysisResult, SignalType, Ticker24h } from '../types';
+import { MarketDataProvider, describeMarketDataError } from '../services/marketDataProvider';
+import { createMarketDataProvider, fetchSymbolKlines } from '../services/marketDataService';
+import { createFixtureProvider } from '../services/fixtureProvider';
+import { INTERVAL_MS, IntervalKlines, MultiTimeframeSetup, candleOpenTime, evaluateTimeframes, rankAnalyses } from '../services/strategyService';
+import { runScan, ScanHandle } from '../services/scanScheduler';
+import { applyScanView } from '../services/scanViewService';
+import { getMarketSymbols } from '../services/watchlistService';
+import { analyzeSetup } from '../services/aiAnalysisService';
+import { describeAIError } from '../services/aiProvider';
+import { attachFuturesContext, getFuturesContext } from '../services/futuresContextService';
+import { attachRelativeStrength, computeRelativeStrength } from '../services/relativeStrengthService';
+import { BTC_SYMBOL } from '../services/marketBriefingService';
+import { createNodeAIProvider } from '../server/aiProviders';
+import { CliOptions, USAGE, UsageError, parseCliOptions } from './options';
+import { ScanFailure, ScanResult, formatResult } from './output';
+
+// Headless scanner: the app's scan (same providers, scheduler, strategy and
+// view filters) run from the command line, for cron jobs and pipes.
+//
+//   npm run scan -- --symbols BTCUSDT,ETHUSDT --intervals 1h,4h
+//   npm run scan -- --top 50 --view "signal=breakout" --format csv > breakouts.csv
+//   npm run scan -- --watch --format json | jq .analyses[].symbol
+
+// The exchange needs a moment after the close before the new candle is served
+const CLOSE_DELAY_MS = 3000;
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const createProvider = async (options: CliOptions): Promise<MarketDataProvider> => {
+  if (options.source !== 'fixture') return createMarketDataProvider({ source: options.source, fixtureUrl: '' });
+  let fixture;
+  try {
+    fixture = JSON.parse(await readFile(options.fixturePath!, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Cannot read --fixture ${options.fixturePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  return createFixtureProvider(fixture);
+};
+
+// The 24h tickers give both the liquidity ranking for --top and the 24h change column
+const resolveSymbols = async (options: CliOptions, provider: MarketDataProvider, tickers: Ticker24h[]): Promise<string[]> => {
+  if (options.top === null) return options.symbols;
+  const info = await provider.fetchExchangeInfo();
+  const volumes = Object.fromEntries(tickers.map(t => [t.symbol, t.quoteVolume]));
+  return getMarketSymbols(Object.fromEntries(info.map(i => [i.symbol, i])), volumes).slice(0, options.top);
+};
+
+const scanOnce = async (
+  options: CliOptions,
+  provider: MarketDataProvider,
+  onHandle: (handle: ScanHandle) => void
+): Promise<ScanResult> => {
+  // Only --top cannot do without them
+  const tickers = options.top !== null ? await provider.fetchTickers() : await provider.fetchTickers().catch(() => []);
+  const symbols = await resolveSymbols(options, provider, tickers);
+  const analyses = new Map<string, MultiTimeframeSetup>();
+  // Candles are kept for relative strength, BTC's are fetched once even when not scanned
+  const klines: Record<string, IntervalKlines> = {};
+  let btcKlines: IntervalKlines | null = null;
+  const tasks = symbols.map((symbol, index) => ({
+    id: symbol,
+    priority: symbols.length - index,
+    run: async () => {
+      klines[symbol] = await fetchSymbolKlines(symbol, options.config.timeframes, provider);
+      analyses.set(symbol, evaluateTimeframes(symbol, klines[symbol], options.config));
+    }
+  }));
+  if (!symbols.includes(BTC_SYMBOL)) {
+    tasks.push({
+      id: BTC_SYMBOL,
+      priority: symbols.length + 1,
+      run: async () => {
+        btcKlines = await fetchSymbolKlines(BTC_SYMBOL, options.config.timeframes, provider);
+      }
+    });
+  }
+  const handle = runScan(
+    tasks,
+    { maxConcurrency: options.concurrency, weightPerTask: 2 * options.config.timeframes.length }
+  );
+  onHandle(handle);
+  const progress = await handle.promise;
+
+  // Without BTC relative strength only lacks its BTC comparison, the scan itself is fine
+  const failures: ScanFailure[] = progress.entries
+    .filter(e => e.status === 'failed' && symbols.includes(e.id))
+    .map(e => ({ symbol: e.id, error: e.error ?? 'failed' }));
+  const relativeStrength = computeRelativeStrength(klines, klines[BTC_SYMBOL] ?? btcKlines);
+  const ordered = symbols
+    .map(s => analyses.get(s))
+    .filter((a): a is MultiTimeframeSetup => !!a)
+    .map(a => attachRelativeStrength(a, relativeStrength[a.symbol]));
+  const changes24h = Object.fromEntries(tickers.map(t => [t.symbol, t.priceChangePercent]));
+  let ranked: MultiTimeframeSetup[] = rankAnalyses(ordered);
+  if (options.futures) {
+    // Like the app, only setups with a signal get the perpetual's positioning
+    ranked = await Promise.all(ranked.map(async analysis => {
+      if (analysis.primary?.signal === SignalType.WAIT) return analysis;
+      const context = await getFuturesContext(analysis.symbol, provider).catch(error => {
+        log(`Futures context of ${analysis.symbol} failed: ${describeMarketDataError(error)}`);
+        return null;
+      });
+      return context ? attachFuturesContext(analysis, context) : analysis;
+    }));
+  }
+  const rows = applyScanView(ranked, options.view, changes24h);
+
+  const aiAnalyses: Record<string, AIAnalysisResult> = {};
+  if (options.ai) {
+    const aiProvider = createNodeAIProvider(options.ai);
+    // One at a time: local models serve a single request anyway, hosted ones rate limit
+    for (const row of rows.filter(r => r.setup.signal !== SignalType.WAIT)) {
+      try {
+        aiAnalyses[row.analysis.symbol] = await analyzeSetup(row.setup, undefined, { provider: aiProvider });
+      } catch (error) {
+        log(`AI analysis of ${row.analysis.symbol} failed: ${describeAIError(error)}`);
+      }
+    }
+  }
+
+  return { scannedAt: Date.now(), source: provider.label, config: options.config, rows, aiAnalyses, failures };
+};
+
+// Next close of the shortest timeframe, every longer one closes on the same boundary
+const nextCloseDelay = (options: CliOptions, now: number = Date.now()): number => {
+  const interval = options.config.timeframes[0];
+  return candleOpenTime(interval, now) + INTERVAL_MS[interval] - now + CLOSE_DELAY_MS;
+};
+
+const main = async (): Promise<number> => {
+  const options = await parseCliOptions(process.argv.slice(2));
+  if (!options) {
+    log(USAGE);
+    return 0;
+  }
+  const provider = await createProvider(options);
+
+  let handle: ScanHandle | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  let wake: (() => void) | null = null;
+  process.once('SIGINT', () => {
+    stopped = true;
+    handle?.cancel();
+    if (timer) clearTimeout(timer);
+    wake?.();
+  });
+
+  let first = true;
+  let exitCode = 0;
+  while (!stopped) {
+    try {
+      const result = await scanOnce(options, provider, h => { handle = h; });
+      if (stopped) break;
+      const output = formatResult(result, options.format, first);
+      if (output) process.stdout.write(`${output}\n`);
+      first = false;
+      result.failures.forEach(f => log(`${f.symbol}: ${f.error}`));
+      log(`${new Date(result.scannedAt).toISOString()} ${provider.label}: ${result.rows.length} shown, ${result.failures.length} failed`);
+      exitCode = result.failures.length > 0 ? 1 : 0;
+    } catch (error) {
+      // A single run reports it through the exit status, watch mode tries again on the next close
+      if (!options.watch) throw error;
+      log(describeMarketDataError(error));
+      exitCode = 1;
+    }
+    if (!options.watch) break;
+
+    const delay = nextCloseDelay(options);
+    log(`Next scan at ${new Date(Date.now() + delay).toISOString()}`);
+    await new Promise<void>(resolve => {
+      wake = resolve;
+      timer = setTimeout(resolve, delay);
+    });
+  }
+  return exitCode;
+};
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    if (error instanceof UsageError) {
+      log(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else {
+      log(describeMarketDataError(error));
+      process.exitCode = 1;
+    }
+  });
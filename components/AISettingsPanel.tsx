@@ -0,0 +1,107 @@
+import React from 'react';
+import { AISettings, DEFAULT_AI_SETTINGS, clearAnalysisCache } from '../services/aiAnalysisService';
+import { AIProviderId } from '../services/aiProvider';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface AISettingsPanelProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { id: AIProviderId; label: string }[] = [
+  { id: 'server', label: '服务端' },
+  { id: 'openai-compatible', label: 'OpenAI 兼容 / 本地模型' }
+];
+
+interface TextFieldProps {
+  label: string;
+  value: string;
+  type?: string;
+  placeholder?: string;
+  hint?: string;
+  onChange: (value: string) => void;
+}
+
+const TextField: React.FC<TextFieldProps> = ({ label, value, type = 'text', placeholder, hint, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-gray-400">
+    <span>{label}</span>
+    <input
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={e => onChange(e.target.value)}
+      className="bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-white focus:outline-none focus:border-indigo-500"
+    />
+    {hint && <span className="text-[10px] text-gray-600">{hint}</span>}
+  </label>
+);
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const updateOpenAI = <K extends keyof AISettings['openai']>(key: K, value: AISettings['openai'][K]) =>
+    onChange({ ...settings, openai: { ...settings.openai, [key]: value } });
+
+  return (
+    <div className="bg-crypto-card border border-slate-700 rounded-xl p-5 mb-8 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-white">AI 分析</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="关闭">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {PROVIDERS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => onChange({ ...settings, provider: p.id })}
+            className={`px-3 py-1.5 rounded-md text-sm ${settings.provider === p.id ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {settings.provider === 'server' ? (
+        <p className="text-xs text-gray-500 mb-4">
+          由本应用的后端调用模型，API Key 与模型在服务端配置（环境变量 API_KEY），不会发送到浏览器。
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+          <TextField
+            label="接口地址"
+            value={settings.openai.baseUrl}
+            placeholder={DEFAULT_AI_SETTINGS.openai.baseUrl}
+            onChange={v => updateOpenAI('baseUrl', v)}
+            hint="需支持 /chat/completions 流式输出"
+          />
+          <TextField label="模型" value={settings.openai.model} onChange={v => updateOpenAI('model', v)} />
+          <TextField
+            label="API Key"
+            type="password"
+            value={settings.openai.apiKey}
+            onChange={v => updateOpenAI('apiKey', v)}
+            hint="本地模型可留空；保存在浏览器本地"
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={clearAnalysisCache}
+          className="px-3 py-1.5 rounded-md bg-slate-700 text-gray-300 hover:text-white text-sm"
+        >
+          清除分析缓存
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_AI_SETTINGS)}
+          className="px-3 py-1.5 rounded-md bg-slate-700 text-gray-300 hover:text-white text-sm"
+        >
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsPanel;
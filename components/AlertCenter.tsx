@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { SignalType } from '../types';
+import { TIMEFRAMES, StrategyInterval } from '../services/strategyService';
+import {
+  AlertEvent, AlertRule, AlertSettings, WebhookConfig,
+  createRuleId, describeRule, notificationsSupported, requestNotificationPermission
+} from '../services/alertService';
+import { XMarkIcon, TrashIcon, PlusIcon, PaperAirplaneIcon } from '@heroicons/react/24/outline';
+
+interface AlertCenterProps {
+  settings: AlertSettings;
+  history: AlertEvent[];
+  onChange: (settings: AlertSettings) => void;
+  onClearHistory: () => void;
+  onSendTest: () => Promise<void>;
+  onClose: () => void;
+}
+
+const SIGNAL_OPTIONS: (SignalType | 'ANY')[] = [
+  'ANY', SignalType.WAIT, SignalType.WATCH, SignalType.LONG, SignalType.SHORT, SignalType.BREAKOUT_LONG, SignalType.BREAKDOWN_SHORT
+];
+
+const signalLabel = (signal: SignalType | 'ANY') => (signal === 'ANY' ? '任意' : signal.split(' ')[0]);
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white focus:outline-none focus:border-indigo-500';
+
+const newRule = (kind: AlertRule['kind']): AlertRule => {
+  switch (kind) {
+    case 'density':
+      return { id: createRuleId(), enabled: true, kind, threshold: 1 };
+    case 'level':
+      return { id: createRuleId(), enabled: true, kind, level: 'stopLoss' };
+    default:
+      return { id: createRuleId(), enabled: true, kind: 'transition', from: 'ANY', to: SignalType.WATCH };
+  }
+};
+
+const AlertCenter: React.FC<AlertCenterProps> = ({ settings, history, onChange, onClearHistory, onSendTest, onClose }) => {
+  const [tab, setTab] = useState<'history' | 'rules'>('history');
+  const [draftRule, setDraftRule] = useState<AlertRule>(() => newRule('transition'));
+  const [testState, setTestState] = useState<string | null>(null);
+  const [permission, setPermission] = useState<string>(
+    notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) =>
+    onChange({ ...settings, rules: settings.rules.map(r => (r.id === id ? { ...r, ...patch } as AlertRule : r)) });
+
+  const updateWebhook = (patch: Partial<WebhookConfig>) =>
+    onChange({ ...settings, webhook: { ...settings.webhook, ...patch } });
+
+  const toggleNotifications = async (enabled: boolean) => {
+    if (enabled) setPermission(await requestNotificationPermission());
+    onChange({ ...settings, notifications: enabled });
+  };
+
+  const sendTest = async () => {
+    setTestState('发送中...');
+    try {
+      await onSendTest();
+      setTestState('已发送');
+    } catch (error) {
+      setTestState(error instanceof Error ? error.message : '发送失败');
+    }
+  };
+
+  return (
+    <div className="bg-crypto-card border border-slate-700 rounded-xl p-5 mb-8 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-2 text-xs">
+          <h3 className="font-semibold text-white text-base mr-2">信号提醒</h3>
+          {(['history', 'rules'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-3 py-1.5 rounded-md ${tab === t ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+            >
+              {t === 'history' ? `历史 (${history.length})` : '规则与通道'}
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="关闭">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {tab === 'history' ? (
+        <div>
+          {history.length === 0 ? (
+            <p className="text-xs text-gray-500">暂无提醒。信号状态发生变化时会记录在这里。</p>
+          ) : (
+            <>
+              <div className="space-y-1 max-h-80 overflow-y-auto">
+                {history.map(event => (
+                  <div key={event.id} className="flex items-start gap-3 bg-slate-800/60 rounded px-3 py-2 text-xs">
+                    <span className="font-mono text-gray-500 shrink-0">{new Date(event.at).toLocaleTimeString()}</span>
+                    <div>
+                      <div className="text-white font-semibold">{event.title}</div>
+                      <div className="text-gray-400">{event.message}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <button onClick={onClearHistory} className="mt-3 text-xs text-gray-500 hover:text-white">清空历史</button>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-5 text-xs">
+          {/* Rules */}
+          <div className="space-y-1">
+            {settings.rules.map(rule => (
+              <div key={rule.id} className="flex items-center gap-2 bg-slate-800/60 rounded px-2 py-1.5">
+                <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} className="accent-indigo-500" />
+                <span className={rule.enabled ? 'text-white' : 'text-gray-500'}>{describeRule(rule)}</span>
+                <button
+                  onClick={() => onChange({ ...settings, rules: settings.rules.filter(r => r.id !== rule.id) })}
+                  className="ml-auto text-gray-500 hover:text-crypto-red"
+                  title="删除规则"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* New rule */}
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={draftRule.kind} onChange={e => setDraftRule(newRule(e.target.value as AlertRule['kind']))} className={inputClass}>
+              <option value="transition">信号切换</option>
+              <option value="density">密集度低于</option>
+              <option value="level">触及止损/止盈</option>
+            </select>
+            {draftRule.kind === 'transition' && (
+              <>
+                <select value={draftRule.from} onChange={e => setDraftRule({ ...draftRule, from: e.target.value as SignalType | 'ANY' })} className={inputClass}>
+                  {SIGNAL_OPTIONS.map(s => <option key={s} value={s}>{signalLabel(s)}</option>)}
+                </select>
+                <span className="text-gray-500">→</span>
+                <select value={draftRule.to} onChange={e => setDraftRule({ ...draftRule, to: e.target.value as SignalType | 'ANY' })} className={inputClass}>
+                  {SIGNAL_OPTIONS.map(s => <option key={s} value={s}>{signalLabel(s)}</option>)}
+                </select>
+              </>
+            )}
+            {draftRule.kind === 'density' && (
+              <input
+                type="number"
+                step={0.1}
+                value={draftRule.threshold}
+                onChange={e => setDraftRule({ ...draftRule, threshold: parseFloat(e.target.value) })}
+                className={`${inputClass} w-20 font-mono`}
+              />
+            )}
+            {draftRule.kind === 'level' && (
+              <select value={draftRule.level} onChange={e => setDraftRule({ ...draftRule, level: e.target.value as 'stopLoss' | 'takeProfit' })} className={inputClass}>
+                <option value="stopLoss">止损</option>
+                <option value="takeProfit">止盈</option>
+              </select>
+            )}
+            <select
+              value={draftRule.interval ?? ''}
+              onChange={e => setDraftRule({ ...draftRule, interval: (e.target.value || undefined) as StrategyInterval | undefined })}
+              className={inputClass}
+            >
+              <option value="">全部周期</option>
+              {TIMEFRAMES.map(tf => <option key={tf} value={tf}>{tf.toUpperCase()}</option>)}
+            </select>
+            <button
+              onClick={() => {
+                if (draftRule.kind === 'density' && !(draftRule.threshold > 0)) return;
+                onChange({ ...settings, rules: [...settings.rules, draftRule] });
+                setDraftRule(newRule(draftRule.kind));
+              }}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 text-gray-200 hover:text-white"
+            >
+              <PlusIcon className="w-4 h-4" />
+              添加
+            </button>
+          </div>
+
+          {/* Delivery */}
+          <div className="grid sm:grid-cols-2 gap-4 border-t border-slate-700 pt-4">
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={settings.notifications}
+                  disabled={permission === 'unsupported'}
+                  onChange={e => toggleNotifications(e.target.checked)}
+                  className="accent-indigo-500"
+                />
+                浏览器通知
+                {permission === 'denied' && <span className="text-crypto-red">(已被浏览器拒绝)</span>}
+                {permission === 'unsupported' && <span className="text-gray-500">(当前浏览器不支持)</span>}
+              </label>
+              <label className="flex items-center gap-2 text-gray-400">
+                冷却时间 (分钟)
+                <input
+                  type="number"
+                  min={0}
+                  value={settings.cooldownMinutes}
+                  onChange={e => onChange({ ...settings, cooldownMinutes: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className={`${inputClass} w-20 font-mono`}
+                />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={settings.webhook.enabled} onChange={e => updateWebhook({ enabled: e.target.checked })} className="accent-indigo-500" />
+                Webhook
+                <select value={settings.webhook.format} onChange={e => updateWebhook({ format: e.target.value as WebhookConfig['format'] })} className={inputClass}>
+                  <option value="json">JSON</option>
+                  <option value="telegram">Telegram</option>
+                  <option value="discord">Discord</option>
+                </select>
+              </label>
+              <input
+                value={settings.webhook.url}
+                onChange={e => updateWebhook({ url: e.target.value.trim() })}
+                placeholder="https://... 或 http://localhost:8787/alerts"
+                className={`${inputClass} w-full font-mono`}
+              />
+              {settings.webhook.format === 'telegram' && (
+                <input
+                  value={settings.webhook.chatId ?? ''}
+                  onChange={e => updateWebhook({ chatId: e.target.value.trim() })}
+                  placeholder="chat_id"
+                  className={`${inputClass} w-full font-mono`}
+                />
+              )}
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={sendTest}
+                  disabled={!settings.webhook.url}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 text-gray-200 hover:text-white disabled:opacity-40"
+                >
+                  <PaperAirplaneIcon className="w-4 h-4" />
+                  发送测试
+                </button>
+                {testState && <span className="text-gray-400">{testState}</span>}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertCenter;
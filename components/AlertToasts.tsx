@@ -0,0 +1,48 @@
+import React, { useEffect } from 'react';
+import { SignalType } from '../types';
+import { AlertEvent } from '../services/alertService';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface AlertToastsProps {
+  toasts: AlertEvent[];
+  onDismiss: (id: string) => void;
+  durationMs?: number;
+}
+
+const BORDER: Record<SignalType, string> = {
+  [SignalType.LONG]: 'border-crypto-green',
+  [SignalType.SHORT]: 'border-crypto-red',
+  [SignalType.BREAKOUT_LONG]: 'border-crypto-green',
+  [SignalType.BREAKDOWN_SHORT]: 'border-crypto-red',
+  [SignalType.WATCH]: 'border-crypto-yellow',
+  [SignalType.WAIT]: 'border-crypto-gray'
+};
+
+const Toast: React.FC<{ event: AlertEvent; onDismiss: (id: string) => void; durationMs: number }> = ({ event, onDismiss, durationMs }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(event.id), durationMs);
+    return () => clearTimeout(timer);
+  }, [event.id, onDismiss, durationMs]);
+
+  return (
+    <div className={`bg-crypto-card border-l-4 ${BORDER[event.signal]} rounded-lg shadow-xl px-4 py-3 w-80 text-xs flex gap-2`}>
+      <div className="flex-1">
+        <div className="text-white font-semibold mb-0.5">{event.title}</div>
+        <div className="text-gray-400">{event.message}</div>
+      </div>
+      <button onClick={() => onDismiss(event.id)} className="text-gray-500 hover:text-white self-start">
+        <XMarkIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+const AlertToasts: React.FC<AlertToastsProps> = ({ toasts, onDismiss, durationMs = 8000 }) => (
+  <div className="fixed bottom-4 right-4 z-30 flex flex-col gap-2">
+    {toasts.map(event => (
+      <Toast key={event.id} event={event} onDismiss={onDismiss} durationMs={durationMs} />
+    ))}
+  </div>
+);
+
+export default AlertToasts;
@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { ClockIcon } from '@heroicons/react/24/solid';
+
+interface CandleCountdownProps {
+  closeTime: number; // Close time of the forming candle
+}
+
+// 1d 02:05:09, 02:05:09 or 05:09
+const formatRemaining = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const clock = `${hours || days ? `${pad(hours)}:` : ''}${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+  return days ? `${days}d ${clock}` : clock;
+};
+
+// Time left until the forming candle closes and its signal is final
+const CandleCountdown: React.FC<CandleCountdownProps> = ({ closeTime }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = closeTime - now;
+  return (
+    <span className="flex items-center gap-1 text-[10px] font-mono text-gray-400" title="距当前K线收盘">
+      <ClockIcon className="w-3 h-3" />
+      {remaining > 0 ? formatRemaining(remaining) : '已收盘'}
+    </span>
+  );
+};
+
+export default CandleCountdown;
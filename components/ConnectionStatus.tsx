@@ -0,0 +1,28 @@
+import React from 'react';
+import { StreamStatus } from '../services/klineStream';
+
+interface ConnectionStatusProps {
+  status: StreamStatus;
+  retryCount: number;
+}
+
+const STATUS_STYLES: Record<StreamStatus, { dot: string; label: string }> = {
+  idle: { dot: 'bg-gray-500', label: '未连接' },
+  connecting: { dot: 'bg-crypto-yellow animate-pulse', label: '连接中' },
+  open: { dot: 'bg-crypto-green', label: '实时推送' },
+  reconnecting: { dot: 'bg-orange-500 animate-pulse', label: '重连中' },
+  closed: { dot: 'bg-crypto-red', label: '已断开' }
+};
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ status, retryCount }) => {
+  const style = STATUS_STYLES[status];
+  return (
+    <span className="flex items-center gap-1.5 text-xs text-gray-400" title="Binance K线 WebSocket 连接状态">
+      <span className={`w-2 h-2 rounded-full ${style.dot}`}></span>
+      {style.label}
+      {status === 'reconnecting' && retryCount > 0 && <span className="font-mono text-gray-500">#{retryCount}</span>}
+    </span>
+  );
+};
+
+export default ConnectionStatus;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { CrowdingFlag, FuturesContext } from '../types';
+import { FUNDING_CROWDED } from '../services/futuresContextService';
+
+interface FuturesContextPanelProps {
+  symbol: string; // Symbol of the setup, the contract is named when it differs
+  context: FuturesContext;
+  crowding: CrowdingFlag[];
+}
+
+// 1234567 -> 1.23M
+const formatNotional = (value: number) => {
+  const units: [number, string][] = [[1e9, 'B'], [1e6, 'M'], [1e3, 'K']];
+  const [size, unit] = units.find(([size]) => value >= size) ?? [1, ''];
+  return `${(value / size).toFixed(2)}${unit}`;
+};
+
+const signed = (value: number, digits: number) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const FuturesContextPanel: React.FC<FuturesContextPanelProps> = ({ symbol, context, crowding }) => {
+  const fundingClass = Math.abs(context.fundingRate) >= FUNDING_CROWDED
+    ? 'text-crypto-yellow'
+    : context.fundingRate >= 0 ? 'text-crypto-green' : 'text-crypto-red';
+
+  return (
+    <div className="mb-4 bg-slate-800/60 rounded-lg p-3 text-xs">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-gray-400">永续合约{context.symbol !== symbol && <span className="font-mono ml-1">{context.symbol}</span>}</span>
+        <span className="text-gray-500" title="下次资金费结算">
+          结算 {new Date(context.nextFundingTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 font-mono">
+        <div className="flex flex-col">
+          <span className="text-gray-500 font-sans">资金费率</span>
+          <span className={fundingClass}>{signed(context.fundingRate * 100, 4)}%</span>
+        </div>
+        <div className="flex flex-col border-l border-slate-600 pl-2" title="持仓名义价值及 24h 变化">
+          <span className="text-gray-500 font-sans">持仓量</span>
+          <span className="text-white">
+            {context.openInterest !== null ? formatNotional(context.openInterest) : '-'}
+            {context.openInterestChange24h !== null && (
+              <span className="text-gray-400"> {signed(context.openInterestChange24h, 1)}%</span>
+            )}
+          </span>
+        </div>
+        <div className="flex flex-col border-l border-slate-600 pl-2" title="大户持仓多空比">
+          <span className="text-gray-500 font-sans">大户多空比</span>
+          <span className="text-white">{context.longShortRatio !== null ? context.longShortRatio.toFixed(2) : '-'}</span>
+        </div>
+      </div>
+      {crowding.map(flag => (
+        <div key={flag.metric} className={`mt-2 ${flag.againstSignal ? 'text-crypto-red' : 'text-crypto-yellow'}`}>
+          ⚠ {flag.message}{flag.againstSignal && '，与信号同向，警惕挤仓'}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FuturesContextPanel;
@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import { JournalEntry, MarketBriefing, SignalType } from '../types';
+import { TIMEFRAMES, StrategyInterval } from '../services/strategyService';
+import { JournalGrouping, JOURNAL_SIGNALS, computeJournalStats, describeConfig } from '../services/journalService';
+import MarketBriefingView from './MarketBriefingView';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+interface JournalPageProps {
+  entries: JournalEntry[];
+  briefings: MarketBriefing[]; // Newest first
+  onClear: () => void;
+}
+
+type StatusFilter = 'ALL' | 'OPEN' | 'TAKE_PROFIT' | 'STOP_LOSS' | 'END_OF_DATA';
+
+const OUTCOME_LABELS: Record<Exclude<StatusFilter, 'ALL'>, { label: string; className: string }> = {
+  OPEN: { label: '进行中', className: 'text-indigo-300' },
+  TAKE_PROFIT: { label: '止盈', className: 'text-crypto-green' },
+  STOP_LOSS: { label: '止损', className: 'text-crypto-red' },
+  END_OF_DATA: { label: '超时', className: 'text-gray-400' }
+};
+
+const GROUPINGS: { value: JournalGrouping; label: string }[] = [
+  { value: 'signal', label: '按信号' },
+  { value: 'interval', label: '按周期' },
+  { value: 'config', label: '按参数' }
+];
+
+const selectClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white focus:outline-none focus:border-indigo-500';
+
+const statusOf = (entry: JournalEntry): Exclude<StatusFilter, 'ALL'> => entry.outcome?.exitReason ?? 'OPEN';
+
+const formatPrice = (value: number) => value.toFixed(value < 1 ? 4 : 2);
+
+const JournalPage: React.FC<JournalPageProps> = ({ entries, briefings, onClear }) => {
+  const [symbolQuery, setSymbolQuery] = useState('');
+  const [interval, setIntervalFilter] = useState<StrategyInterval | 'ALL'>('ALL');
+  const [signal, setSignal] = useState<SignalType | 'ALL'>('ALL');
+  const [status, setStatus] = useState<StatusFilter>('ALL');
+  const [grouping, setGrouping] = useState<JournalGrouping>('signal');
+  const [briefingId, setBriefingId] = useState<string | null>(null);
+  const briefing = briefings.find(b => b.id === briefingId) ?? briefings[0];
+
+  const filtered = useMemo(() => {
+    const query = symbolQuery.trim().toUpperCase();
+    return entries.filter(e =>
+      (!query || e.symbol.includes(query)) &&
+      (interval === 'ALL' || e.interval === interval) &&
+      (signal === 'ALL' || e.signal === signal) &&
+      (status === 'ALL' || statusOf(e) === status)
+    );
+  }, [entries, symbolQuery, interval, signal, status]);
+
+  const groups = useMemo(() => computeJournalStats(filtered, grouping), [filtered, grouping]);
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          value={symbolQuery}
+          onChange={e => setSymbolQuery(e.target.value)}
+          placeholder="币种"
+          className={`${selectClass} w-28 font-mono`}
+        />
+        <select value={interval} onChange={e => setIntervalFilter(e.target.value as StrategyInterval | 'ALL')} className={selectClass}>
+          <option value="ALL">全部周期</option>
+          {TIMEFRAMES.map(tf => <option key={tf} value={tf}>{tf.toUpperCase()}</option>)}
+        </select>
+        <select value={signal} onChange={e => setSignal(e.target.value as SignalType | 'ALL')} className={selectClass}>
+          <option value="ALL">全部信号</option>
+          {JOURNAL_SIGNALS.map(s => <option key={s} value={s}>{s.split(' ')[0]}</option>)}
+        </select>
+        <select value={status} onChange={e => setStatus(e.target.value as StatusFilter)} className={selectClass}>
+          <option value="ALL">全部结果</option>
+          {(Object.keys(OUTCOME_LABELS) as (keyof typeof OUTCOME_LABELS)[]).map(s => (
+            <option key={s} value={s}>{OUTCOME_LABELS[s].label}</option>
+          ))}
+        </select>
+        <span className="text-gray-500">{filtered.length} 条记录</span>
+        <button
+          onClick={() => {
+            if (window.confirm('确定清空全部信号记录和市场简报？')) onClear();
+          }}
+          className="ml-auto flex items-center gap-1 text-gray-500 hover:text-crypto-red"
+        >
+          <TrashIcon className="w-4 h-4" />
+          清空
+        </button>
+      </div>
+
+      {/* Statistics */}
+      <div className="bg-crypto-card border border-slate-700 rounded-xl p-4">
+        <div className="flex items-center gap-2 mb-3 text-xs">
+          <h3 className="font-semibold text-white text-sm mr-2">命中率统计</h3>
+          {GROUPINGS.map(g => (
+            <button
+              key={g.value}
+              onClick={() => setGrouping(g.value)}
+              className={`px-2.5 py-1 rounded ${grouping === g.value ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+            >
+              {g.label}
+            </button>
+          ))}
+        </div>
+        {groups.length === 0 ? (
+          <p className="text-xs text-gray-500">暂无数据。扫描器发出的做多/做空/密集信号会自动记录并跟踪结果。</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead className="text-gray-500 text-left">
+                <tr>
+                  <th className="py-1 pr-3 font-normal">分组</th>
+                  <th className="py-1 pr-3 font-normal text-right">已结束</th>
+                  <th className="py-1 pr-3 font-normal text-right">进行中</th>
+                  <th className="py-1 pr-3 font-normal text-right">止盈率</th>
+                  <th className="py-1 pr-3 font-normal text-right">超时</th>
+                  <th className="py-1 pr-3 font-normal text-right">平均 R</th>
+                  <th className="py-1 pr-3 font-normal text-right">累计 R</th>
+                  <th className="py-1 font-normal text-right">盈亏因子</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {groups.map(group => (
+                  <tr key={group.key} className="border-t border-slate-800">
+                    <td className="py-1.5 pr-3 font-sans">{grouping === 'signal' ? group.key.split(' ')[0] : group.key}</td>
+                    <td className="py-1.5 pr-3 text-right">{group.stats.trades}</td>
+                    <td className="py-1.5 pr-3 text-right">{group.open}</td>
+                    <td className="py-1.5 pr-3 text-right">{group.stats.trades ? `${group.hitRate.toFixed(1)}%` : '-'}</td>
+                    <td className="py-1.5 pr-3 text-right">{group.expired}</td>
+                    <td className={`py-1.5 pr-3 text-right ${group.stats.avgR >= 0 ? 'text-crypto-green' : 'text-crypto-red'}`}>{group.stats.avgR.toFixed(2)}</td>
+                    <td className="py-1.5 pr-3 text-right">{group.stats.totalR.toFixed(2)}</td>
+                    <td className="py-1.5 text-right">{Number.isFinite(group.stats.profitFactor) ? group.stats.profitFactor.toFixed(2) : '∞'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Market briefings */}
+      {briefing && (
+        <div className="bg-crypto-card border border-slate-700 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-3 text-xs">
+            <h3 className="font-semibold text-white text-sm mr-2">市场简报</h3>
+            <select value={briefing.id} onChange={e => setBriefingId(e.target.value)} className={selectClass}>
+              {briefings.map(b => <option key={b.id} value={b.id}>{new Date(b.createdAt).toLocaleString()}</option>)}
+            </select>
+            <span className="text-gray-500">共 {briefings.length} 份</span>
+          </div>
+          <MarketBriefingView briefing={briefing} />
+        </div>
+      )}
+
+      {/* Entries */}
+      <div className="bg-crypto-card border border-slate-700 rounded-xl p-4 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="text-gray-500 text-left">
+            <tr>
+              <th className="py-1 pr-3 font-normal">时间</th>
+              <th className="py-1 pr-3 font-normal">币种</th>
+              <th className="py-1 pr-3 font-normal">周期</th>
+              <th className="py-1 pr-3 font-normal">信号</th>
+              <th className="py-1 pr-3 font-normal text-right">入场</th>
+              <th className="py-1 pr-3 font-normal text-right">止损</th>
+              <th className="py-1 pr-3 font-normal text-right">止盈</th>
+              <th className="py-1 pr-3 font-normal">结果</th>
+              <th className="py-1 font-normal text-right">R</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-300 font-mono">
+            {filtered.slice(0, 500).map(entry => {
+              const outcome = OUTCOME_LABELS[statusOf(entry)];
+              return (
+                <tr key={entry.id} className="border-t border-slate-800" title={`${entry.reason}\n${describeConfig(entry.config)}`}>
+                  <td className="py-1.5 pr-3 text-gray-500">{new Date(entry.recordedAt).toLocaleString()}</td>
+                  <td className="py-1.5 pr-3 text-white">{entry.symbol}</td>
+                  <td className="py-1.5 pr-3">{entry.interval.toUpperCase()}</td>
+                  <td className="py-1.5 pr-3 font-sans">{entry.signal.split(' ')[0]}</td>
+                  <td className="py-1.5 pr-3 text-right">{formatPrice(entry.entryPrice)}</td>
+                  <td className="py-1.5 pr-3 text-right text-crypto-red">{formatPrice(entry.stopLoss)}</td>
+                  <td className="py-1.5 pr-3 text-right text-crypto-green">{formatPrice(entry.takeProfit)}</td>
+                  <td className={`py-1.5 pr-3 font-sans ${outcome.className}`}>
+                    {outcome.label}
+                    {entry.outcome && <span className="text-gray-600 ml-1">{entry.outcome.barsHeld} 根</span>}
+                  </td>
+                  <td className={`py-1.5 text-right ${(entry.outcome?.rMultiple ?? 0) >= 0 ? 'text-crypto-green' : 'text-crypto-red'}`}>
+                    {entry.outcome ? entry.outcome.rMultiple.toFixed(2) : '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {filtered.length > 500 && <p className="text-xs text-gray-500 mt-2">仅显示最近 500 条，请使用筛选条件缩小范围。</p>}
+      </div>
+    </div>
+  );
+};
+
+export default JournalPage;
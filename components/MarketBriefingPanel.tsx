@@ -0,0 +1,61 @@
+import React from 'react';
+import { MarketBriefing } from '../types';
+import MarketBriefingView from './MarketBriefingView';
+import { NewspaperIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface MarketBriefingPanelProps {
+  briefing: MarketBriefing | null; // Latest stored briefing
+  streaming: string | null; // Summary text while a new briefing streams in, null when idle
+  error: string | null;
+  setupCount: number;
+  onGenerate: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const MarketBriefingPanel: React.FC<MarketBriefingPanelProps> = ({ briefing, streaming, error, setupCount, onGenerate, onCancel, onClose }) => {
+  const busy = streaming !== null;
+  return (
+    <div className="bg-crypto-card border border-indigo-500/30 rounded-xl p-5 mb-8 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-white flex items-center gap-2">
+          <NewspaperIcon className="w-5 h-5 text-indigo-400" />
+          AI 市场简报
+        </h3>
+        <div className="flex items-center gap-2">
+          {busy ? (
+            <button onClick={onCancel} className="px-3 py-1.5 rounded-md bg-slate-700 text-gray-300 hover:text-white text-sm">
+              取消
+            </button>
+          ) : (
+            <button
+              onClick={onGenerate}
+              disabled={setupCount === 0}
+              className="px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-50"
+            >
+              {briefing ? '重新生成' : '生成简报'} ({setupCount} 个币种)
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-500 hover:text-white" title="关闭">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {busy ? (
+        <div className="flex items-start gap-2 text-sm text-gray-300">
+          <div className="w-4 h-4 mt-0.5 shrink-0 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
+          <p className="leading-relaxed whitespace-pre-line">{streaming || 'AI 正在汇总全部形态...'}</p>
+        </div>
+      ) : briefing ? (
+        <MarketBriefingView briefing={briefing} />
+      ) : (
+        <p className="text-sm text-gray-500">汇总当前所有扫描结果与 BTC 状态，给出市场状态、重点关注名单与相关性风险。</p>
+      )}
+
+      {error && <p className="text-xs text-crypto-red mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default MarketBriefingPanel;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { MarketBriefing, MarketRegime } from '../types';
+import { REGIME_LABELS } from '../services/marketBriefingService';
+
+interface MarketBriefingViewProps {
+  briefing: MarketBriefing;
+}
+
+const REGIME_STYLES: Record<MarketRegime, string> = {
+  BULL_TREND: 'bg-crypto-green/20 text-crypto-green',
+  BEAR_TREND: 'bg-crypto-red/20 text-crypto-red',
+  RANGE: 'bg-slate-700 text-gray-300',
+  COMPRESSION: 'bg-crypto-yellow/20 text-crypto-yellow',
+  VOLATILE: 'bg-purple-900/40 text-purple-300'
+};
+
+const DIRECTION_STYLES = {
+  LONG: 'text-crypto-green',
+  SHORT: 'text-crypto-red',
+  WATCH: 'text-crypto-yellow'
+};
+
+// One stored briefing, shared by the scanner dashboard and the journal
+const MarketBriefingView: React.FC<MarketBriefingViewProps> = ({ briefing }) => (
+  <div className="space-y-3">
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className={`font-bold px-2 py-0.5 rounded ${REGIME_STYLES[briefing.regime]}`}>{REGIME_LABELS[briefing.regime]}</span>
+      <span className="text-gray-400">{briefing.regimeNote}</span>
+      <span className="ml-auto text-gray-500 font-mono">
+        {new Date(briefing.createdAt).toLocaleString()} · {briefing.setupCount} 个形态 · {briefing.model}
+      </span>
+    </div>
+
+    <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-line">{briefing.summary}</p>
+
+    {briefing.shortlist.length > 0 && (
+      <ol className="space-y-1 text-xs">
+        {briefing.shortlist.map(pick => (
+          <li key={`${pick.symbol}-${pick.interval}`} className="flex gap-2 bg-slate-800/60 rounded px-2 py-1.5">
+            <span className="text-gray-500 font-mono w-4">{pick.rank}</span>
+            <span className="text-white font-bold w-24 shrink-0">{pick.symbol}</span>
+            <span className="text-gray-400 font-mono w-8 shrink-0">{pick.interval}</span>
+            <span className={`font-bold w-12 shrink-0 ${DIRECTION_STYLES[pick.direction]}`}>{pick.direction}</span>
+            <span className="text-gray-300">{pick.rationale}</span>
+          </li>
+        ))}
+      </ol>
+    )}
+
+    {briefing.correlationWarnings.length > 0 && (
+      <ul className="space-y-0.5 text-xs text-crypto-yellow">
+        {briefing.correlationWarnings.map(warning => <li key={warning}>⚠ {warning}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+export default MarketBriefingView;
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { SignalType } from '../types';
+import { TIMEFRAMES, StrategyInterval } from '../services/strategyService';
+import { PaperAccount, PaperExitReason, PaperSettings, EquityPoint, unrealizedPnl } from '../services/paperTradingService';
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface PaperTradingPageProps {
+  account: PaperAccount;
+  settings: PaperSettings;
+  onSettingsChange: (settings: PaperSettings) => void;
+  onClosePosition: (id: string) => void;
+  onReset: (startingEquity: number) => void;
+}
+
+const EXIT_LABELS: Record<PaperExitReason, { label: string; className: string }> = {
+  TAKE_PROFIT: { label: '止盈', className: 'text-crypto-green' },
+  STOP_LOSS: { label: '止损', className: 'text-crypto-red' },
+  TRAILING_STOP: { label: '移动止损', className: 'text-crypto-yellow' },
+  MANUAL: { label: '手动平仓', className: 'text-gray-300' },
+  END_OF_DATA: { label: '超时', className: 'text-gray-400' }
+};
+
+const AUTO_SIGNALS: SignalType[] = [SignalType.LONG, SignalType.SHORT, SignalType.BREAKOUT_LONG, SignalType.BREAKDOWN_SHORT, SignalType.WATCH];
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white font-mono focus:outline-none focus:border-indigo-500';
+
+const formatPrice = (value: number) => value.toFixed(value < 1 ? 4 : 2);
+
+const pnlClass = (value: number) => (value >= 0 ? 'text-crypto-green' : 'text-crypto-red');
+
+// Realized equity after each close, scaled to the box
+const EquityCurve: React.FC<{ points: EquityPoint[]; start: number }> = ({ points, start }) => {
+  if (points.length === 0) {
+    return <p className="text-xs text-gray-500 py-6 text-center">暂无已平仓交易</p>;
+  }
+  const values = [start, ...points.map(p => p.equity)];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const width = 600;
+  const height = 120;
+  const path = values
+    .map((v, i) => `${i === 0 ? 'M' : 'L'}${((i / (values.length - 1 || 1)) * width).toFixed(1)},${(height - ((v - min) / range) * height).toFixed(1)}`)
+    .join(' ');
+  const last = values[values.length - 1];
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-32">
+      <line x1={0} x2={width} y1={height - ((start - min) / range) * height} y2={height - ((start - min) / range) * height} stroke="#2B3139" strokeDasharray="4 4" />
+      <path d={path} fill="none" stroke={last >= start ? '#0ECB81' : '#F6465D'} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = 'text-white' }) => (
+  <div className="bg-crypto-card border border-slate-700 rounded-xl px-4 py-3">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className={`text-lg font-mono ${className}`}>{value}</div>
+  </div>
+);
+
+const PaperTradingPage: React.FC<PaperTradingPageProps> = ({ account, settings, onSettingsChange, onClosePosition, onReset }) => {
+  const [resetEquity, setResetEquity] = useState(account.startingEquity);
+
+  const unrealized = account.positions.reduce((sum, p) => sum + unrealizedPnl(p), 0);
+  const realized = account.balance - account.startingEquity;
+  const wins = account.trades.filter(t => t.pnl > 0).length;
+
+  const update = <K extends keyof PaperSettings>(key: K, value: PaperSettings[K]) =>
+    onSettingsChange({ ...settings, [key]: value });
+
+  const toggle = <T,>(list: T[], item: T): T[] => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Stat label="账户权益" value={(account.balance + unrealized).toFixed(2)} />
+        <Stat label="已实现盈亏" value={realized.toFixed(2)} className={pnlClass(realized)} />
+        <Stat label="浮动盈亏" value={unrealized.toFixed(2)} className={pnlClass(unrealized)} />
+        <Stat label="胜率" value={account.trades.length ? `${((wins / account.trades.length) * 100).toFixed(1)}%` : '-'} />
+        <Stat label="交易次数" value={`${account.trades.length}`} />
+      </div>
+
+      {/* Settings */}
+      <div className="bg-crypto-card border border-slate-700 rounded-xl p-4 flex flex-wrap items-center gap-x-6 gap-y-3 text-xs text-gray-300">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={settings.autoTrade} onChange={e => update('autoTrade', e.target.checked)} className="accent-indigo-500" />
+          自动跟单
+        </label>
+        <div className="flex items-center gap-1">
+          <span className="text-gray-500 mr-1">信号</span>
+          {AUTO_SIGNALS.map(signal => (
+            <button
+              key={signal}
+              onClick={() => update('autoSignals', toggle(settings.autoSignals, signal))}
+              className={`px-2 py-1 rounded ${settings.autoSignals.includes(signal) ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+            >
+              {signal.split(' ')[0]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-gray-500 mr-1">周期</span>
+          {TIMEFRAMES.map(tf => (
+            <button
+              key={tf}
+              onClick={() => update('intervals', toggle<StrategyInterval>(settings.intervals, tf))}
+              className={`px-2 py-1 rounded font-mono ${settings.intervals.includes(tf) ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+              title="不选表示全部周期"
+            >
+              {tf.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          最大持仓
+          <input
+            type="number"
+            min={1}
+            value={settings.maxOpenPositions}
+            onChange={e => update('maxOpenPositions', Math.max(1, parseInt(e.target.value, 10) || 1))}
+            className={`${inputClass} w-16`}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={settings.trailingStop} onChange={e => update('trailingStop', e.target.checked)} className="accent-indigo-500" />
+          移动止损
+          <input
+            type="number"
+            step={0.5}
+            min={0.5}
+            value={settings.trailAtrMultiple}
+            disabled={!settings.trailingStop}
+            onChange={e => update('trailAtrMultiple', Math.max(0.5, parseFloat(e.target.value) || 0.5))}
+            className={`${inputClass} w-16 disabled:opacity-40`}
+          />
+          × ATR
+        </label>
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            type="number"
+            min={1}
+            value={Number.isFinite(resetEquity) ? resetEquity : ''}
+            onChange={e => setResetEquity(parseFloat(e.target.value))}
+            className={`${inputClass} w-24`}
+          />
+          <button
+            onClick={() => {
+              if (resetEquity > 0 && window.confirm('重置将清空全部模拟持仓和交易记录，确定继续？')) onReset(resetEquity);
+            }}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 text-gray-200 hover:text-white"
+          >
+            <ArrowPathIcon className="w-4 h-4" />
+            重置账户
+          </button>
+        </div>
+      </div>
+
+      {/* Equity curve */}
+      <div className="bg-crypto-card border border-slate-700 rounded-xl p-4">
+        <h3 className="font-semibold text-white text-sm mb-2">权益曲线 <span className="text-xs font-normal text-gray-500">初始 {account.startingEquity} USDT</span></h3>
+        <EquityCurve points={account.equityCurve} start={account.startingEquity} />
+      </div>
+
+      {/* Open positions */}
+      <div className="bg-crypto-card border border-slate-700 rounded-xl p-4 overflow-x-auto">
+        <h3 className="font-semibold text-white text-sm mb-2">当前持仓 ({account.positions.length})</h3>
+        {account.positions.length === 0 ? (
+          <p className="text-xs text-gray-500">暂无持仓。在信号卡片上点击“模拟开仓”，或开启自动跟单。</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 text-left">
+              <tr>
+                <th className="py-1 pr-3 font-normal">币种</th>
+                <th className="py-1 pr-3 font-normal">方向</th>
+                <th className="py-1 pr-3 font-normal text-right">数量</th>
+                <th className="py-1 pr-3 font-normal text-right">开仓价</th>
+                <th className="py-1 pr-3 font-normal text-right">现价</th>
+                <th className="py-1 pr-3 font-normal text-right">止损</th>
+                <th className="py-1 pr-3 font-normal text-right">止盈</th>
+                <th className="py-1 pr-3 font-normal text-right">浮动盈亏</th>
+                <th className="py-1 font-normal"></th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-300 font-mono">
+              {account.positions.map(position => {
+                const pnl = unrealizedPnl(position);
+                return (
+                  <tr key={position.id} className="border-t border-slate-800">
+                    <td className="py-1.5 pr-3 text-white">
+                      {position.symbol} <span className="text-gray-500">{position.interval.toUpperCase()}</span>
+                      {position.source === 'auto' && <span className="ml-1 text-[10px] text-indigo-300 font-sans">自动</span>}
+                    </td>
+                    <td className={`py-1.5 pr-3 ${position.direction === 'LONG' ? 'text-crypto-green' : 'text-crypto-red'}`}>{position.direction}</td>
+                    <td className="py-1.5 pr-3 text-right">{position.quantity}</td>
+                    <td className="py-1.5 pr-3 text-right">{formatPrice(position.entryPrice)}</td>
+                    <td className="py-1.5 pr-3 text-right">{formatPrice(position.markPrice)}</td>
+                    <td className="py-1.5 pr-3 text-right text-crypto-red">
+                      {formatPrice(position.stopLoss)}
+                      {position.stopLoss !== position.initialStop && <span className="text-crypto-yellow"> ↟</span>}
+                    </td>
+                    <td className="py-1.5 pr-3 text-right text-crypto-green">{formatPrice(position.takeProfit)}</td>
+                    <td className={`py-1.5 pr-3 text-right ${pnlClass(pnl)}`}>{pnl.toFixed(2)}</td>
+                    <td className="py-1.5 text-right">
+                      <button onClick={() => onClosePosition(position.id)} className="text-gray-500 hover:text-white" title="按现价平仓">
+                        <XMarkIcon className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Trade log */}
+      <div className="bg-crypto-card border border-slate-700 rounded-xl p-4 overflow-x-auto">
+        <h3 className="font-semibold text-white text-sm mb-2">成交记录</h3>
+        {account.trades.length === 0 ? (
+          <p className="text-xs text-gray-500">暂无已平仓交易</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 text-left">
+              <tr>
+                <th className="py-1 pr-3 font-normal">平仓时间</th>
+                <th className="py-1 pr-3 font-normal">币种</th>
+                <th className="py-1 pr-3 font-normal">方向</th>
+                <th className="py-1 pr-3 font-normal text-right">开仓价</th>
+                <th className="py-1 pr-3 font-normal text-right">平仓价</th>
+                <th className="py-1 pr-3 font-normal">原因</th>
+                <th className="py-1 pr-3 font-normal text-right">手续费</th>
+                <th className="py-1 pr-3 font-normal text-right">盈亏</th>
+                <th className="py-1 font-normal text-right">R</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-300 font-mono">
+              {account.trades.slice(0, 200).map(trade => (
+                <tr key={`${trade.id}:${trade.exitTime}`} className="border-t border-slate-800">
+                  <td className="py-1.5 pr-3 text-gray-500">{new Date(trade.exitTime).toLocaleString()}</td>
+                  <td className="py-1.5 pr-3 text-white">{trade.symbol} <span className="text-gray-500">{trade.interval.toUpperCase()}</span></td>
+                  <td className={`py-1.5 pr-3 ${trade.direction === 'LONG' ? 'text-crypto-green' : 'text-crypto-red'}`}>{trade.direction}</td>
+                  <td className="py-1.5 pr-3 text-right">{formatPrice(trade.entryPrice)}</td>
+                  <td className="py-1.5 pr-3 text-right">{formatPrice(trade.exitPrice)}</td>
+                  <td className={`py-1.5 pr-3 font-sans ${EXIT_LABELS[trade.exitReason].className}`}>{EXIT_LABELS[trade.exitReason].label}</td>
+                  <td className="py-1.5 pr-3 text-right text-gray-500">{trade.fees.toFixed(2)}</td>
+                  <td className={`py-1.5 pr-3 text-right ${pnlClass(trade.pnl)}`}>{trade.pnl.toFixed(2)}</td>
+                  <td className={`py-1.5 text-right ${pnlClass(trade.rMultiple)}`}>{trade.rMultiple.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaperTradingPage;
@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Kline, TradeSetup } from '../types';
+import { parseKlines, closes, smaSeries, emaSeries } from '../services/indicators';
+import { MagnifyingGlassPlusIcon, MagnifyingGlassMinusIcon, ArrowsPointingOutIcon } from '@heroicons/react/24/outline';
+
+interface PriceChartProps {
+  klines: Kline[];
+  setup: TradeSetup;
+  height?: number;
+}
+
+interface LineDef {
+  key: string;
+  label: string;
+  color: string;
+  dashed: boolean;
+  values: number[];
+}
+
+const MIN_VISIBLE = 20;
+const DEFAULT_VISIBLE = 120;
+const PRICE_AXIS_WIDTH = 56;
+const VOLUME_RATIO = 0.18; // Share of the plot height used by the volume panel
+
+const LINE_COLORS = { short: '#F0B90B', mid: '#EC4899', long: '#38BDF8' };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const formatPrice = (value: number, reference: number) =>
+  Number.isFinite(value) ? value.toFixed(reference < 1 ? 4 : 2) : '-';
+
+const PriceChart: React.FC<PriceChartProps> = ({ klines, setup, height = 300 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [width, setWidth] = useState<number>(600);
+  const [view, setView] = useState<{ start: number; end: number }>({ start: 0, end: 0 });
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [hoverY, setHoverY] = useState<number | null>(null);
+  const dragRef = useRef<{ x: number; start: number; end: number } | null>(null);
+
+  const candles = useMemo(() => parseKlines(klines), [klines]);
+
+  // Full series for the six lines and the band between the outermost ones
+  const { lines, bandTop, bandBottom } = useMemo(() => {
+    const values = closes(candles);
+    const { short, mid, long } = setup.maPeriods;
+    const defs: LineDef[] = [
+      { key: 'ma20', label: `MA${short}`, color: LINE_COLORS.short, dashed: false, values: smaSeries(values, short) },
+      { key: 'ma60', label: `MA${mid}`, color: LINE_COLORS.mid, dashed: false, values: smaSeries(values, mid) },
+      { key: 'ma120', label: `MA${long}`, color: LINE_COLORS.long, dashed: false, values: smaSeries(values, long) },
+      { key: 'ema20', label: `EMA${short}`, color: LINE_COLORS.short, dashed: true, values: emaSeries(values, short) },
+      { key: 'ema60', label: `EMA${mid}`, color: LINE_COLORS.mid, dashed: true, values: emaSeries(values, mid) },
+      { key: 'ema120', label: `EMA${long}`, color: LINE_COLORS.long, dashed: true, values: emaSeries(values, long) },
+    ];
+    const top = values.map((_, i) => Math.max(...defs.map(d => d.values[i])));
+    const bottom = values.map((_, i) => Math.min(...defs.map(d => d.values[i])));
+    return { lines: defs, bandTop: top, bandBottom: bottom };
+  }, [candles, setup.maPeriods]);
+
+  // Show the latest bars when new data arrives, keeping the zoom level
+  useEffect(() => {
+    setView(prev => {
+      const span = prev.end > prev.start ? prev.end - prev.start : DEFAULT_VISIBLE;
+      const end = candles.length;
+      return { start: Math.max(0, end - span), end };
+    });
+  }, [candles.length]);
+
+  useEffect(() => {
+    const measure = () => {
+      if (containerRef.current) setWidth(containerRef.current.clientWidth);
+    };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  const zoom = (factor: number, anchorRatio: number = 1) => {
+    setView(prev => {
+      const span = prev.end - prev.start;
+      const nextSpan = clamp(Math.round(span * factor), MIN_VISIBLE, candles.length);
+      const anchor = prev.start + span * anchorRatio;
+      let start = Math.round(anchor - nextSpan * anchorRatio);
+      start = clamp(start, 0, candles.length - nextSpan);
+      return { start, end: start + nextSpan };
+    });
+  };
+
+  const plotWidth = Math.max(0, width - PRICE_AXIS_WIDTH);
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const ratio = clamp((event.clientX - rect.left) / Math.max(1, plotWidth), 0, 1);
+      zoom(event.deltaY > 0 ? 1.15 : 1 / 1.15, ratio);
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  });
+
+  const visible = candles.slice(view.start, view.end);
+  if (visible.length === 0) {
+    return (
+      <div ref={containerRef} className="h-24 flex items-center justify-center text-xs text-gray-500">
+        暂无K线数据
+      </div>
+    );
+  }
+
+  const levels = [
+    { label: 'Entry', value: setup.entryPrice, color: '#EAECEF' },
+    { label: 'SL', value: setup.stopLoss, color: '#F6465D' },
+    { label: 'TP', value: setup.takeProfit, color: '#0ECB81' },
+  ].filter(level => Number.isFinite(level.value) && level.value > 0);
+
+  // Price range covers visible candles, visible lines and the trade levels
+  const visibleLineValues = lines.flatMap(line => line.values.slice(view.start, view.end)).filter(Number.isFinite);
+  const priceValues = [
+    ...visible.map(c => c.high),
+    ...visible.map(c => c.low),
+    ...visibleLineValues,
+    ...levels.map(level => level.value)
+  ];
+  const maxPrice = Math.max(...priceValues);
+  const minPrice = Math.min(...priceValues);
+  const padding = (maxPrice - minPrice) * 0.05 || maxPrice * 0.01;
+  const top = maxPrice + padding;
+  const bottom = minPrice - padding;
+
+  const volumeHeight = height * VOLUME_RATIO;
+  const priceHeight = height - volumeHeight - 4;
+  const maxVolume = Math.max(...visible.map(c => c.volume), 1);
+
+  const step = plotWidth / visible.length;
+  const bodyWidth = Math.max(1, step * 0.6);
+  const xAt = (i: number) => (i - view.start) * step + step / 2;
+  const yAt = (price: number) => ((top - price) / (top - bottom)) * priceHeight;
+  const priceAt = (y: number) => top - (y / priceHeight) * (top - bottom);
+
+  const linePath = (values: number[]) => {
+    let d = '';
+    for (let i = view.start; i < view.end; i++) {
+      const v = values[i];
+      if (!Number.isFinite(v)) continue;
+      d += `${d ? 'L' : 'M'}${xAt(i).toFixed(1)},${yAt(v).toFixed(1)}`;
+    }
+    return d;
+  };
+
+  // Band polygon: along the upper envelope, back along the lower one
+  const bandPath = (() => {
+    const indices: number[] = [];
+    for (let i = view.start; i < view.end; i++) {
+      if (Number.isFinite(bandTop[i]) && Number.isFinite(bandBottom[i])) indices.push(i);
+    }
+    if (indices.length < 2) return '';
+    const upper = indices.map(i => `${xAt(i).toFixed(1)},${yAt(bandTop[i]).toFixed(1)}`);
+    const lower = indices.slice().reverse().map(i => `${xAt(i).toFixed(1)},${yAt(bandBottom[i]).toFixed(1)}`);
+    return `M${upper.join('L')}L${lower.join('L')}Z`;
+  })();
+
+  const toLocal = (event: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    const { x, y } = toLocal(event);
+    const drag = dragRef.current;
+    if (drag) {
+      // Pan by whole candles, clamped to the data
+      const shift = Math.round((drag.x - x) / step);
+      const span = drag.end - drag.start;
+      const start = clamp(drag.start + shift, 0, candles.length - span);
+      setView({ start, end: start + span });
+    }
+    if (x > plotWidth) {
+      setHoverIndex(null);
+      return;
+    }
+    setHoverIndex(clamp(view.start + Math.floor(x / step), view.start, view.end - 1));
+    setHoverY(y <= priceHeight ? y : null);
+  };
+
+  const hovered = hoverIndex !== null ? candles[hoverIndex] : null;
+  const ticks = Array.from({ length: 5 }, (_, i) => bottom + ((top - bottom) * (i + 0.5)) / 5);
+
+  return (
+    <div ref={containerRef} className="relative select-none">
+      <div className="absolute right-1 top-1 z-10 flex gap-1">
+        <button onClick={() => zoom(1 / 1.5)} className="p-1 rounded bg-slate-800/80 text-gray-400 hover:text-white" title="放大">
+          <MagnifyingGlassPlusIcon className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={() => zoom(1.5)} className="p-1 rounded bg-slate-800/80 text-gray-400 hover:text-white" title="缩小">
+          <MagnifyingGlassMinusIcon className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => setView({ start: Math.max(0, candles.length - DEFAULT_VISIBLE), end: candles.length })}
+          className="p-1 rounded bg-slate-800/80 text-gray-400 hover:text-white"
+          title="重置视图"
+        >
+          <ArrowsPointingOutIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className="cursor-crosshair"
+        onMouseDown={event => { dragRef.current = { x: toLocal(event).x, ...view }; }}
+        onMouseUp={() => { dragRef.current = null; }}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => { dragRef.current = null; setHoverIndex(null); setHoverY(null); }}
+      >
+        {/* Grid and price axis */}
+        {ticks.map(price => (
+          <g key={price}>
+            <line x1={0} x2={plotWidth} y1={yAt(price)} y2={yAt(price)} stroke="#2B3139" strokeWidth={1} />
+            <text x={plotWidth + 4} y={yAt(price) + 3} fill="#848E9C" fontSize={9} fontFamily="monospace">
+              {formatPrice(price, setup.price)}
+            </text>
+          </g>
+        ))}
+
+        {/* Density band between the highest and lowest of the six lines */}
+        {bandPath && <path d={bandPath} fill="#F0B90B" fillOpacity={0.08} stroke="none" />}
+
+        {/* Volume */}
+        {visible.map((c, idx) => {
+          const i = view.start + idx;
+          const h = (c.volume / maxVolume) * volumeHeight;
+          return (
+            <rect
+              key={`v${c.openTime}`}
+              x={xAt(i) - bodyWidth / 2}
+              y={height - h}
+              width={bodyWidth}
+              height={h}
+              fill={c.close >= c.open ? '#0ECB81' : '#F6465D'}
+              fillOpacity={0.35}
+            />
+          );
+        })}
+
+        {/* Candles */}
+        {visible.map((c, idx) => {
+          const i = view.start + idx;
+          const up = c.close >= c.open;
+          const color = up ? '#0ECB81' : '#F6465D';
+          const bodyTop = yAt(Math.max(c.open, c.close));
+          const bodyHeight = Math.max(1, Math.abs(yAt(c.open) - yAt(c.close)));
+          return (
+            <g key={c.openTime}>
+              <line x1={xAt(i)} x2={xAt(i)} y1={yAt(c.high)} y2={yAt(c.low)} stroke={color} strokeWidth={1} />
+              <rect x={xAt(i) - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+            </g>
+          );
+        })}
+
+        {/* Six lines */}
+        {lines.map(line => (
+          <path
+            key={line.key}
+            d={linePath(line.values)}
+            fill="none"
+            stroke={line.color}
+            strokeWidth={1.2}
+            strokeDasharray={line.dashed ? '4 3' : undefined}
+            opacity={0.9}
+          />
+        ))}
+
+        {/* Entry / SL / TP */}
+        {levels.map(level => (
+          <g key={level.label}>
+            <line x1={0} x2={plotWidth} y1={yAt(level.value)} y2={yAt(level.value)} stroke={level.color} strokeDasharray="6 4" strokeWidth={1} />
+            <rect x={plotWidth} y={yAt(level.value) - 7} width={PRICE_AXIS_WIDTH} height={14} fill={level.color} rx={2} />
+            <text x={plotWidth + 3} y={yAt(level.value) + 3} fill="#0B0E11" fontSize={9} fontFamily="monospace">
+              {level.label} {formatPrice(level.value, setup.price)}
+            </text>
+          </g>
+        ))}
+
+        {/* Crosshair */}
+        {hoverIndex !== null && (
+          <g pointerEvents="none">
+            <line x1={xAt(hoverIndex)} x2={xAt(hoverIndex)} y1={0} y2={height} stroke="#848E9C" strokeDasharray="3 3" />
+            {hoverY !== null && (
+              <>
+                <line x1={0} x2={plotWidth} y1={hoverY} y2={hoverY} stroke="#848E9C" strokeDasharray="3 3" />
+                <rect x={plotWidth} y={hoverY - 7} width={PRICE_AXIS_WIDTH} height={14} fill="#474D57" rx={2} />
+                <text x={plotWidth + 3} y={hoverY + 3} fill="#EAECEF" fontSize={9} fontFamily="monospace">
+                  {formatPrice(priceAt(hoverY), setup.price)}
+                </text>
+              </>
+            )}
+          </g>
+        )}
+      </svg>
+
+      {/* Tooltip */}
+      {hovered && (
+        <div className="absolute left-1 top-1 bg-slate-900/90 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-gray-300 pointer-events-none">
+          <div className="text-gray-500">{new Date(hovered.openTime).toLocaleString()}</div>
+          <div>
+            O {formatPrice(hovered.open, setup.price)} H {formatPrice(hovered.high, setup.price)} L {formatPrice(hovered.low, setup.price)} C {formatPrice(hovered.close, setup.price)}
+          </div>
+          <div>Vol {hovered.volume.toFixed(2)}</div>
+          {lines.map(line => (
+            <div key={line.key} style={{ color: line.color }}>
+              {line.label} {formatPrice(line.values[hoverIndex!], setup.price)}
+            </div>
+          ))}
+          {Number.isFinite(bandTop[hoverIndex!]) && (
+            <div className="text-crypto-yellow">
+              密集度 {(((bandTop[hoverIndex!] - bandBottom[hoverIndex!]) / hovered.close) * 100).toFixed(2)}%
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceChart;
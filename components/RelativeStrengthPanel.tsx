@@ -0,0 +1,48 @@
+import React from 'react';
+import { RelativeStrength } from '../types';
+
+interface RelativeStrengthPanelProps {
+  rs: RelativeStrength;
+}
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const toneOf = (value: number | null) =>
+  value === null ? 'text-gray-500' : value >= 0 ? 'text-crypto-green' : 'text-crypto-red';
+
+// RS line as a sparkline, rising when the symbol outperforms BTC
+const Sparkline: React.FC<{ points: number[] }> = ({ points }) => {
+  const min = Math.min(...points);
+  const span = Math.max(...points) - min || 1;
+  const path = points
+    .map((p, i) => `${((i / (points.length - 1)) * 100).toFixed(1)},${(20 - ((p - min) / span) * 20).toFixed(1)}`)
+    .join(' ');
+  const rising = points[points.length - 1] >= points[0];
+  return (
+    <svg viewBox="0 0 100 20" preserveAspectRatio="none" className="w-24 h-5">
+      <polyline points={path} fill="none" strokeWidth="1.5" vectorEffect="non-scaling-stroke" className={rising ? 'stroke-crypto-green' : 'stroke-crypto-red'} />
+    </svg>
+  );
+};
+
+const RelativeStrengthPanel: React.FC<RelativeStrengthPanelProps> = ({ rs }) => (
+  <div className="mb-4 bg-slate-800/60 rounded-lg p-3 text-xs">
+    <div className="flex justify-between items-center mb-2">
+      <span className="text-gray-400">
+        相对强度 vs BTC
+        {rs.rsNewHigh && <span className="ml-2 text-crypto-green">RS 新高</span>}
+      </span>
+      {rs.rsLine.length > 1 && <Sparkline points={rs.rsLine} />}
+    </div>
+    <div className="grid grid-cols-4 gap-2 font-mono">
+      {rs.returns.map(r => (
+        <div key={r.label} className="flex flex-col" title={r.vsUniverse !== null ? `较扫描中位数 ${signed(r.vsUniverse)}` : undefined}>
+          <span className="text-gray-500 font-sans">{r.label}</span>
+          <span className={toneOf(r.vsBtc)}>{r.vsBtc !== null ? signed(r.vsBtc) : '-'}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default RelativeStrengthPanel;
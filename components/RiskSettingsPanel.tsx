@@ -0,0 +1,93 @@
+import React from 'react';
+import { DEFAULT_RISK_SETTINGS, MarketType, RiskSettings } from '../services/riskService';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface RiskSettingsPanelProps {
+  settings: RiskSettings;
+  market: MarketType;
+  onChange: (settings: RiskSettings) => void;
+  onClose: () => void;
+}
+
+interface FieldProps {
+  label: string;
+  value: number;
+  step?: number;
+  min?: number;
+  disabled?: boolean;
+  hint?: string;
+  onChange: (value: number) => void;
+}
+
+const Field: React.FC<FieldProps> = ({ label, value, step = 1, min = 0, disabled, hint, onChange }) => (
+  <label className={`flex flex-col gap-1 text-xs ${disabled ? 'text-gray-600' : 'text-gray-400'}`}>
+    <span>{label}</span>
+    <input
+      type="number"
+      value={value}
+      step={step}
+      min={min}
+      disabled={disabled}
+      onChange={e => {
+        const next = parseFloat(e.target.value);
+        // Half-typed values are ignored rather than saved as NaN
+        if (Number.isFinite(next) && next >= min) onChange(next);
+      }}
+      className="bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-white focus:outline-none focus:border-indigo-500 disabled:opacity-40"
+    />
+    {hint && <span className="text-[10px] text-gray-600">{hint}</span>}
+  </label>
+);
+
+const RiskSettingsPanel: React.FC<RiskSettingsPanelProps> = ({ settings, market, onChange, onClose }) => {
+  const update = <K extends keyof RiskSettings>(key: K, value: RiskSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="bg-crypto-card border border-slate-700 rounded-xl p-5 mb-8 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-white">
+          仓位与风险
+          <span className="ml-2 text-xs font-normal text-gray-500">{market === 'futures' ? 'U本位合约' : '现货'}</span>
+        </h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="关闭">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 mb-4">
+        <Field label="账户权益 (USDT)" value={settings.equity} step={100} onChange={v => update('equity', v)} />
+        <Field label="单笔风险 (%)" value={settings.riskPercent} step={0.1} onChange={v => update('riskPercent', v)} hint="止损时亏损占权益比例" />
+        <Field
+          label="杠杆 (倍)"
+          value={settings.leverage}
+          min={1}
+          disabled={market !== 'futures'}
+          onChange={v => update('leverage', Math.round(v))}
+          hint={market !== 'futures' ? '现货不使用杠杆' : undefined}
+        />
+        <Field label="手续费 (%/单边)" value={settings.feeRate} step={0.01} onChange={v => update('feeRate', v)} />
+        <Field label="滑点 (%)" value={settings.slippage} step={0.01} onChange={v => update('slippage', v)} />
+        <Field
+          label="维持保证金率 (%)"
+          value={settings.maintenanceMarginRate}
+          step={0.1}
+          disabled={market !== 'futures'}
+          onChange={v => update('maintenanceMarginRate', v)}
+          hint="用于估算强平价"
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onChange(DEFAULT_RISK_SETTINGS)}
+          className="px-3 py-1.5 rounded-md bg-slate-700 text-gray-300 hover:text-white text-sm"
+        >
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RiskSettingsPanel;
@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+interface ScanExportMenuProps {
+  disabled: boolean; // Nothing to export
+  onExport: (format: ExportFormat) => void;
+  onImport: (json: string) => void; // Throws with a message when the file is not a snapshot
+}
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'csv', label: 'CSV', hint: '表格软件' },
+  { value: 'markdown', label: 'Markdown 报告', hint: '粘贴到聊天' },
+  { value: 'json', label: 'JSON 快照', hint: '可重新导入查看' }
+];
+
+const ScanExportMenu: React.FC<ScanExportMenuProps> = ({ disabled, onExport, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onImport(await file.text());
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : '导入失败');
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {importError && <span className="text-crypto-red">{importError}</span>}
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center gap-1 text-gray-400 hover:text-white"
+        title="导入 JSON 快照"
+      >
+        <ArrowUpTrayIcon className="w-4 h-4" />
+        导入
+      </button>
+      <button
+        onClick={() => setOpen(v => !v)}
+        disabled={disabled}
+        className="flex items-center gap-1 text-gray-400 hover:text-white disabled:opacity-40"
+        title="导出当前结果"
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+        导出
+      </button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      {open && !disabled && (
+        <div className="absolute right-0 top-full z-20 mt-1 bg-crypto-card border border-slate-700 rounded-lg p-1 shadow-lg w-44">
+          {FORMATS.map(f => (
+            <button
+              key={f.value}
+              onClick={() => {
+                onExport(f.value);
+                setOpen(false);
+              }}
+              className="w-full text-left px-2 py-1.5 rounded hover:bg-slate-700 text-gray-200 flex justify-between"
+            >
+              {f.label}
+              <span className="text-gray-500">{f.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanExportMenu;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { ScanProgress, ScanStatus } from '../services/scanScheduler';
+import { StopIcon } from '@heroicons/react/24/solid';
+
+interface ScanProgressPanelProps {
+  progress: ScanProgress;
+  onCancel: () => void;
+}
+
+const STATUS_CHIP: Record<ScanStatus, string> = {
+  queued: 'bg-slate-800 text-gray-500',
+  running: 'bg-indigo-900/60 text-indigo-300 animate-pulse',
+  done: 'bg-green-900/30 text-green-400',
+  failed: 'bg-red-900/40 text-red-400',
+  cancelled: 'bg-slate-800 text-gray-600 line-through'
+};
+
+const ScanProgressPanel: React.FC<ScanProgressPanelProps> = ({ progress, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+  const [showAll, setShowAll] = useState(false);
+
+  // Tick once a second while throttled so the countdown moves
+  useEffect(() => {
+    if (!progress.throttledUntil) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [progress.throttledUntil]);
+
+  const completed = progress.done + progress.failed + progress.cancelled;
+  const percent = progress.total ? Math.round((completed / progress.total) * 100) : 100;
+  const failures = progress.entries.filter(e => e.status === 'failed');
+  const waitSeconds = progress.throttledUntil ? Math.max(0, Math.ceil((progress.throttledUntil - now) / 1000)) : 0;
+
+  return (
+    <div className="bg-crypto-card border border-slate-700 rounded-xl p-4 mb-6 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <div className="flex flex-wrap items-center gap-3 text-gray-400">
+          <span className="text-white font-semibold">历史数据同步 {completed}/{progress.total}</span>
+          <span className="text-green-400">成功 {progress.done}</span>
+          {progress.failed > 0 && <span className="text-red-400">失败 {progress.failed}</span>}
+          <span>进行中 {progress.running}</span>
+          <span>排队 {progress.queued}</span>
+          <span className="font-mono" title="并发数随限流自动调整">并发 {progress.concurrency}</span>
+          <span className="font-mono" title="X-MBX-USED-WEIGHT-1M">
+            权重 {progress.usedWeight ?? '-'}/{progress.weightLimit}
+          </span>
+          {waitSeconds > 0 && <span className="text-crypto-yellow">限流等待 {waitSeconds}s</span>}
+        </div>
+        {!progress.finished && (
+          <button onClick={onCancel} className="flex items-center gap-1 px-2 py-1 rounded bg-slate-800 text-gray-300 hover:text-crypto-red">
+            <StopIcon className="w-3.5 h-3.5" />
+            停止
+          </button>
+        )}
+      </div>
+
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mb-3">
+        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }}></div>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="mb-2 space-y-0.5">
+          {failures.map(entry => (
+            <div key={entry.id} className="text-red-400 font-mono">
+              {entry.id}: {entry.error} <span className="text-gray-600">(尝试 {entry.attempts} 次)</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button onClick={() => setShowAll(v => !v)} className="text-gray-500 hover:text-white">
+        {showAll ? '隐藏明细' : '显示每个币种状态'}
+      </button>
+      {showAll && (
+        <div className="mt-2 flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+          {progress.entries.map(entry => (
+            <span key={entry.id} className={`px-1.5 py-0.5 rounded font-mono text-[10px] ${STATUS_CHIP[entry.status]}`} title={entry.error}>
+              {entry.id}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanProgressPanel;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { SignalType } from '../types';
+import { SCAN_COLUMNS, ScanColumn, ScanRow, ScanViewState, SortKey } from '../services/scanViewService';
+import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+
+interface ScanTableProps {
+  rows: ScanRow[];
+  view: ScanViewState;
+  onSort: (sort: SortKey) => void;
+  renderDetail: (row: ScanRow) => React.ReactNode; // Expanded row, the full signal card
+}
+
+const SIGNAL_COLORS: Record<SignalType, string> = {
+  [SignalType.LONG]: 'text-crypto-green',
+  [SignalType.BREAKOUT_LONG]: 'text-crypto-green',
+  [SignalType.SHORT]: 'text-crypto-red',
+  [SignalType.BREAKDOWN_SHORT]: 'text-crypto-red',
+  [SignalType.WATCH]: 'text-crypto-yellow',
+  [SignalType.WAIT]: 'text-crypto-gray'
+};
+
+const signed = (value: number, digits = 2) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const renderCell = (column: ScanColumn, row: ScanRow): React.ReactNode => {
+  const { setup } = row;
+  switch (column) {
+    case 'interval': return setup.interval.toUpperCase();
+    case 'signal': return <span className={`font-sans ${SIGNAL_COLORS[setup.signal]}`}>{setup.signal.split(' ')[0]}</span>;
+    case 'price': return setup.price.toFixed(setup.price < 1 ? 4 : 2);
+    case 'density': return <span className={setup.isDense ? 'text-crypto-yellow' : undefined}>{setup.densityScore.toFixed(2)}%</span>;
+    case 'deviation': return `${setup.priceDeviation.toFixed(2)}%`;
+    case 'atrPct': return `${row.atrPct.toFixed(2)}%`;
+    case 'stopDistance': return `${row.stopDistance.toFixed(2)}%`;
+    case 'rewardRatio': return row.rewardRatio.toFixed(2);
+    case 'change24h':
+      return row.change24h === null
+        ? '-'
+        : <span className={row.change24h >= 0 ? 'text-crypto-green' : 'text-crypto-red'}>{signed(row.change24h)}%</span>;
+    case 'confluence': return signed(row.analysis.confluence.score, 0);
+    case 'relativeStrength': {
+      const percentile = row.analysis.relativeStrength?.percentile;
+      if (percentile === null || percentile === undefined) return '-';
+      return <span className={percentile >= 70 ? 'text-crypto-green' : percentile <= 30 ? 'text-crypto-red' : undefined}>{percentile}</span>;
+    }
+  }
+};
+
+const ScanTable: React.FC<ScanTableProps> = ({ rows, view, onSort, renderDetail }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const columns = SCAN_COLUMNS.filter(c => view.columns.includes(c.key));
+
+  const header = (label: string, sort?: SortKey, align = 'text-right') => (
+    <th className={`py-2 px-2 font-normal ${align}`}>
+      {sort ? (
+        <button onClick={() => onSort(sort)} className={`hover:text-white ${view.sort === sort ? 'text-white' : ''}`}>
+          {label}{view.sort === sort ? (view.sortDir === 'asc' ? ' ↑' : ' ↓') : ''}
+        </button>
+      ) : label}
+    </th>
+  );
+
+  return (
+    <div className="bg-crypto-card border border-slate-700 rounded-xl overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="text-gray-500 border-b border-slate-700">
+          <tr>
+            {header('币种', 'symbol', 'text-left')}
+            {columns.map(c => (
+              <React.Fragment key={c.key}>{header(c.label, c.sort, c.sort ? 'text-right' : 'text-left')}</React.Fragment>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="font-mono text-gray-300">
+          {rows.map(row => {
+            const symbol = row.analysis.symbol;
+            const open = expanded === symbol;
+            return (
+              <React.Fragment key={symbol}>
+                <tr
+                  onClick={() => setExpanded(open ? null : symbol)}
+                  className={`border-t border-slate-800 cursor-pointer hover:bg-slate-800/60 ${open ? 'bg-slate-800/60' : ''}`}
+                >
+                  <td className="py-1.5 px-2 text-white font-bold whitespace-nowrap">
+                    {open ? <ChevronDownIcon className="w-3 h-3 inline mr-1" /> : <ChevronRightIcon className="w-3 h-3 inline mr-1" />}
+                    {symbol}
+                  </td>
+                  {columns.map(c => (
+                    <td key={c.key} className={`py-1.5 px-2 whitespace-nowrap ${c.sort ? 'text-right' : 'text-left'}`}>{renderCell(c.key, row)}</td>
+                  ))}
+                </tr>
+                {open && (
+                  <tr>
+                    <td colSpan={columns.length + 1} className="p-3 bg-slate-900/40">{renderDetail(row)}</td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ScanTable;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { StrategyInterval } from '../services/strategyService';
+import {
+  DEFAULT_SCAN_VIEW, SCAN_COLUMNS, SORT_OPTIONS, ScanColumn, ScanViewState, SortKey
+} from '../services/scanViewService';
+import {
+  ArrowDownIcon, ArrowUpIcon, LinkIcon, Squares2X2Icon, TableCellsIcon, ViewColumnsIcon, XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface ScanViewControlsProps {
+  view: ScanViewState;
+  timeframes: StrategyInterval[]; // Configured timeframes, the interval chips
+  shown: number;
+  total: number;
+  onChange: (view: ScanViewState) => void;
+  actions?: React.ReactNode; // Extra buttons at the end of the bar
+}
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white focus:outline-none focus:border-indigo-500';
+
+interface ThresholdProps {
+  label: string;
+  value: number | null;
+  step: number;
+  onChange: (value: number | null) => void;
+}
+
+// Empty input clears the threshold
+const Threshold: React.FC<ThresholdProps> = ({ label, value, step, onChange }) => (
+  <label className="flex items-center gap-1 text-gray-400">
+    {label}
+    <input
+      type="number"
+      value={value ?? ''}
+      step={step}
+      min={0}
+      onChange={e => {
+        if (e.target.value === '') return onChange(null);
+        const next = parseFloat(e.target.value);
+        if (Number.isFinite(next) && next >= 0) onChange(next);
+      }}
+      className={`${inputClass} w-16 font-mono`}
+    />
+  </label>
+);
+
+const ScanViewControls: React.FC<ScanViewControlsProps> = ({ view, timeframes, shown, total, onChange, actions }) => {
+  const [showColumns, setShowColumns] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const update = <K extends keyof ScanViewState>(key: K, value: ScanViewState[K]) => onChange({ ...view, [key]: value });
+
+  const toggleInterval = (tf: StrategyInterval) =>
+    update('intervals', view.intervals.includes(tf) ? view.intervals.filter(i => i !== tf) : [...view.intervals, tf]);
+
+  // Keep the chooser's order rather than the click order
+  const toggleColumn = (column: ScanColumn) =>
+    update('columns', SCAN_COLUMNS.map(c => c.key).filter(key => (key === column) !== view.columns.includes(key)));
+
+  const copyLink = () => {
+    navigator.clipboard?.writeText(window.location.href)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(error => console.error('Failed to copy link', error));
+  };
+
+  const isFiltered = view.intervals.length > 0 || view.denseOnly || view.maxDensity !== null ||
+    view.maxDeviation !== null || view.minRewardRatio !== null || view.query.trim() !== '';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs mb-6">
+      <div className="bg-slate-800 p-1 rounded-lg flex items-center">
+        <button
+          onClick={() => update('layout', 'grid')}
+          className={`p-1.5 rounded-md ${view.layout === 'grid' ? 'bg-slate-600 text-white' : 'text-gray-400 hover:text-white'}`}
+          title="卡片视图"
+        >
+          <Squares2X2Icon className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => update('layout', 'table')}
+          className={`p-1.5 rounded-md ${view.layout === 'table' ? 'bg-slate-600 text-white' : 'text-gray-400 hover:text-white'}`}
+          title="表格视图"
+        >
+          <TableCellsIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <input
+        value={view.query}
+        onChange={e => update('query', e.target.value)}
+        placeholder="搜索币种"
+        className={`${inputClass} w-28 font-mono`}
+      />
+
+      <div className="flex items-center gap-1">
+        {timeframes.map(tf => (
+          <button
+            key={tf}
+            onClick={() => toggleInterval(tf)}
+            className={`px-2 py-1 rounded ${view.intervals.includes(tf) ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+          >
+            {tf.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-1 text-gray-400">
+        <input type="checkbox" checked={view.denseOnly} onChange={e => update('denseOnly', e.target.checked)} />
+        仅密集
+      </label>
+      <Threshold label="密集≤" value={view.maxDensity} step={0.1} onChange={v => update('maxDensity', v)} />
+      <Threshold label="偏离≤" value={view.maxDeviation} step={0.1} onChange={v => update('maxDeviation', v)} />
+      <Threshold label="盈亏比≥" value={view.minRewardRatio} step={0.5} onChange={v => update('minRewardRatio', v)} />
+
+      <div className="flex items-center gap-1">
+        <select value={view.sort} onChange={e => update('sort', e.target.value as SortKey)} className={inputClass}>
+          {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <button
+          onClick={() => update('sortDir', view.sortDir === 'asc' ? 'desc' : 'asc')}
+          disabled={view.sort === 'rank'}
+          className="p-1.5 rounded bg-slate-800 text-gray-400 hover:text-white disabled:opacity-40"
+          title={view.sortDir === 'asc' ? '升序' : '降序'}
+        >
+          {view.sortDir === 'asc' ? <ArrowUpIcon className="w-3.5 h-3.5" /> : <ArrowDownIcon className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+
+      {view.layout === 'table' && (
+        <div className="relative">
+          <button
+            onClick={() => setShowColumns(v => !v)}
+            className={`p-1.5 rounded ${showColumns ? 'bg-slate-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+            title="显示列"
+          >
+            <ViewColumnsIcon className="w-4 h-4" />
+          </button>
+          {showColumns && (
+            <div className="absolute z-20 mt-1 bg-crypto-card border border-slate-700 rounded-lg p-2 shadow-lg space-y-1 w-32">
+              {SCAN_COLUMNS.map(c => (
+                <label key={c.key} className="flex items-center gap-2 text-gray-300">
+                  <input type="checkbox" checked={view.columns.includes(c.key)} onChange={() => toggleColumn(c.key)} />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <span className="text-gray-500">{shown} / {total}</span>
+      {isFiltered && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_SCAN_VIEW, layout: view.layout, signal: view.signal, columns: view.columns })}
+          className="flex items-center gap-0.5 text-gray-500 hover:text-white"
+        >
+          <XMarkIcon className="w-3.5 h-3.5" />
+          清除筛选
+        </button>
+      )}
+      <button onClick={copyLink} className="ml-auto flex items-center gap-1 text-gray-400 hover:text-white" title="复制当前视图链接">
+        <LinkIcon className="w-4 h-4" />
+        {copied ? '已复制' : '分享视图'}
+      </button>
+      {actions}
+    </div>
+  );
+};
+
+export default ScanViewControls;
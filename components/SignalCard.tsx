@@ -1,27 +1,104 @@
-import React, { useState } from 'react';
-import { TradeSetup, SignalType } from '../types';
-import { getGeminiAnalysis } from '../services/geminiService';
-import { ArrowTrendingUpIcon, ArrowTrendingDownIcon, EyeIcon, BoltIcon, SparklesIcon, ClockIcon } from '@heroicons/react/24/solid';
+import React, { useEffect, useRef, useState } from 'react';
+import { AIAnalysisResult, SignalType, StrategyConfig, SymbolFilters, TradeSetup } from '../types';
+import { analyzeSetup, getAIProvider, getCachedAnalysis } from '../services/aiAnalysisService';
+import { AIError, describeAIError } from '../services/aiProvider';
+import { IntervalKlines, MultiTimeframeSetup, StrategyInterval } from '../services/strategyService';
+import { MarketType, RiskSettings, calculatePositionSize } from '../services/riskService';
+import { downloadFile, exportFileName, klinesToCSV, klinesToFixture } from '../services/exportService';
+import { describeRelativeStrength } from '../services/relativeStrengthService';
+import PriceChart from './PriceChart';
+import TimeframeMatrix from './TimeframeMatrix';
+import TradePlanList from './TradePlanList';
+import FuturesContextPanel from './FuturesContextPanel';
+import RelativeStrengthPanel from './RelativeStrengthPanel';
+import SignalHistoryPanel from './SignalHistoryPanel';
+import CandleCountdown from './CandleCountdown';
+import { ArrowTrendingUpIcon, ArrowTrendingDownIcon, ArrowUpCircleIcon, ArrowDownCircleIcon, EyeIcon, BoltIcon, SparklesIcon, ClockIcon, ChartBarIcon } from '@heroicons/react/24/solid';
 
 interface SignalCardProps {
-  setup: TradeSetup;
+  analysis: MultiTimeframeSetup;
+  config: StrategyConfig;
+  klines?: IntervalKlines; // Candles per interval, for the chart
+  risk?: RiskSettings;
+  market?: MarketType;
+  filters?: SymbolFilters; // Exchange order rules for the symbol, used to round the position
+  onPaperTrade?: (setup: TradeSetup) => string | null; // Returns why the position was not opened
+  savedAnalysis?: AIAnalysisResult; // AI result shipped with an imported snapshot
 }
 
-const SignalCard: React.FC<SignalCardProps> = ({ setup }) => {
-  const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
-  const [loadingAi, setLoadingAi] = useState(false);
+const TIMEFRAME_BADGES: Record<StrategyInterval, string> = {
+  '15m': 'bg-teal-900/40 text-teal-300 border-teal-700',
+  '1h': 'bg-blue-900/40 text-blue-300 border-blue-700',
+  '4h': 'bg-purple-900/40 text-purple-300 border-purple-700',
+  '1d': 'bg-orange-900/40 text-orange-300 border-orange-700',
+  '1w': 'bg-pink-900/40 text-pink-300 border-pink-700'
+};
+
+const BIAS_STYLES: Record<AIAnalysisResult['bias'], { label: string; className: string }> = {
+  LONG: { label: '看多', className: 'bg-crypto-green/20 text-crypto-green' },
+  SHORT: { label: '看空', className: 'bg-crypto-red/20 text-crypto-red' },
+  NEUTRAL: { label: '中性', className: 'bg-slate-700 text-gray-300' }
+};
+
+const CONFIDENCE_LABELS: Record<AIAnalysisResult['confidence'], string> = {
+  High: '高',
+  Medium: '中',
+  Low: '低'
+};
+
+const SignalCard: React.FC<SignalCardProps> = ({ analysis, config, klines: klinesByInterval, risk, market = 'spot', filters, onPaperTrade, savedAnalysis }) => {
+  const [aiAnalysis, setAiAnalysis] = useState<AIAnalysisResult | null>(savedAnalysis ?? null);
+  const [aiStream, setAiStream] = useState<string | null>(null); // Analysis text while the reply streams in
+  const [aiError, setAiError] = useState<string | null>(null);
+  const aiAbortRef = useRef<AbortController | null>(null);
+  const [showChart, setShowChart] = useState(false);
+  // Timeframe picked in the matrix, the primary setup until the user chooses one
+  const [selected, setSelected] = useState<StrategyInterval | null>(null);
+  const [paperMessage, setPaperMessage] = useState<string | null>(null);
+
+  // An answer about another timeframe is no use, cancel it; also on unmount
+  useEffect(() => () => aiAbortRef.current?.abort(), [selected]);
+
+  const setup = (selected && analysis.setups[selected]) || analysis.primary;
+  if (!setup) return null;
+  const klines = klinesByInterval?.[setup.interval];
+  const rsPercentile = analysis.relativeStrength?.percentile ?? null;
+  const candleTime = klines?.[klines.length - 1]?.openTime;
+  const closeTime = klines?.[klines.length - 1]?.closeTime;
+  const loadingAi = aiStream !== null;
+  const provider = getAIProvider();
+  const position = risk && setup.signal !== SignalType.WAIT ? calculatePositionSize(setup, risk, market, filters) : null;
+  const digits = setup.price < 1 ? 4 : 2;
 
   const handleAskAI = async () => {
-    setLoadingAi(true);
-    const analysis = await getGeminiAnalysis(setup);
-    setAiAnalysis(analysis);
-    setLoadingAi(false);
+    const cached = getCachedAnalysis(setup, candleTime);
+    if (cached) {
+      setAiAnalysis(cached);
+      return;
+    }
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+    setAiError(null);
+    setAiStream('');
+    try {
+      const result = await analyzeSetup(setup, candleTime, { signal: controller.signal, onToken: setAiStream });
+      if (!controller.signal.aborted) setAiAnalysis(result);
+    } catch (error) {
+      if (!(error instanceof AIError && error.reason === 'ABORTED')) setAiError(describeAIError(error));
+    } finally {
+      if (aiAbortRef.current === controller) {
+        aiAbortRef.current = null;
+        setAiStream(null);
+      }
+    }
   };
 
   const getStatusColor = (signal: SignalType) => {
     switch (signal) {
-      case SignalType.LONG: return 'text-crypto-green border-crypto-green';
-      case SignalType.SHORT: return 'text-crypto-red border-crypto-red';
+      case SignalType.LONG:
+      case SignalType.BREAKOUT_LONG: return 'text-crypto-green border-crypto-green';
+      case SignalType.SHORT:
+      case SignalType.BREAKDOWN_SHORT: return 'text-crypto-red border-crypto-red';
       case SignalType.WATCH: return 'text-crypto-yellow border-crypto-yellow';
       default: return 'text-crypto-gray border-crypto-gray';
     }
@@ -31,6 +108,8 @@ const SignalCard: React.FC<SignalCardProps> = ({ setup }) => {
      switch (signal) {
       case SignalType.LONG: return <ArrowTrendingUpIcon className="w-6 h-6 text-crypto-green" />;
       case SignalType.SHORT: return <ArrowTrendingDownIcon className="w-6 h-6 text-crypto-red" />;
+      case SignalType.BREAKOUT_LONG: return <ArrowUpCircleIcon className="w-6 h-6 text-crypto-green" />;
+      case SignalType.BREAKDOWN_SHORT: return <ArrowDownCircleIcon className="w-6 h-6 text-crypto-red" />;
       case SignalType.WATCH: return <EyeIcon className="w-6 h-6 text-crypto-yellow" />;
       default: return <BoltIcon className="w-6 h-6 text-crypto-gray" />;
     }
@@ -44,7 +123,7 @@ const SignalCard: React.FC<SignalCardProps> = ({ setup }) => {
           <h3 className="text-xl font-bold text-white flex items-center gap-2">
             {setup.symbol}
             {/* Timeframe Badge */}
-            <span className={`text-xs font-bold px-2 py-0.5 rounded border ${setup.interval === '4h' ? 'bg-purple-900/40 text-purple-300 border-purple-700' : 'bg-blue-900/40 text-blue-300 border-blue-700'}`}>
+            <span className={`text-xs font-bold px-2 py-0.5 rounded border ${TIMEFRAME_BADGES[setup.interval]}`}>
               {setup.interval.toUpperCase()}
             </span>
             {setup.isDense && <span className="bg-crypto-yellow text-black text-[10px] font-bold px-2 py-0.5 rounded-full uppercase">密集变盘</span>}
@@ -53,19 +132,44 @@ const SignalCard: React.FC<SignalCardProps> = ({ setup }) => {
         </div>
         <div className={`flex flex-col items-end ${getStatusColor(setup.signal).split(' ')[0]}`}>
           {getIcon(setup.signal)}
-          <span className="font-bold text-sm mt-1">{setup.signal.split(' ')[0]}</span>
+          <span className="font-bold text-sm mt-1 flex items-center gap-1">
+            {setup.signalHistory?.current.repainted && (
+              <span className="bg-crypto-red/20 text-crypto-red text-[10px] px-1.5 rounded" title="本K线的盘中信号在收盘前已变化">重绘</span>
+            )}
+            {setup.signal.split(' ')[0]}
+          </span>
+          {closeTime !== undefined && <CandleCountdown closeTime={closeTime} />}
+          {rsPercentile !== null && (
+            <span
+              className={`text-[10px] font-bold mt-1 px-1.5 rounded ${rsPercentile >= 70 ? 'bg-crypto-green/20 text-crypto-green' : rsPercentile <= 30 ? 'bg-crypto-red/20 text-crypto-red' : 'bg-slate-700 text-gray-300'}`}
+              title={`相对强度百分位 ${rsPercentile}`}
+            >
+              {describeRelativeStrength(rsPercentile)}
+            </span>
+          )}
         </div>
       </div>
 
+      <TimeframeMatrix
+        analysis={analysis}
+        timeframes={config.timeframes}
+        selected={setup.interval}
+        onSelect={interval => {
+          setSelected(interval);
+          setAiAnalysis(null);
+          setAiError(null);
+        }}
+      />
+
       {/* MA Density Visualizer */}
       <div className="mb-4 bg-slate-800/80 rounded-lg p-3">
         <div className="flex justify-between items-center mb-2">
-          <span className="text-xs text-gray-400">均线系统 (MA/EMA 20,60,120)</span>
+          <span className="text-xs text-gray-400">均线系统 (MA/EMA {setup.maPeriods.short},{setup.maPeriods.mid},{setup.maPeriods.long})</span>
           <div className="flex gap-2">
-            <span className={`text-xs font-mono px-2 rounded ${setup.priceDeviation > 3 ? 'bg-red-900/40 text-red-400 border border-red-800' : 'bg-slate-700 text-gray-400'}`} title="价格距离均线中心的偏离度">
+            <span className={`text-xs font-mono px-2 rounded ${setup.priceDeviation > config.priceDeviationThreshold ? 'bg-red-900/40 text-red-400 border border-red-800' : 'bg-slate-700 text-gray-400'}`} title="价格距离均线中心的偏离度">
                偏离: {setup.priceDeviation.toFixed(2)}%
             </span>
-            <span className={`text-xs font-mono px-2 rounded ${setup.densityScore < 2 ? 'bg-crypto-yellow/20 text-crypto-yellow' : 'bg-slate-700 text-gray-400'}`} title="6根均线之间的最大差距">
+            <span className={`text-xs font-mono px-2 rounded ${setup.densityScore < config.denseThreshold ? 'bg-crypto-yellow/20 text-crypto-yellow' : 'bg-slate-700 text-gray-400'}`} title="6根均线之间的最大差距">
                密集: {setup.densityScore.toFixed(2)}%
             </span>
           </div>
@@ -73,23 +177,64 @@ const SignalCard: React.FC<SignalCardProps> = ({ setup }) => {
         
         <div className="grid grid-cols-3 gap-2 text-[10px] font-mono">
            <div className="flex flex-col gap-1">
-             <span className="text-gray-500">20周期 (短)</span>
+             <span className="text-gray-500">{setup.maPeriods.short}周期 (短)</span>
              <div className="flex justify-between"><span className="text-gray-400">MA</span> <span className="text-white">{setup.mas.ma20.toFixed(setup.price<1?4:2)}</span></div>
              <div className="flex justify-between"><span className="text-gray-400">EMA</span> <span className="text-white">{setup.mas.ema20.toFixed(setup.price<1?4:2)}</span></div>
            </div>
            <div className="flex flex-col gap-1 border-l border-slate-600 pl-2">
-             <span className="text-gray-500">60周期 (中)</span>
+             <span className="text-gray-500">{setup.maPeriods.mid}周期 (中)</span>
              <div className="flex justify-between"><span className="text-gray-400">MA</span> <span className="text-white">{setup.mas.ma60.toFixed(setup.price<1?4:2)}</span></div>
              <div className="flex justify-between"><span className="text-gray-400">EMA</span> <span className="text-white">{setup.mas.ema60.toFixed(setup.price<1?4:2)}</span></div>
            </div>
            <div className="flex flex-col gap-1 border-l border-slate-600 pl-2">
-             <span className="text-gray-500">120周期 (长)</span>
+             <span className="text-gray-500">{setup.maPeriods.long}周期 (长)</span>
              <div className="flex justify-between"><span className="text-gray-400">MA</span> <span className="text-white">{setup.mas.ma120.toFixed(setup.price<1?4:2)}</span></div>
              <div className="flex justify-between"><span className="text-gray-400">EMA</span> <span className="text-white">{setup.mas.ema120.toFixed(setup.price<1?4:2)}</span></div>
            </div>
         </div>
       </div>
 
+      {setup.signalHistory && <SignalHistoryPanel history={setup.signalHistory} />}
+      {analysis.relativeStrength && <RelativeStrengthPanel rs={analysis.relativeStrength} />}
+
+      {setup.futures && (
+        <FuturesContextPanel symbol={setup.symbol} context={setup.futures} crowding={setup.crowding ?? []} />
+      )}
+
+      {/* Chart */}
+      {klines && klines.length > 0 && (
+        <div className="mb-4">
+          <div className="flex gap-1">
+            <button
+              onClick={() => setShowChart(v => !v)}
+              className="flex-1 text-xs text-gray-400 hover:text-white flex items-center justify-center gap-1 py-1 rounded bg-slate-800/60"
+            >
+              <ChartBarIcon className="w-3.5 h-3.5" />
+              {showChart ? '收起K线图' : `展开 ${setup.interval.toUpperCase()} K线图`}
+            </button>
+            <button
+              onClick={() => downloadFile(exportFileName(`${setup.symbol}-${setup.interval}`, 'csv'), klinesToCSV(klines), 'text/csv;charset=utf-8')}
+              className="text-[10px] text-gray-500 hover:text-white px-2 rounded bg-slate-800/60"
+              title="导出K线 CSV"
+            >
+              CSV
+            </button>
+            <button
+              onClick={() => downloadFile(exportFileName(`${setup.symbol}-${setup.interval}`, 'json'), klinesToFixture(setup.symbol, setup.interval, klines), 'application/json')}
+              className="text-[10px] text-gray-500 hover:text-white px-2 rounded bg-slate-800/60"
+              title="导出K线为回放数据 (fixture JSON)"
+            >
+              JSON
+            </button>
+          </div>
+          {showChart && (
+            <div className="mt-2 rounded-lg overflow-hidden bg-slate-900/60">
+              <PriceChart klines={klines} setup={setup} />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Trade Plan */}
       <div className="mb-4 space-y-2 text-sm border-t border-slate-700 pt-3">
          <div className="flex justify-between">
@@ -100,6 +245,34 @@ const SignalCard: React.FC<SignalCardProps> = ({ setup }) => {
             <span className="text-crypto-gray">止损 (SL):</span>
             <span className="text-crypto-red font-mono">${setup.stopLoss.toFixed(setup.price < 1 ? 4 : 2)}</span>
          </div>
+         <TradePlanList plans={setup.plans} digits={digits} />
+         {position && (
+           <div className="bg-slate-800/60 rounded-lg p-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs font-mono">
+             <div className="flex justify-between"><span className="text-gray-500 font-sans">数量</span><span className="text-white">{position.quantity}</span></div>
+             <div className="flex justify-between"><span className="text-gray-500 font-sans">名义价值</span><span className="text-white">{position.notional.toFixed(2)}</span></div>
+             <div className="flex justify-between"><span className="text-gray-500 font-sans">保证金</span><span className="text-white">{position.margin.toFixed(2)}{position.leverage > 1 && <span className="text-gray-500"> ({position.leverage}x)</span>}</span></div>
+             <div className="flex justify-between"><span className="text-gray-500 font-sans">盈亏比</span><span className="text-white">{position.rMultiple.toFixed(2)}R</span></div>
+             <div className="flex justify-between"><span className="text-gray-500 font-sans">止损亏损</span><span className="text-crypto-red">-{position.expectedLoss.toFixed(2)}</span></div>
+             <div className="flex justify-between"><span className="text-gray-500 font-sans">止盈收益</span><span className="text-crypto-green">+{position.expectedGain.toFixed(2)}</span></div>
+             {position.liquidationPrice !== null && (
+               <div className="flex justify-between col-span-2"><span className="text-gray-500 font-sans">预估强平价</span><span className="text-crypto-yellow">${position.liquidationPrice.toFixed(digits)}</span></div>
+             )}
+             {position.warnings.map(warning => (
+               <div key={warning} className="col-span-2 text-crypto-yellow font-sans">⚠ {warning}</div>
+             ))}
+             {onPaperTrade && (
+               <div className="col-span-2 flex items-center gap-2 font-sans mt-1">
+                 <button
+                   onClick={() => setPaperMessage(onPaperTrade(setup) ?? '已模拟开仓')}
+                   className="px-2 py-1 rounded bg-slate-700 text-gray-200 hover:text-white"
+                 >
+                   模拟开仓
+                 </button>
+                 {paperMessage && <span className="text-gray-400">{paperMessage}</span>}
+               </div>
+             )}
+           </div>
+         )}
          <div className="text-xs text-crypto-gray mt-2 italic bg-slate-900/50 p-2 rounded border-l-2 border-crypto-gray">
             "{setup.reason}"
          </div>
@@ -108,32 +281,65 @@ const SignalCard: React.FC<SignalCardProps> = ({ setup }) => {
       {/* AI Section */}
       <div className="mt-4 pt-3 border-t border-slate-700">
         {!aiAnalysis ? (
-          <button 
-            onClick={handleAskAI}
-            disabled={loadingAi}
-            className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50 text-sm font-medium"
-          >
-            {loadingAi ? (
-              <>
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                AI 正在解析形态...
-              </>
-            ) : (
-              <>
-                <SparklesIcon className="w-4 h-4" />
-                Gemini 深度分析
-              </>
-            )}
-          </button>
+          <>
+            {loadingAi && aiStream ? (
+              <div className="bg-slate-800/50 p-3 rounded-lg border border-indigo-500/30 mb-2">
+                <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-line">
+                  {aiStream}<span className="inline-block w-1.5 h-3.5 ml-0.5 bg-indigo-400 animate-pulse align-middle"></span>
+                </p>
+              </div>
+            ) : null}
+            <button
+              onClick={handleAskAI}
+              disabled={loadingAi}
+              className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              {loadingAi ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  AI 正在解析形态...
+                </>
+              ) : (
+                <>
+                  <SparklesIcon className="w-4 h-4" />
+                  {provider.label} 深度分析
+                </>
+              )}
+            </button>
+            {aiError && <p className="text-xs text-crypto-red mt-2">{aiError}</p>}
+          </>
         ) : (
           <div className="bg-slate-800/50 p-3 rounded-lg border border-indigo-500/30">
             <div className="flex items-center gap-2 text-indigo-400 mb-2">
               <SparklesIcon className="w-4 h-4" />
-              <span className="font-bold text-xs uppercase">Gemini 策略建议</span>
+              <span className="font-bold text-xs uppercase">AI 策略建议</span>
+              <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${BIAS_STYLES[aiAnalysis.bias].className}`}>
+                {BIAS_STYLES[aiAnalysis.bias].label}
+              </span>
+              <span className="text-[10px] text-gray-400">置信度 {CONFIDENCE_LABELS[aiAnalysis.confidence]}</span>
+              <span className="ml-auto text-[10px] text-gray-500 font-mono" title={new Date(aiAnalysis.createdAt).toLocaleString()}>{aiAnalysis.model}</span>
             </div>
             <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-line">
-              {aiAnalysis}
+              {aiAnalysis.analysis}
             </p>
+            {aiAnalysis.keyLevels.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {aiAnalysis.keyLevels.map(level => (
+                  <span
+                    key={`${level.kind}-${level.price}`}
+                    title={level.note}
+                    className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${level.kind === 'support' ? 'border-crypto-green/40 text-crypto-green' : 'border-crypto-red/40 text-crypto-red'}`}
+                  >
+                    {level.kind === 'support' ? '支撑' : '阻力'} ${level.price.toFixed(digits)}
+                  </span>
+                ))}
+              </div>
+            )}
+            {aiAnalysis.risks.length > 0 && (
+              <ul className="mt-2 space-y-0.5 text-xs text-crypto-yellow">
+                {aiAnalysis.risks.map(risk => <li key={risk}>⚠ {risk}</li>)}
+              </ul>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,47 @@
+import React from 'react';
+import { BarSignals, SignalHistory, SignalType } from '../types';
+
+interface SignalHistoryPanelProps {
+  history: SignalHistory;
+}
+
+const toneOf = (signal: SignalType | null) => {
+  switch (signal) {
+    case SignalType.LONG:
+    case SignalType.BREAKOUT_LONG: return 'text-crypto-green';
+    case SignalType.SHORT:
+    case SignalType.BREAKDOWN_SHORT: return 'text-crypto-red';
+    case SignalType.WATCH: return 'text-crypto-yellow';
+    default: return 'text-gray-500';
+  }
+};
+
+const Point: React.FC<{ label: string; signal: SignalType | null }> = ({ label, signal }) => (
+  <div className="flex flex-col">
+    <span className="text-gray-500 font-sans">{label}</span>
+    <span className={toneOf(signal)}>{signal ? signal.split(' ')[0] : '-'}</span>
+  </div>
+);
+
+const BarRow: React.FC<{ label: string; bar: BarSignals }> = ({ label, bar }) => (
+  <div className="grid grid-cols-4 gap-2 font-mono items-end">
+    <span className="text-gray-400 font-sans">
+      {label}
+      {bar.repainted && <span className="ml-1 text-crypto-red">重绘</span>}
+    </span>
+    <Point label="开盘" signal={bar.atOpen} />
+    <Point label="盘中" signal={bar.midBar} />
+    <Point label="收盘" signal={bar.atClose} />
+  </div>
+);
+
+// The signal at the open, halfway and the close of the forming and the previous candle.
+// '-' marks a point that was not observed, e.g. the page was opened mid-candle.
+const SignalHistoryPanel: React.FC<SignalHistoryPanelProps> = ({ history }) => (
+  <div className="mb-4 bg-slate-800/60 rounded-lg p-3 text-xs flex flex-col gap-2">
+    <BarRow label="当前K线" bar={history.current} />
+    {history.previous && <BarRow label="上一根" bar={history.previous} />}
+  </div>
+);
+
+export default SignalHistoryPanel;
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { StrategyConfig, MAPeriods } from '../types';
+import { DEFAULT_STRATEGY_CONFIG, TIMEFRAMES, sortTimeframes } from '../services/strategyService';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface StrategySettingsProps {
+  config: StrategyConfig;
+  onApply: (config: StrategyConfig) => void;
+  onClose: () => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  step?: number;
+  min?: number;
+  max?: number;
+  hint?: string;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, step = 1, min, max, hint, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs text-gray-400">
+    <span>{label}</span>
+    <input
+      type="number"
+      value={Number.isFinite(value) ? value : ''}
+      step={step}
+      min={min}
+      max={max}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-white focus:outline-none focus:border-indigo-500"
+    />
+    {hint && <span className="text-[10px] text-gray-600">{hint}</span>}
+  </label>
+);
+
+interface ToggleFieldProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const ToggleField: React.FC<ToggleFieldProps> = ({ label, checked, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="accent-indigo-500" />
+    {label}
+  </label>
+);
+
+// Reject edits that would make the strategy meaningless before they reach the scanner
+const validate = (config: StrategyConfig): string | null => {
+  const { short, mid, long } = config.maPeriods;
+  const numbers = [
+    short, mid, long, config.denseThreshold, config.priceDeviationThreshold,
+    config.atrPeriod, config.atrMultiplier, config.rewardRatio, config.swingLookback, config.trailAtrMultiple,
+    config.minConsolidationBars, config.breakoutVolumeFactor
+  ];
+  if (config.timeframes.length === 0) return '至少选择一个周期';
+  if (config.takeProfitLadder.length === 0) return '分批止盈至少需要一个目标';
+  if (numbers.some(n => !Number.isFinite(n) || n <= 0)) return '所有数值必须为正数';
+  if (!(short < mid && mid < long)) return '均线周期需满足 短 < 中 < 长';
+  // Candles are fetched 300 at a time and the strategy needs `long + 30` of them
+  if (long > 270) return '长周期不能超过 270';
+  return null;
+};
+
+// "1, 2, 3" <-> [1, 2, 3], anything that is not a positive number is dropped
+const parseLadder = (text: string): number[] =>
+  text.split(/[,，\s]+/).map(parseFloat).filter(r => r > 0).sort((a, b) => a - b);
+
+const StrategySettings: React.FC<StrategySettingsProps> = ({ config, onApply, onClose }) => {
+  const [draft, setDraft] = useState<StrategyConfig>(config);
+  // Edited as text so a half-typed list is not reformatted under the cursor
+  const [ladderText, setLadderText] = useState(config.takeProfitLadder.join(', '));
+
+  useEffect(() => {
+    setDraft(config);
+    setLadderText(config.takeProfitLadder.join(', '));
+  }, [config]);
+
+  const error = validate(draft);
+
+  const update = <K extends keyof StrategyConfig>(key: K, value: StrategyConfig[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const updatePeriod = (key: keyof MAPeriods, value: number) =>
+    setDraft(prev => ({ ...prev, maPeriods: { ...prev.maPeriods, [key]: Math.round(value) } }));
+
+  const toggleTimeframe = (tf: StrategyConfig['timeframes'][number]) =>
+    setDraft(prev => ({
+      ...prev,
+      timeframes: prev.timeframes.includes(tf)
+        ? prev.timeframes.filter(t => t !== tf)
+        : sortTimeframes([...prev.timeframes, tf])
+    }));
+
+  return (
+    <div className="bg-crypto-card border border-slate-700 rounded-xl p-5 mb-8 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-white">策略参数</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="关闭">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+        <span className="text-gray-400 mr-1">扫描周期</span>
+        {TIMEFRAMES.map(tf => (
+          <button
+            key={tf}
+            onClick={() => toggleTimeframe(tf)}
+            className={`px-2.5 py-1 rounded font-mono transition-all ${draft.timeframes.includes(tf) ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+          >
+            {tf.toUpperCase()}
+          </button>
+        ))}
+        <span className="text-[10px] text-gray-600">增减周期会重新加载历史数据</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 mb-4">
+        <NumberField label="短周期" value={draft.maPeriods.short} min={2} onChange={v => updatePeriod('short', v)} />
+        <NumberField label="中周期" value={draft.maPeriods.mid} min={2} onChange={v => updatePeriod('mid', v)} />
+        <NumberField label="长周期" value={draft.maPeriods.long} min={2} max={270} onChange={v => updatePeriod('long', v)} />
+        <NumberField label="密集阈值 (%)" value={draft.denseThreshold} step={0.1} onChange={v => update('denseThreshold', v)} hint="6线最大宽度" />
+        <NumberField label="偏离阈值 (%)" value={draft.priceDeviationThreshold} step={0.1} onChange={v => update('priceDeviationThreshold', v)} hint="价格距均线中心" />
+        <NumberField label="ATR 周期" value={draft.atrPeriod} min={1} onChange={v => update('atrPeriod', Math.round(v))} />
+        <NumberField label="止损 ATR 倍数" value={draft.atrMultiplier} step={0.1} onChange={v => update('atrMultiplier', v)} />
+        <NumberField label="盈亏比 (R)" value={draft.rewardRatio} step={0.1} onChange={v => update('rewardRatio', v)} />
+        <NumberField label="结构止损回看" value={draft.swingLookback} min={2} onChange={v => update('swingLookback', Math.round(v))} hint="前高/前低的K线数" />
+        <NumberField label="移动止损 ATR 倍数" value={draft.trailAtrMultiple} step={0.5} onChange={v => update('trailAtrMultiple', v)} />
+        <NumberField label="突破前最少密集K线" value={draft.minConsolidationBars} min={1} onChange={v => update('minConsolidationBars', Math.round(v))} />
+        <NumberField label="突破放量倍数" value={draft.breakoutVolumeFactor} step={0.1} onChange={v => update('breakoutVolumeFactor', v)} hint="相对20根均量" />
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          <span>分批止盈 (R)</span>
+          <input
+            value={ladderText}
+            onChange={e => {
+              setLadderText(e.target.value);
+              update('takeProfitLadder', parseLadder(e.target.value));
+            }}
+            placeholder="1, 2, 3"
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 font-mono text-white focus:outline-none focus:border-indigo-500"
+          />
+          <span className="text-[10px] text-gray-600">等量分批平仓</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4">
+        <ToggleField label="要求均线多/空头排列" checked={draft.requireAlignment} onChange={v => update('requireAlignment', v)} />
+        <ToggleField label="排列同时检查 EMA" checked={draft.includeEmaInAlignment} onChange={v => update('includeEmaInAlignment', v)} />
+        <ToggleField label="价格需突破全部均线" checked={draft.requirePriceBeyondBand} onChange={v => update('requirePriceBeyondBand', v)} />
+        <ToggleField label="ATR 使用 Wilder 平滑" checked={draft.atrSmoothing === 'wilder'} onChange={v => update('atrSmoothing', v ? 'wilder' : 'simple')} />
+        <ToggleField label="止损参考前高/前低" checked={draft.stopMode === 'structure'} onChange={v => update('stopMode', v ? 'structure' : 'atr')} />
+        <ToggleField label="盘中信号（未收盘K线，可能重绘）" checked={draft.evaluationMode === 'intrabar'} onChange={v => update('evaluationMode', v ? 'intrabar' : 'closed')} />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-crypto-red">{error}</span>
+        <div className="flex gap-2 text-sm">
+          <button
+            onClick={() => {
+              setDraft(DEFAULT_STRATEGY_CONFIG);
+              setLadderText(DEFAULT_STRATEGY_CONFIG.takeProfitLadder.join(', '));
+            }}
+            className="px-3 py-1.5 rounded-md bg-slate-700 text-gray-300 hover:text-white"
+          >
+            恢复默认
+          </button>
+          <button
+            onClick={() => onApply(draft)}
+            disabled={!!error}
+            className="px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+          >
+            应用并重新评分
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StrategySettings;
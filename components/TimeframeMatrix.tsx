@@ -0,0 +1,64 @@
+import React from 'react';
+import { SignalType } from '../types';
+import { MultiTimeframeSetup, StrategyInterval } from '../services/strategyService';
+
+interface TimeframeMatrixProps {
+  analysis: MultiTimeframeSetup;
+  timeframes: StrategyInterval[]; // Configured frames, lowest to highest
+  selected: StrategyInterval | null;
+  onSelect: (interval: StrategyInterval) => void;
+}
+
+const SIGNAL_CELLS: Record<SignalType, { label: string; className: string }> = {
+  [SignalType.LONG]: { label: '多', className: 'bg-crypto-green/20 text-crypto-green border-crypto-green/40' },
+  [SignalType.SHORT]: { label: '空', className: 'bg-crypto-red/20 text-crypto-red border-crypto-red/40' },
+  [SignalType.BREAKOUT_LONG]: { label: '突破', className: 'bg-crypto-green text-black border-crypto-green' },
+  [SignalType.BREAKDOWN_SHORT]: { label: '跌破', className: 'bg-crypto-red text-white border-crypto-red' },
+  [SignalType.WATCH]: { label: '密集', className: 'bg-crypto-yellow/20 text-crypto-yellow border-crypto-yellow/40' },
+  [SignalType.WAIT]: { label: '观望', className: 'bg-slate-800 text-gray-400 border-slate-700' }
+};
+
+const TimeframeMatrix: React.FC<TimeframeMatrixProps> = ({ analysis, timeframes, selected, onSelect }) => {
+  const { confluence } = analysis;
+  const scoreColor = confluence.score > 0 ? 'text-crypto-green' : confluence.score < 0 ? 'text-crypto-red' : 'text-gray-400';
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between items-center mb-1.5 text-[10px] text-gray-500">
+        <span>多周期信号</span>
+        <span title="各周期趋势按周期加权投票，-100 全部做空，100 全部做多">
+          共振 <span className={`font-mono font-bold ${scoreColor}`}>{confluence.score > 0 ? '+' : ''}{confluence.score}</span>
+        </span>
+      </div>
+      <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${timeframes.length}, minmax(0, 1fr))` }}>
+        {timeframes.map(tf => {
+          const setup = analysis.setups[tf];
+          const cell = setup ? SIGNAL_CELLS[setup.signal] : null;
+          return (
+            <button
+              key={tf}
+              onClick={() => setup && onSelect(tf)}
+              disabled={!setup}
+              className={`flex flex-col items-center py-1 rounded border text-[10px] transition-all
+                ${cell ? cell.className : 'bg-slate-900/60 text-gray-600 border-slate-800'}
+                ${selected === tf ? 'ring-1 ring-white/60' : ''}`}
+              title={setup ? setup.reason : 'K线数量不足，无法计算'}
+            >
+              <span className="font-mono opacity-70">{tf.toUpperCase()}</span>
+              <span className="font-bold">{cell ? cell.label : '—'}</span>
+            </button>
+          );
+        })}
+      </div>
+      {confluence.watchInTrend.length > 0 && confluence.bias && (
+        <p className="mt-1.5 text-[10px] text-crypto-yellow">
+          {confluence.watchInTrend.map(tf => tf.toUpperCase()).join('/')} 密集处于
+          {' '}{confluence.aligned[confluence.aligned.length - 1].toUpperCase()}{' '}
+          {confluence.bias === SignalType.LONG ? '上升' : '下降'}趋势中
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TimeframeMatrix;
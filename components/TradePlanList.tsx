@@ -0,0 +1,65 @@
+import React from 'react';
+import { TradePlan } from '../types';
+
+interface TradePlanListProps {
+  plans: TradePlan[];
+  digits: number;
+}
+
+const PLAN_LABELS: Record<TradePlan['kind'], string> = {
+  TREND: '顺势',
+  BREAKOUT: '向上突破',
+  BREAKDOWN: '向下跌破'
+};
+
+const TradePlanList: React.FC<TradePlanListProps> = ({ plans, digits }) => {
+  if (plans.length === 0) return null;
+  const fmt = (value: number) => value.toFixed(digits);
+
+  return (
+    <div className="space-y-2">
+      {plans.map(plan => {
+        const isLong = plan.direction === 'LONG';
+        return (
+          <div key={plan.kind} className={`rounded-lg p-2 text-xs bg-slate-800/60 border-l-2 ${isLong ? 'border-crypto-green' : 'border-crypto-red'}`}>
+            <div className="flex justify-between items-center mb-1">
+              <span className={`font-semibold ${isLong ? 'text-crypto-green' : 'text-crypto-red'}`}>
+                {PLAN_LABELS[plan.kind]}{isLong ? '做多' : '做空'}
+              </span>
+              <span className="font-mono text-gray-400">
+                {plan.trigger !== null ? `收盘${isLong ? '站上' : '跌破'} ${fmt(plan.trigger)}` : `现价 ${fmt(plan.entryPrice)}`}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 font-mono">
+              <div className="flex justify-between">
+                <span className="text-gray-500 font-sans">止损</span>
+                <span className="text-crypto-red">{fmt(plan.stopLoss)}</span>
+              </div>
+              <div className="flex justify-between" title="价格回到均线带另一侧 ± ATR 缓冲">
+                <span className="text-gray-500 font-sans">ATR 止损</span>
+                <span className="text-gray-400">{fmt(plan.atrStop)}</span>
+              </div>
+              <div className="flex justify-between" title="最近摆动高/低点外侧">
+                <span className="text-gray-500 font-sans">结构止损</span>
+                <span className="text-gray-400">{plan.structureStop !== null ? fmt(plan.structureStop) : '-'}</span>
+              </div>
+              <div className="flex justify-between" title="第一个目标成交后启用">
+                <span className="text-gray-500 font-sans">移动止损</span>
+                <span className="text-gray-400">±{fmt(plan.trailingDistance)}</span>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-1 mt-1.5 font-mono">
+              {plan.targets.map(target => (
+                <span key={target.rMultiple} className="bg-crypto-green/10 text-crypto-green rounded px-1.5 py-0.5" title={`平仓 ${target.sizePct.toFixed(0)}%`}>
+                  {target.rMultiple}R {fmt(target.price)}
+                </span>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TradePlanList;
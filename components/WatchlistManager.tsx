@@ -0,0 +1,198 @@
+import React, { useRef, useState } from 'react';
+import { SymbolInfo } from '../types';
+import {
+  WatchlistState, getActiveList, createList, renameList, deleteList,
+  addSymbol, removeSymbol, moveSymbol, setSymbolGroup,
+  getSymbolValidity, searchSymbols, exportWatchlists, importWatchlists
+} from '../services/watchlistService';
+import { downloadFile } from '../services/exportService';
+import {
+  XMarkIcon, PlusIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon,
+  ArrowDownTrayIcon, ArrowUpTrayIcon, MagnifyingGlassIcon
+} from '@heroicons/react/24/outline';
+
+interface WatchlistManagerProps {
+  state: WatchlistState;
+  exchangeInfo: Record<string, SymbolInfo>;
+  onChange: (state: WatchlistState) => void;
+  onClose: () => void;
+}
+
+const VALIDITY_BADGES = {
+  TRADING: null,
+  NOT_TRADING: { label: '暂停交易', className: 'bg-red-900/40 text-red-400 border-red-800' },
+  UNKNOWN_SYMBOL: { label: '不存在/已下架', className: 'bg-red-900/40 text-red-400 border-red-800' }
+};
+
+const WatchlistManager: React.FC<WatchlistManagerProps> = ({ state, exchangeInfo, onChange, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [newListName, setNewListName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = getActiveList(state);
+  const infoLoaded = Object.keys(exchangeInfo).length > 0;
+  const results = searchSymbols(query, exchangeInfo);
+
+  const handleAdd = (symbol: string) => {
+    onChange(addSymbol(state, active.id, symbol));
+    setQuery('');
+  };
+
+  const handleExport = () => downloadFile('watchlists.json', exportWatchlists(state), 'application/json');
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange(importWatchlists(state, await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : '导入失败');
+    }
+  };
+
+  return (
+    <div className="bg-crypto-card border border-slate-700 rounded-xl p-5 mb-8 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-white">自选列表</h3>
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="text-gray-400 hover:text-white" title="导入 JSON">
+            <ArrowUpTrayIcon className="w-5 h-5" />
+          </button>
+          <button onClick={handleExport} className="text-gray-400 hover:text-white" title="导出 JSON">
+            <ArrowDownTrayIcon className="w-5 h-5" />
+          </button>
+          <button onClick={onClose} className="text-gray-500 hover:text-white" title="关闭">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+      {importError && <p className="text-xs text-crypto-red mb-3">{importError}</p>}
+
+      {/* List tabs */}
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+        {state.lists.map(list => (
+          <button
+            key={list.id}
+            onClick={() => onChange({ ...state, activeId: list.id })}
+            className={`px-3 py-1.5 rounded-md transition-all ${list.id === active.id ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-gray-400 hover:text-white'}`}
+          >
+            {list.name} <span className="opacity-60">({list.entries.length})</span>
+          </button>
+        ))}
+        <form
+          className="flex items-center gap-1"
+          onSubmit={e => {
+            e.preventDefault();
+            onChange(createList(state, newListName));
+            setNewListName('');
+          }}
+        >
+          <input
+            value={newListName}
+            onChange={e => setNewListName(e.target.value)}
+            placeholder="新列表名称"
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 w-28 text-white focus:outline-none focus:border-indigo-500"
+          />
+          <button type="submit" className="p-1 rounded bg-slate-800 text-gray-400 hover:text-white" title="新建列表">
+            <PlusIcon className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+
+      {/* Active list header */}
+      <div className="flex items-center gap-2 mb-4">
+        <input
+          key={`${active.id}:${active.name}`}
+          defaultValue={active.name}
+          onBlur={e => onChange(renameList(state, active.id, e.target.value))}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-indigo-500"
+          title="重命名列表"
+        />
+        <button
+          onClick={() => onChange(deleteList(state, active.id))}
+          disabled={state.lists.length <= 1}
+          className="p-1.5 rounded bg-slate-800 text-gray-400 hover:text-crypto-red disabled:opacity-30"
+          title="删除列表"
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="relative mb-4">
+        <MagnifyingGlassIcon className="w-4 h-4 text-gray-500 absolute left-2 top-2" />
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && results[0]) handleAdd(results[0].symbol);
+          }}
+          placeholder={infoLoaded ? '搜索交易对，如 SOL 或 ARBUSDT' : '正在加载交易所币种列表...'}
+          disabled={!infoLoaded}
+          className="w-full bg-slate-900 border border-slate-700 rounded pl-8 pr-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+        />
+        {results.length > 0 && (
+          <div className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto bg-slate-900 border border-slate-700 rounded shadow-lg">
+            {results.map(info => {
+              const added = active.entries.some(e => e.symbol === info.symbol);
+              return (
+                <button
+                  key={info.symbol}
+                  onClick={() => handleAdd(info.symbol)}
+                  disabled={added}
+                  className="w-full flex justify-between px-3 py-1.5 text-sm text-left hover:bg-slate-800 disabled:opacity-40"
+                >
+                  <span className="font-mono text-white">{info.symbol}</span>
+                  <span className="text-xs text-gray-500">{added ? '已添加' : `${info.baseAsset}/${info.quoteAsset}`}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Entries */}
+      <div className="space-y-1 max-h-80 overflow-y-auto">
+        {active.entries.length === 0 && <p className="text-xs text-gray-500">列表为空，通过上方搜索添加交易对。</p>}
+        {active.entries.map((entry, idx) => {
+          const validity = infoLoaded ? getSymbolValidity(entry.symbol, exchangeInfo) : 'TRADING';
+          const badge = VALIDITY_BADGES[validity];
+          const showGroupHeader = idx === 0 || active.entries[idx - 1].group !== entry.group;
+          return (
+            <React.Fragment key={entry.symbol}>
+              {showGroupHeader && entry.group && (
+                <div className="text-[10px] uppercase tracking-wide text-gray-500 pt-2">{entry.group}</div>
+              )}
+              <div className="flex items-center gap-2 bg-slate-800/60 rounded px-2 py-1 text-sm">
+                <span className="font-mono text-white w-28">{entry.symbol}</span>
+                {badge && <span className={`text-[10px] px-1.5 rounded border ${badge.className}`}>{badge.label}</span>}
+                <input
+                  key={entry.group ?? ''}
+                  defaultValue={entry.group ?? ''}
+                  onBlur={e => onChange(setSymbolGroup(state, active.id, entry.symbol, e.target.value))}
+                  placeholder="分组"
+                  className="ml-auto bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 w-20 text-xs text-gray-300 focus:outline-none focus:border-indigo-500"
+                />
+                <button onClick={() => onChange(moveSymbol(state, active.id, entry.symbol, -1))} disabled={idx === 0} className="text-gray-500 hover:text-white disabled:opacity-30" title="上移">
+                  <ChevronUpIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onChange(moveSymbol(state, active.id, entry.symbol, 1))} disabled={idx === active.entries.length - 1} className="text-gray-500 hover:text-white disabled:opacity-30" title="下移">
+                  <ChevronDownIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onChange(removeSymbol(state, active.id, entry.symbol))} className="text-gray-500 hover:text-crypto-red" title="移除">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistManager;
@@ -0,0 +1,107 @@
+// Minimal OpenAI-compatible chat completions server for trying the AI analysis
+// without an API key or a local model. Streams a canned structured reply as
+// server-sent events, a few characters per event, like a real model would.
+// Answers both the per-setup analysis and the market briefing. Also takes the
+// app's webhook alerts on /alerts and prints them.
+//
+//   npm run ai-stub              # listens on http://localhost:8787/v1
+//   PORT=9000 npm run ai-stub
+//   STUB_STATUS=429 npm run ai-stub   # answer every request with that status
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const STATUS = Number(process.env.STUB_STATUS) || 200;
+const CHUNK_SIZE = 6;
+const DELAY_MS = 20;
+
+// Take the current price from the prompt so the key levels look plausible
+const cannedAnalysis = (prompt) => {
+  const price = Number(/当前价格:\s*([\d.]+)/.exec(prompt)?.[1]) || 100;
+  const symbol = /交易对:\s*(\S+)/.exec(prompt)?.[1] ?? 'UNKNOWN';
+  return JSON.stringify({
+    analysis: `[stub] ${symbol} 六线收敛，价格贴近均线中枢，等待放量突破确认后再跟随，不宜提前埋伏。`,
+    bias: 'NEUTRAL',
+    confidence: 'Medium',
+    keyLevels: [
+      { price: +(price * 0.97).toFixed(4), kind: 'support', note: '密集区下沿' },
+      { price: +(price * 1.03).toFixed(4), kind: 'resistance', note: '密集区上沿' }
+    ],
+    risks: ['假突破后快速回落', 'ATR 扩张时止损容易被扫']
+  });
+};
+
+// Picks the first candidate rows of the briefing prompt
+const cannedBriefing = (prompt) => {
+  const rows = prompt.split('\n').filter(line => /^[A-Z0-9]+ \w+ [A-Z_]+ 密集/.test(line)).slice(0, 3);
+  return JSON.stringify({
+    summary: `[stub] 共 ${rows.length} 个候选形态，整体跟随 BTC 震荡，等待方向选择。`,
+    regime: 'RANGE',
+    regimeNote: 'BTC 均线走平，多空信号数量接近',
+    shortlist: rows.map((row, i) => {
+      const [symbol, interval, signal] = row.split(' ');
+      return { rank: i + 1, symbol, interval, direction: signal === 'SHORT' || signal === 'BREAKDOWN_SHORT' ? 'SHORT' : signal === 'WATCH' ? 'WATCH' : 'LONG', rationale: `${signal} 信号` };
+    }),
+    correlationWarnings: ['多数山寨币与 BTC 同向，分散持仓并不能降低风险']
+  });
+};
+
+// The schema in the request tells which of the app's prompts this is
+const cannedReply = (request, prompt) =>
+  request.response_format?.json_schema?.schema?.properties?.summary ? cannedBriefing(prompt) : cannedAnalysis(prompt);
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method === 'POST' && req.url === '/alerts') {
+    console.log(`alert: ${await readBody(req)}`);
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: 'Not found' } }));
+    return;
+  }
+
+  let request;
+  try {
+    request = JSON.parse(await readBody(req) || '{}');
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: 'Body is not JSON' } }));
+    return;
+  }
+  if (STATUS !== 200) {
+    res.writeHead(STATUS, { 'Content-Type': 'application/json' })
+      .end(JSON.stringify({ error: { message: `stub configured to fail with ${STATUS}` } }));
+    return;
+  }
+
+  const prompt = request.messages?.map(m => m.content).join('\n') ?? '';
+  const reply = cannedReply(request, prompt);
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  let aborted = false;
+  req.on('close', () => { aborted = true; });
+  for (let i = 0; i < reply.length && !aborted; i += CHUNK_SIZE) {
+    const event = { choices: [{ index: 0, delta: { content: reply.slice(i, i + CHUNK_SIZE) } }] };
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    await sleep(DELAY_MS);
+  }
+  res.end('data: [DONE]\n\n');
+});
+
+server.listen(PORT, () => {
+  console.log(`AI stub listening on http://localhost:${PORT}/v1 (status ${STATUS})`);
+});
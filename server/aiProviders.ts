@@ -0,0 +1,10 @@
+import { AIProvider } from '../services/aiProvider';
+import { AISettings, createAIProvider } from '../services/aiAnalysisService';
+import { createGeminiProvider } from './geminiProvider';
+
+// The backend and the command line hold keys, so they can call Gemini directly.
+// Everything else is the same as in the browser.
+export const createNodeAIProvider = (settings: AISettings): AIProvider =>
+  settings.provider === 'gemini'
+    ? createGeminiProvider(settings.geminiModel, settings.geminiApiKey || undefined)
+    : createAIProvider(settings);
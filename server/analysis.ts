@@ -0,0 +1,148 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ANALYSIS_SYSTEM_PROMPT, AI_ANALYSIS_SCHEMA } from '../services/aiAnalysisService';
+import { BRIEFING_SYSTEM_PROMPT, MARKET_BRIEFING_SCHEMA } from '../services/marketBriefingService';
+import { AIError, AITask } from '../services/aiProvider';
+import { AIServerEvent, AIServerRequest } from '../services/serverAIProvider';
+import { BodyTooLargeError, clientId, readBody, sendJSON } from './http';
+import { ServerConfig } from './config';
+import { createNodeAIProvider } from './aiProviders';
+
+// POST /api/analysis: runs one of the app's AI tasks with the key held here and
+// streams the reply back as newline-delimited AIServerEvents. The client only
+// chooses the task and sends the prompt, the system prompt and reply schema are
+// the task's own, so the endpoint is no general-purpose model proxy.
+// Each client gets a number of requests per window.
+
+const TASKS: Record<AITask, { system: string; schema: object }> = {
+  'setup-analysis': { system: ANALYSIS_SYSTEM_PROMPT, schema: AI_ANALYSIS_SCHEMA },
+  'market-briefing': { system: BRIEFING_SYSTEM_PROMPT, schema: MARKET_BRIEFING_SCHEMA }
+};
+
+// A briefing over 60 setups stays well under this
+const MAX_PROMPT_CHARS = 20000;
+const MAX_BODY_BYTES = 256 * 1024;
+
+// Status of an error that happens before the reply started
+const ERROR_STATUS: Partial<Record<AIError['reason'], number>> = {
+  NO_API_KEY: 503,
+  RATE_LIMIT: 429,
+  NETWORK: 502,
+  HTTP_STATUS: 502,
+  EMPTY_RESPONSE: 502
+};
+
+const toEvent = (error: unknown): Extract<AIServerEvent, { error: unknown }> => {
+  const aiError = error instanceof AIError ? error : new AIError(error instanceof Error ? error.message : String(error), 'NETWORK');
+  return { error: { message: aiError.message, reason: aiError.reason, status: aiError.status } };
+};
+
+// Sliding window of request times per client
+const createRateLimiter = (limit: number, windowMs: number) => {
+  const requests = new Map<string, number[]>();
+  return {
+    // Milliseconds until the client may ask again, 0 when the request is admitted (and counted)
+    take: (client: string): number => {
+      const now = Date.now();
+      const recent = (requests.get(client) ?? []).filter(time => now - time < windowMs);
+      if (recent.length >= limit) {
+        requests.set(client, recent);
+        return recent[0] + windowMs - now;
+      }
+      requests.set(client, [...recent, now]);
+      return 0;
+    },
+    // Forget clients whose window has passed
+    prune: () => {
+      const now = Date.now();
+      requests.forEach((times, client) => {
+        if (times.every(time => now - time >= windowMs)) requests.delete(client);
+      });
+    }
+  };
+};
+
+const isTask = (task: unknown): task is AITask => typeof task === 'string' && Object.hasOwn(TASKS, task);
+
+const parseRequest = (body: string): AIServerRequest | string => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body);
+  } catch {
+    return 'Body is not JSON';
+  }
+  const { task, prompt } = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  if (!isTask(task)) return `task must be one of ${Object.keys(TASKS).join(', ')}`;
+  if (typeof prompt !== 'string' || !prompt.trim()) return 'prompt is required';
+  if (prompt.length > MAX_PROMPT_CHARS) return `prompt is longer than ${MAX_PROMPT_CHARS} characters`;
+  return { task, prompt };
+};
+
+export const createAnalysisHandler = (config: ServerConfig) => {
+  const provider = createNodeAIProvider(config.ai);
+  const limiter = createRateLimiter(config.aiRateLimit, config.aiRateWindowMs);
+  setInterval(limiter.prune, config.aiRateWindowMs).unref();
+
+  const fail = (res: ServerResponse, status: number, message: string, reason: AIError['reason'], headers: Record<string, string> = {}) =>
+    sendJSON(res, status, { error: { message, reason, status } } satisfies AIServerEvent, headers);
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'POST') {
+      fail(res, 405, 'Method not allowed', 'HTTP_STATUS');
+      return;
+    }
+    let body: string;
+    try {
+      body = await readBody(req, MAX_BODY_BYTES);
+    } catch (error) {
+      fail(res, error instanceof BodyTooLargeError ? 413 : 400, error instanceof Error ? error.message : String(error), 'HTTP_STATUS');
+      return;
+    }
+    const request = parseRequest(body);
+    if (typeof request === 'string') {
+      fail(res, 400, request, 'HTTP_STATUS');
+      return;
+    }
+    const client = clientId(req, config.trustProxy);
+    const wait = limiter.take(client);
+    if (wait > 0) {
+      const minutes = Math.ceil(wait / 60000);
+      fail(res, 429, `每 ${Math.round(config.aiRateWindowMs / 60000)} 分钟最多 ${config.aiRateLimit} 次分析，请 ${minutes} 分钟后再试`, 'RATE_LIMIT', {
+        'Retry-After': String(Math.ceil(wait / 1000))
+      });
+      return;
+    }
+
+    // Stop the model when the visitor cancels or leaves
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const { system, schema } = TASKS[request.task];
+    const stream = provider.stream({ task: request.task, system, prompt: request.prompt, schema, signal: controller.signal });
+    let started = false;
+    try {
+      for await (const text of stream) {
+        if (!started) {
+          // Headers wait for the first chunk, so a missing key or an upstream 429 still gets its status
+          res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+          started = true;
+        }
+        res.write(`${JSON.stringify({ text } satisfies AIServerEvent)}\n`);
+      }
+      if (!started) throw new AIError('模型未返回内容', 'EMPTY_RESPONSE');
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const event = toEvent(error);
+      console.error(`AI ${request.task} for ${client} failed: ${event.error.reason} ${event.error.message}`);
+      if (started) {
+        res.end(`${JSON.stringify(event)}\n`);
+      } else {
+        sendJSON(res, ERROR_STATUS[event.error.reason] ?? 502, event);
+      }
+    }
+  };
+
+  return { handle };
+};
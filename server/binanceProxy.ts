@@ -0,0 +1,167 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { BINANCE_ENDPOINTS, BinanceMarket } from '../services/binanceService';
+import { sendJSON } from './http';
+
+// Same-origin proxy for the public Binance REST endpoints the app reads, in
+// place of third-party CORS proxies. Every visitor shares this server's IP and
+// weight budget, so responses are cached for a while, identical requests in
+// flight are sent once, and while Binance limits the IP the proxy answers from
+// its cache (stale if need be) or with 429 itself instead of making it worse.
+//
+//   GET /api/binance/spot/api/v3/klines?symbol=BTCUSDT&interval=1h
+//   GET /api/binance/futures/fapi/v1/premiumIndex?symbol=BTCUSDT
+
+// Allowed paths per market and how long their responses are reused. Klines are
+// only the initial load, the app follows candles over WebSocket afterwards.
+const ROUTES: Record<BinanceMarket, Record<string, number>> = {
+  spot: {
+    '/api/v3/klines': 10 * 1000,
+    '/api/v3/ticker/24hr': 30 * 1000,
+    '/api/v3/exchangeInfo': 60 * 60 * 1000
+  },
+  futures: {
+    '/fapi/v1/klines': 10 * 1000,
+    '/fapi/v1/ticker/24hr': 30 * 1000,
+    '/fapi/v1/exchangeInfo': 60 * 60 * 1000,
+    '/fapi/v1/premiumIndex': 30 * 1000,
+    '/futures/data/openInterestHist': 5 * 60 * 1000,
+    '/futures/data/topLongShortPositionRatio': 5 * 60 * 1000
+  }
+};
+
+// Share of the minute's weight after which only cached responses are served
+const WEIGHT_RESERVE = 0.9;
+const CACHE_LIMIT = 2000;
+
+interface CachedResponse {
+  status: number;
+  body: string;
+  fetchedAt: number;
+}
+
+interface UpstreamState {
+  usedWeight1m: number | null;
+  updatedAt: number;
+  bannedUntil: number;
+}
+
+const minuteOf = (time: number) => Math.floor(time / 60000);
+
+export const createBinanceProxy = () => {
+  const cache = new Map<string, CachedResponse>();
+  const inFlight = new Map<string, Promise<CachedResponse>>();
+  const upstream: Record<BinanceMarket, UpstreamState> = {
+    spot: { usedWeight1m: null, updatedAt: 0, bannedUntil: 0 },
+    futures: { usedWeight1m: null, updatedAt: 0, bannedUntil: 0 }
+  };
+
+  // Weight used this minute, as last reported by Binance
+  const currentWeight = (market: BinanceMarket) => {
+    const state = upstream[market];
+    return state.usedWeight1m !== null && minuteOf(state.updatedAt) === minuteOf(Date.now()) ? state.usedWeight1m : null;
+  };
+
+  // Milliseconds until Binance should be asked again, 0 when it can be now
+  const backoff = (market: BinanceMarket): number => {
+    const now = Date.now();
+    if (upstream[market].bannedUntil > now) return upstream[market].bannedUntil - now;
+    const used = currentWeight(market);
+    if (used !== null && used >= BINANCE_ENDPOINTS[market].weightLimit1m * WEIGHT_RESERVE) return (minuteOf(now) + 1) * 60000 - now;
+    return 0;
+  };
+
+  const fetchUpstream = async (market: BinanceMarket, pathAndQuery: string): Promise<CachedResponse> => {
+    const response = await fetch(`${BINANCE_ENDPOINTS[market].restUrl}${pathAndQuery}`);
+    const used = parseInt(response.headers.get('x-mbx-used-weight-1m') ?? '', 10);
+    if (!Number.isNaN(used)) upstream[market] = { ...upstream[market], usedWeight1m: used, updatedAt: Date.now() };
+    if (response.status === 429 || response.status === 418) {
+      const retryAfterSec = parseInt(response.headers.get('retry-after') ?? '', 10);
+      const retryAfterMs = Number.isNaN(retryAfterSec) ? (response.status === 418 ? 120000 : 60000) : retryAfterSec * 1000;
+      upstream[market] = { ...upstream[market], bannedUntil: Date.now() + retryAfterMs };
+      console.warn(`Binance ${market} limited the proxy (HTTP ${response.status}) for ${Math.round(retryAfterMs / 1000)}s`);
+    }
+    return { status: response.status, body: await response.text(), fetchedAt: Date.now() };
+  };
+
+  const store = (key: string, entry: CachedResponse) => {
+    // Re-inserting keeps the Map in age order, the oldest entries are dropped first
+    cache.delete(key);
+    cache.set(key, entry);
+    while (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value as string);
+  };
+
+  const send = (res: ServerResponse, market: BinanceMarket, entry: CachedResponse, cacheStatus: string) => {
+    const used = currentWeight(market);
+    res.writeHead(entry.status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'X-Cache': cacheStatus,
+      // The app's scheduler throttles on this like on a direct response
+      ...(used !== null ? { 'x-mbx-used-weight-1m': String(used) } : {})
+    });
+    res.end(entry.body);
+  };
+
+  // `pathname` is the part after /api/binance
+  const handle = async (req: IncomingMessage, res: ServerResponse, pathname: string, search: string) => {
+    if (req.method !== 'GET') {
+      sendJSON(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    const match = /^\/(spot|futures)(\/.*)$/.exec(pathname);
+    const market = match?.[1] as BinanceMarket | undefined;
+    const ttl = match && market ? ROUTES[market][match[2]] : undefined;
+    if (!match || !market || ttl === undefined) {
+      sendJSON(res, 404, { error: `Not a proxied Binance endpoint: ${pathname}` });
+      return;
+    }
+
+    const pathAndQuery = `${match[2]}${search}`;
+    const key = `${market}:${pathAndQuery}`;
+    const cached = cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < ttl) {
+      send(res, market, cached, 'HIT');
+      return;
+    }
+    const wait = backoff(market);
+    if (wait > 0) {
+      if (cached) {
+        send(res, market, cached, 'STALE');
+      } else {
+        sendJSON(res, 429, { error: 'Binance rate limit reached, retry later' }, { 'Retry-After': String(Math.ceil(wait / 1000)) });
+      }
+      return;
+    }
+
+    let request = inFlight.get(key);
+    if (!request) {
+      request = fetchUpstream(market, pathAndQuery)
+        .then(entry => {
+          if (entry.status === 200) store(key, entry);
+          return entry;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, request);
+    }
+    let entry: CachedResponse;
+    try {
+      entry = await request;
+    } catch (error) {
+      if (cached) {
+        send(res, market, cached, 'STALE');
+      } else {
+        sendJSON(res, 502, { error: `Binance unreachable: ${error instanceof Error ? error.message : String(error)}` });
+      }
+      return;
+    }
+    if ((entry.status === 429 || entry.status === 418) && cached) {
+      send(res, market, cached, 'STALE');
+      return;
+    }
+    // API errors ({ code, msg }) go through as they are, the app tells them apart from outages
+    if (entry.status === 429 || entry.status === 418) res.setHeader('Retry-After', String(Math.ceil(backoff(market) / 1000)));
+    send(res, market, entry, 'MISS');
+  };
+
+  return { handle };
+};
@@ -0,0 +1,57 @@
+import { AISettings, DEFAULT_AI_SETTINGS } from '../services/aiAnalysisService';
+
+// Everything the backend needs comes from the environment, so secrets never
+// reach the repository or the client bundle.
+//
+//   API_KEY                Gemini key (GEMINI_API_KEY is read as well)
+//   AI_PROVIDER            gemini (default) | openai-compatible
+//   AI_MODEL, AI_BASE_URL  Model, and the endpoint of an OpenAI-compatible server
+//   AI_API_KEY             Key of the OpenAI-compatible server, if it needs one
+//   AI_RATE_LIMIT          Analyses per client and window (default 20)
+//   AI_RATE_WINDOW_MIN     Length of that window in minutes (default 10)
+//   PORT                   Listening port (default 8080)
+//   STATIC_DIR             Built app to serve (default dist)
+//   TRUST_PROXY            Set to 1 behind a reverse proxy, clients are then told apart by X-Forwarded-For
+
+export interface ServerConfig {
+  port: number;
+  staticDir: string;
+  trustProxy: boolean;
+  ai: AISettings;
+  aiRateLimit: number;
+  aiRateWindowMs: number;
+}
+
+const positiveInt = (env: NodeJS.ProcessEnv, name: string, fallback: number): number => {
+  const raw = env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  return value;
+};
+
+const readAISettings = (env: NodeJS.ProcessEnv): AISettings => {
+  const provider = env.AI_PROVIDER || 'gemini';
+  if (provider !== 'gemini' && provider !== 'openai-compatible') {
+    throw new Error(`AI_PROVIDER must be gemini or openai-compatible, got "${provider}"`);
+  }
+  return {
+    provider,
+    geminiModel: (provider === 'gemini' && env.AI_MODEL) || DEFAULT_AI_SETTINGS.geminiModel,
+    geminiApiKey: env.API_KEY || env.GEMINI_API_KEY || '',
+    openai: {
+      baseUrl: env.AI_BASE_URL || DEFAULT_AI_SETTINGS.openai.baseUrl,
+      model: (provider === 'openai-compatible' && env.AI_MODEL) || DEFAULT_AI_SETTINGS.openai.model,
+      apiKey: env.AI_API_KEY || ''
+    }
+  };
+};
+
+export const readServerConfig = (env: NodeJS.ProcessEnv): ServerConfig => ({
+  port: positiveInt(env, 'PORT', 8080),
+  staticDir: env.STATIC_DIR || 'dist',
+  trustProxy: env.TRUST_PROXY === '1' || env.TRUST_PROXY === 'true',
+  ai: readAISettings(env),
+  aiRateLimit: positiveInt(env, 'AI_RATE_LIMIT', 20),
+  aiRateWindowMs: positiveInt(env, 'AI_RATE_WINDOW_MIN', 10) * 60 * 1000
+});
@@ -0,0 +1,44 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { AIError, AIProvider, isAbortError } from '../services/aiProvider';
+import { DEFAULT_GEMINI_MODEL } from '../services/aiAnalysisService';
+
+const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (isAbortError(error)) return new AIError('请求已取消', 'ABORTED');
+  if (error instanceof ApiError) {
+    return new AIError(error.message, error.status === 429 ? 'RATE_LIMIT' : 'HTTP_STATUS', error.status);
+  }
+  return new AIError(error instanceof Error ? error.message : String(error), 'NETWORK');
+};
+
+// Runs where the key can be kept secret: the backend and the command line. The
+// browser goes through the backend instead (see serverAIProvider) and never
+// bundles the Gemini SDK.
+export const createGeminiProvider = (model: string = DEFAULT_GEMINI_MODEL, apiKey?: string): AIProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  model,
+  stream: async function* ({ system, prompt, schema, signal }) {
+    if (!apiKey) throw new AIError('请先设置 API Key 以获取 AI 分析。', 'NO_API_KEY');
+
+    const ai = new GoogleGenAI({ apiKey });
+    try {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction: system,
+          responseMimeType: 'application/json',
+          responseJsonSchema: schema,
+          abortSignal: signal
+        }
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      console.error("Gemini API Error:", error);
+      throw toAIError(error);
+    }
+  }
+});
@@ -0,0 +1,20 @@
+import { IncomingMessage } from 'node:http';
+import { describe, expect, it } from 'vitest';
+import { clientId } from './http';
+
+const request = (forwardedFor: string | string[] | undefined, remoteAddress = '10.0.0.2') =>
+  ({ headers: { 'x-forwarded-for': forwardedFor }, socket: { remoteAddress } }) as unknown as IncomingMessage;
+
+describe('clientId', () => {
+  it('counts a spoofed leading entry against the address the proxy saw', () => {
+    expect(clientId(request('203.0.113.7'), true)).toBe('203.0.113.7');
+    expect(clientId(request('1.2.3.4, 203.0.113.7'), true)).toBe('203.0.113.7');
+    expect(clientId(request(['5.6.7.8', '203.0.113.7']), true)).toBe('203.0.113.7');
+  });
+
+  it('uses the socket address without a trusted proxy or forwarded address', () => {
+    expect(clientId(request('1.2.3.4, 203.0.113.7'), false)).toBe('10.0.0.2');
+    expect(clientId(request(undefined), true)).toBe('10.0.0.2');
+    expect(clientId(request(' , '), true)).toBe('10.0.0.2');
+  });
+});
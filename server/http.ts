@@ -0,0 +1,98 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+// Small helpers over node:http, the backend has no framework.
+
+export const sendJSON = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Request body over ${limit} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+export const readBody = (req: IncomingMessage, limit: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new BodyTooLargeError(limit));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+// Who a request counts against for rate limiting. Behind a reverse proxy every
+// request comes from the proxy, the client is then the last forwarded address:
+// the proxy appends the peer it saw, anything before that came from the client
+// and can be made up.
+export const clientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && forwarded) {
+    const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded).split(',').map(hop => hop.trim()).filter(Boolean);
+    if (hops.length) return hops[hops.length - 1];
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+// --- Static files ---
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+};
+
+const isFile = async (file: string) => {
+  try {
+    return (await stat(file)).isFile();
+  } catch {
+    return false;
+  }
+};
+
+// Serves the built app. Unknown paths get index.html, the app reads its state from the URL.
+export const createStaticHandler = (root: string) => {
+  const base = path.resolve(root);
+  return async (req: IncomingMessage, res: ServerResponse, pathname: string) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      sendJSON(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    let file = path.join(base, 'index.html');
+    try {
+      const requested = path.resolve(base, `.${decodeURIComponent(pathname)}`);
+      // Resolved paths outside the root (../) are treated as unknown
+      if (requested.startsWith(base + path.sep) && await isFile(requested)) file = requested;
+    } catch {
+      // Malformed escape in the path
+    }
+    if (!(await isFile(file))) {
+      sendJSON(res, 404, { error: `${path.join(root, 'index.html')} not found, run npm run build first` });
+      return;
+    }
+    const body = await readFile(file);
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream',
+      // Vite puts a content hash in every asset name
+      'Cache-Control': file.startsWith(path.join(base, 'assets') + path.sep) ? 'public, max-age=31536000, immutable' : 'no-cache'
+    });
+    res.end(req.method === 'HEAD' ? undefined : body);
+  };
+};
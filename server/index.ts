@@ -0,0 +1,64 @@
+import http from 'node:http';
+import { ANALYSIS_ENDPOINT } from '../services/serverAIProvider';
+import { readServerConfig } from './config';
+import { createStaticHandler, sendJSON } from './http';
+import { createBinanceProxy } from './binanceProxy';
+import { createAnalysisHandler } from './analysis';
+
+// The app's backend: serves the built app, proxies Binance REST and runs the AI
+// analysis with a key the browser never sees.
+//
+//   npm run build && API_KEY=... npm start
+//   PORT=3000 TRUST_PROXY=1 npm start        # behind nginx or a load balancer
+//
+// During development run it next to `npm run dev`, Vite forwards /api here.
+
+const BINANCE_PREFIX = '/api/binance';
+
+const main = () => {
+  const config = readServerConfig(process.env);
+  const serveStatic = createStaticHandler(config.staticDir);
+  const binance = createBinanceProxy();
+  const analysis = createAnalysisHandler(config);
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      if (url.pathname === ANALYSIS_ENDPOINT) {
+        await analysis.handle(req, res);
+      } else if (url.pathname.startsWith(`${BINANCE_PREFIX}/`)) {
+        await binance.handle(req, res, url.pathname.slice(BINANCE_PREFIX.length), url.search);
+      } else if (url.pathname.startsWith('/api/')) {
+        sendJSON(res, 404, { error: `Unknown endpoint ${url.pathname}` });
+      } else {
+        await serveStatic(req, res, url.pathname);
+      }
+    } catch (error) {
+      console.error(`${req.method} ${url.pathname} failed`, error);
+      if (!res.headersSent) sendJSON(res, 500, { error: 'Internal error' });
+      else res.end();
+    }
+  });
+
+  server.listen(config.port, () => {
+    const ai = config.ai.provider === 'gemini'
+      ? `gemini ${config.ai.geminiModel}${config.ai.geminiApiKey ? '' : ' (no API_KEY, analysis disabled)'}`
+      : `${config.ai.openai.model} at ${config.ai.openai.baseUrl}`;
+    console.log(`Listening on http://localhost:${config.port}, AI: ${ai}, ${config.aiRateLimit} analyses per client every ${config.aiRateWindowMs / 60000} min`);
+  });
+
+  const stop = () => {
+    server.close(() => process.exit(0));
+    // Open keep-alive and streaming connections would hold close() back
+    server.closeAllConnections();
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Kline } from '../types';
+import { AIError, AIProvider } from './aiProvider';
+import { analyzeSetup } from './aiAnalysisService';
+import { DEFAULT_STRATEGY_CONFIG, evaluateSetup } from './strategyService';
+
+const HOUR = 60 * 60 * 1000;
+const REPLY = JSON.stringify({ analysis: '六线收敛，等待突破', bias: 'NEUTRAL', confidence: 'Low', keyLevels: [], risks: [] });
+
+const klines: Kline[] = Array.from({ length: 200 }, (_, i) => ({
+  openTime: i * HOUR, open: String(100 + i), high: String(101 + i), low: String(99 + i), close: String(100 + i), volume: '10',
+  closeTime: (i + 1) * HOUR - 1
+}));
+const setup = evaluateSetup(klines, DEFAULT_STRATEGY_CONFIG, { symbol: 'BTCUSDT', interval: '1h' })!;
+
+// Streams REPLY in two halves, the second once `release` is called
+const createGatedProvider = () => {
+  let release = () => {};
+  const gate = new Promise<void>(resolve => { release = resolve; });
+  const state = { requests: 0, aborted: false };
+  const provider: AIProvider = {
+    id: 'openai-compatible',
+    label: 'test',
+    model: `test-${Math.random()}`,
+    stream: async function* ({ signal }) {
+      state.requests++;
+      yield REPLY.slice(0, 20);
+      await Promise.race([gate, new Promise(resolve => signal?.addEventListener('abort', resolve))]);
+      if (signal?.aborted) {
+        state.aborted = true;
+        throw new AIError('请求已取消', 'ABORTED');
+      }
+      yield REPLY.slice(20);
+    }
+  };
+  return { provider, state, release: () => release() };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('analyzeSetup', () => {
+  it('streams one shared request to every caller', async () => {
+    const { provider, state, release } = createGatedProvider();
+    const first: string[] = [];
+    const second: string[] = [];
+    const a = analyzeSetup(setup, 1, { provider, onToken: t => first.push(t) });
+    await tick();
+    const b = analyzeSetup(setup, 1, { provider, onToken: t => second.push(t) });
+    release();
+    const [resultA, resultB] = await Promise.all([a, b]);
+    expect(state.requests).toBe(1);
+    expect(resultA).toBe(resultB);
+    expect(first[first.length - 1]).toBe('六线收敛，等待突破');
+    // The late caller gets what streamed before it joined, then the rest
+    expect(second[0]).toBe(first[0]);
+    expect(second[second.length - 1]).toBe('六线收敛，等待突破');
+  });
+
+  it('lets one caller abort without stopping the other', async () => {
+    const { provider, state, release } = createGatedProvider();
+    const controller = new AbortController();
+    const a = analyzeSetup(setup, 2, { provider, signal: controller.signal });
+    const b = analyzeSetup(setup, 2, { provider });
+    controller.abort();
+    await expect(a).rejects.toMatchObject({ reason: 'ABORTED' });
+    release();
+    await expect(b).resolves.toMatchObject({ bias: 'NEUTRAL' });
+    expect(state.aborted).toBe(false);
+  });
+
+  it('stops the request once every caller aborted', async () => {
+    const { provider, state } = createGatedProvider();
+    const controllers = [new AbortController(), new AbortController()];
+    const calls = controllers.map(c => analyzeSetup(setup, 3, { provider, signal: c.signal }));
+    await tick();
+    controllers.forEach(c => c.abort());
+    await Promise.all(calls.map(call => expect(call).rejects.toMatchObject({ reason: 'ABORTED' })));
+    await tick();
+    expect(state.aborted).toBe(true);
+  });
+});
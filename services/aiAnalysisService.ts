@@ -0,0 +1,387 @@
+import { AIAnalysisResult, AIKeyLevel, SignalType, TradeSetup } from '../types';
+import { AIError, AIProvider, AIProviderId, AIRequest, isJSONObject } from './aiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createServerAIProvider } from './serverAIProvider';
+import { TIMEFRAME_LABELS } from './strategyService';
+import { STORAGE_KEYS, loadJSON, saveJSON } from './storage';
+
+// Structured analysis of one setup. The model is asked for JSON matching
+// AI_ANALYSIS_SCHEMA and streams it back; the "analysis" field comes first so
+// its text can be shown while the rest of the object is still arriving.
+// Results are cached per provider, symbol, interval and candle, so asking again
+// about the same candle does not send another request.
+
+// --- Settings ---
+
+export interface AISettings {
+  provider: AIProviderId;
+  geminiModel: string;
+  geminiApiKey: string; // Backend and command line only, the browser never has one
+  openai: {
+    baseUrl: string;
+    model: string;
+    apiKey: string;
+  };
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'server',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  geminiApiKey: '',
+  openai: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'qwen2.5:7b',
+    apiKey: ''
+  }
+};
+
+export const loadAISettings = (): AISettings => {
+  const stored = loadJSON<Partial<AISettings> | null>(STORAGE_KEYS.ai, null);
+  const settings = { ...DEFAULT_AI_SETTINGS, ...stored, openai: { ...DEFAULT_AI_SETTINGS.openai, ...stored?.openai } };
+  // Gemini used to run in the browser with a key baked into the build, the backend holds it now
+  return settings.provider === 'gemini' ? { ...settings, provider: 'server', geminiApiKey: '' } : settings;
+};
+
+export const saveAISettings = (settings: AISettings): void => {
+  saveJSON(STORAGE_KEYS.ai, settings);
+};
+
+// Providers the browser can run. Gemini is only available in Node, through
+// createNodeAIProvider (server/aiProviders.ts), so its SDK stays out of the bundle.
+export const createAIProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: settings.openai.baseUrl,
+        model: settings.openai.model,
+        apiKey: settings.openai.apiKey || undefined
+      });
+    default: return createServerAIProvider();
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createAIProvider(loadAISettings());
+  return activeProvider;
+};
+
+export const setAIProvider = (provider: AIProvider): void => {
+  activeProvider = provider;
+};
+
+// --- Prompt ---
+
+export const AI_ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    analysis: { type: 'string', description: '中文分析结论，200字以内' },
+    bias: { type: 'string', enum: ['LONG', 'SHORT', 'NEUTRAL'] },
+    confidence: { type: 'string', enum: ['High', 'Medium', 'Low'] },
+    keyLevels: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          price: { type: 'number' },
+          kind: { type: 'string', enum: ['support', 'resistance'] },
+          note: { type: 'string' }
+        },
+        required: ['price', 'kind', 'note'],
+        additionalProperties: false
+      }
+    },
+    risks: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['analysis', 'bias', 'confidence', 'keyLevels', 'risks'],
+  additionalProperties: false
+} as const;
+
+export const ANALYSIS_SYSTEM_PROMPT = '你是资深加密货币技术分析师，基于“双均线密集系统”（MA+EMA 20/60/120 共6根线）分析行情。' +
+  '只输出符合给定 JSON Schema 的 JSON 对象，不要输出其他内容。analysis 用中文，风格专业犀利，直接给出结论，字数控制在200字以内。';
+
+const DIRECTION_TEXT: Record<SignalType, string> = {
+  [SignalType.LONG]: '做多趋势',
+  [SignalType.SHORT]: '做空趋势',
+  [SignalType.BREAKOUT_LONG]: '均线密集后放量向上突破',
+  [SignalType.BREAKDOWN_SHORT]: '均线密集后放量向下跌破',
+  [SignalType.WATCH]: '均线高度密集(变盘前夕)',
+  [SignalType.WAIT]: '观望/震荡'
+};
+
+export const buildAnalysisPrompt = (setup: TradeSetup): string => {
+  const intervalStr = TIMEFRAME_LABELS[setup.interval];
+  const plans = setup.plans.length
+    ? setup.plans.map(plan =>
+      `- ${plan.kind} ${plan.direction}: ${plan.trigger !== null ? `收盘突破 ${plan.trigger.toFixed(4)} 后` : '市价'}入场 ${plan.entryPrice.toFixed(4)}, ` +
+      `止损 ${plan.stopLoss.toFixed(4)}, 目标 ${plan.targets.map(t => `${t.price.toFixed(4)} (${t.rMultiple}R)`).join(' / ')}`
+    ).join('\n')
+    : '- 无';
+
+  const futures = setup.futures;
+  const futuresSection = futures ? `
+**永续合约持仓 (${futures.symbol}):**
+- 资金费率: ${(futures.fundingRate * 100).toFixed(4)}% / 期
+- 持仓量: ${futures.openInterest !== null ? futures.openInterest.toFixed(0) : '未知'}${futures.openInterestChange24h !== null ? ` (24h ${futures.openInterestChange24h > 0 ? '+' : ''}${futures.openInterestChange24h.toFixed(1)}%)` : ''}
+- 大户持仓多空比: ${futures.longShortRatio !== null ? futures.longShortRatio.toFixed(2) : '未知'}
+${setup.crowding?.length ? setup.crowding.map(c => `- 拥挤: ${c.message}${c.againstSignal ? ' (与信号同向，警惕挤仓)' : ''}`).join('\n') : '- 拥挤: 无'}
+` : '';
+
+  return `
+交易对: ${setup.symbol}
+当前价格: ${setup.price.toFixed(4)}
+分析周期: ${intervalStr}
+
+**双均线系统数据 (6根线):**
+- 短期: MA${setup.maPeriods.short}=${setup.mas.ma20.toFixed(4)}, EMA${setup.maPeriods.short}=${setup.mas.ema20.toFixed(4)}
+- 中期: MA${setup.maPeriods.mid}=${setup.mas.ma60.toFixed(4)}, EMA${setup.maPeriods.mid}=${setup.mas.ema60.toFixed(4)}
+- 长期: MA${setup.maPeriods.long}=${setup.mas.ma120.toFixed(4)}, EMA${setup.maPeriods.long}=${setup.mas.ema120.toFixed(4)}
+- ATR: ${setup.atr.toFixed(4)}
+
+**形态状态:**
+- 6线整体偏离度: ${setup.densityScore.toFixed(2)}% (越低越密集)
+- 价格中心偏离度: ${setup.priceDeviation.toFixed(2)}%
+- 是否密集: ${setup.isDense ? '是 (注意变盘)' : '否 (趋势中或发散)'}
+- 系统信号: ${DIRECTION_TEXT[setup.signal]}
+- 建议理由: ${setup.reason}
+
+**交易计划:**
+- 止损 (SL): ${setup.stopLoss.toFixed(4)}
+- 止盈 (TP): ${setup.takeProfit.toFixed(4)}
+${plans}
+${futuresSection}
+**分析任务:**
+1. analysis: 在 ${intervalStr} 级别下，6根线是纠缠（变盘）还是排列（趋势）？如果密集，是该埋伏还是等待突破确认？如果趋势，当前是否适合追涨杀跌？
+2. bias 与 confidence: 你的方向判断及把握程度。
+3. keyLevels: 2-4 个关键支撑/阻力价位，note 说明依据。
+4. risks: 结合ATR止损位${futures ? '和合约持仓拥挤度' : ''}列出主要风险，每条一句话。
+`.trim();
+};
+
+// --- Parsing ---
+
+// Text of a string field from a reply that is still streaming, so far as it has arrived
+export const extractPartialString = (text: string, field: string): string => {
+  const match = new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`).exec(text);
+  if (!match) return '';
+  // Drop a trailing half escape sequence before decoding
+  const body = match[1].replace(/\\u[0-9a-fA-F]{0,3}$|\\$/, '');
+  try {
+    return JSON.parse(`"${body}"`);
+  } catch {
+    return body;
+  }
+};
+
+export const BIASES: AIAnalysisResult['bias'][] = ['LONG', 'SHORT', 'NEUTRAL'];
+export const CONFIDENCES: AIAnalysisResult['confidence'][] = ['High', 'Medium', 'Low'];
+
+// Some models wrap JSON in a markdown fence even when asked not to
+const stripFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// The decoded reply, shape checks are left to the caller
+export const parseJSONReply = (text: string): unknown => {
+  if (!text.trim()) throw new AIError('回复为空', 'EMPTY_RESPONSE');
+  try {
+    return JSON.parse(stripFence(text));
+  } catch {
+    throw new AIError(`回复不是有效的 JSON: ${text.slice(0, 80)}`, 'PARSE_ERROR');
+  }
+};
+
+export const parseAnalysisResult = (
+  text: string,
+  setup: Pick<TradeSetup, 'symbol' | 'interval'>,
+  model: string,
+  createdAt: number = Date.now()
+): AIAnalysisResult => {
+  const raw = parseJSONReply(text);
+  if (!isJSONObject(raw) || typeof raw.analysis !== 'string' || !raw.analysis.trim()) {
+    throw new AIError('回复缺少 analysis 字段', 'PARSE_ERROR');
+  }
+
+  const keyLevels: AIKeyLevel[] = Array.isArray(raw.keyLevels)
+    ? raw.keyLevels
+      .filter((l: unknown): l is Record<string, unknown> & Pick<AIKeyLevel, 'kind'> =>
+        isJSONObject(l) && Number.isFinite(Number(l.price)) && (l.kind === 'support' || l.kind === 'resistance'))
+      .map(l => ({ price: Number(l.price), kind: l.kind, note: typeof l.note === 'string' ? l.note : '' }))
+    : [];
+
+  const bias = BIASES.find(b => b === raw.bias);
+  const confidence = CONFIDENCES.find(c => c === raw.confidence);
+  return {
+    symbol: setup.symbol,
+    interval: setup.interval,
+    analysis: raw.analysis.trim(),
+    bias: bias ?? 'NEUTRAL',
+    confidence: confidence ?? 'Low',
+    keyLevels,
+    risks: Array.isArray(raw.risks) ? raw.risks.filter((r: unknown): r is string => typeof r === 'string' && r.trim() !== '') : [],
+    model,
+    createdAt
+  };
+};
+
+// --- Cache ---
+
+const CACHE_LIMIT = 100;
+
+// Read from storage on first use, not at import
+let memoryCache: Map<string, AIAnalysisResult> | null = null;
+
+// One request per candle, shared by every card asking about it. Each caller gets
+// the streamed text and can leave on its own; the request stops when all have left.
+interface SharedAnalysis {
+  request: Promise<AIAnalysisResult>;
+  controller: AbortController;
+  listeners: Set<(partial: string) => void>;
+  partial: string; // Streamed so far, replayed to callers that join late
+  callers: number;
+}
+
+const inFlight = new Map<string, SharedAnalysis>();
+
+const getCache = () =>
+  memoryCache ??= new Map(Object.entries(loadJSON<Record<string, AIAnalysisResult>>(STORAGE_KEYS.aiCache, {})));
+
+const persistCache = (cache: Map<string, AIAnalysisResult>) => {
+  // Map keeps insertion order, so the oldest entries are dropped first
+  while (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value as string);
+  saveJSON(STORAGE_KEYS.aiCache, Object.fromEntries(cache));
+};
+
+const cacheKey = (provider: AIProvider, setup: TradeSetup, candleTime: number) =>
+  `${provider.id}:${provider.model}:${setup.symbol}:${setup.interval}:${candleTime}`;
+
+export const getCachedAnalysis = (setup: TradeSetup, candleTime: number | undefined, provider: AIProvider = getAIProvider()) =>
+  candleTime === undefined ? null : getCache().get(cacheKey(provider, setup, candleTime)) ?? null;
+
+// Newest cached result for a series from any provider or candle, for exports
+export const getLatestAnalysis = (symbol: string, interval: string): AIAnalysisResult | null => {
+  let latest: AIAnalysisResult | null = null;
+  getCache().forEach(result => {
+    if (result.symbol === symbol && result.interval === interval && (!latest || result.createdAt > latest.createdAt)) latest = result;
+  });
+  return latest;
+};
+
+export const clearAnalysisCache = (): void => {
+  memoryCache = new Map();
+  saveJSON(STORAGE_KEYS.aiCache, {});
+};
+
+// --- Analysis ---
+
+export interface AnalyzeOptions {
+  onToken?: (partialAnalysis: string) => void; // Called with the analysis text received so far
+  signal?: AbortSignal;
+  provider?: AIProvider;
+}
+
+// Full reply text, reporting the streamed value of `field` whenever it grows
+export const collectReply = async (
+  provider: AIProvider,
+  request: AIRequest,
+  field: string,
+  onToken?: (partial: string) => void
+): Promise<string> => {
+  let text = '';
+  let shown = '';
+  for await (const chunk of provider.stream(request)) {
+    text += chunk;
+    const partial = extractPartialString(text, field);
+    if (partial !== shown) {
+      shown = partial;
+      onToken?.(partial);
+    }
+  }
+  return text;
+};
+
+const runAnalysis = async (setup: TradeSetup, provider: AIProvider, options: AnalyzeOptions): Promise<AIAnalysisResult> => {
+  const text = await collectReply(provider, {
+    task: 'setup-analysis',
+    system: ANALYSIS_SYSTEM_PROMPT,
+    prompt: buildAnalysisPrompt(setup),
+    schema: AI_ANALYSIS_SCHEMA,
+    signal: options.signal
+  }, 'analysis', options.onToken);
+  return parseAnalysisResult(text, setup, `${provider.id}:${provider.model}`);
+};
+
+// candleTime is the open time of the evaluated candle. Without it the result is not cached.
+export const analyzeSetup = async (
+  setup: TradeSetup,
+  candleTime: number | undefined,
+  options: AnalyzeOptions = {}
+): Promise<AIAnalysisResult> => {
+  const provider = options.provider ?? getAIProvider();
+  if (candleTime === undefined) return runAnalysis(setup, provider, options);
+
+  const key = cacheKey(provider, setup, candleTime);
+  const cache = getCache();
+  const cached = cache.get(key);
+  if (cached) return cached;
+  if (options.signal?.aborted) throw new AIError('请求已取消', 'ABORTED');
+
+  // A second card asking about the same candle joins the first request instead of sending its own
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const listeners = new Set<(partial: string) => void>();
+    const entry: SharedAnalysis = {
+      controller,
+      listeners,
+      partial: '',
+      callers: 0,
+      request: runAnalysis(setup, provider, {
+        signal: controller.signal,
+        onToken: partial => {
+          entry.partial = partial;
+          listeners.forEach(listener => listener(partial));
+        }
+      })
+        .then(result => {
+          cache.set(key, result);
+          persistCache(cache);
+          return result;
+        })
+        .finally(() => {
+          if (inFlight.get(key) === entry) inFlight.delete(key);
+        })
+    };
+    inFlight.set(key, entry);
+    shared = entry;
+  }
+  return joinAnalysis(key, shared, options);
+};
+
+const joinAnalysis = (key: string, shared: SharedAnalysis, { onToken, signal }: AnalyzeOptions): Promise<AIAnalysisResult> =>
+  new Promise((resolve, reject) => {
+    shared.callers++;
+    if (onToken) {
+      shared.listeners.add(onToken);
+      if (shared.partial) onToken(shared.partial);
+    }
+    const leave = () => {
+      if (onToken) shared.listeners.delete(onToken);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      leave();
+      if (--shared.callers === 0) {
+        // Nobody is waiting any more, a later request starts afresh
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+        shared.controller.abort();
+      }
+      reject(new AIError('请求已取消', 'ABORTED'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    shared.request.then(
+      result => { leave(); resolve(result); },
+      error => { leave(); reject(error); }
+    );
+  });
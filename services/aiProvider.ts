@@ -0,0 +1,70 @@
+// Common surface for the language models that write the setup analysis. A
+// provider streams raw text for a prompt; asking for structured JSON and
+// parsing it is left to aiAnalysisService, so every backend behaves the same.
+
+// 'server' is the app's own backend, which holds the key and picks the model
+export type AIProviderId = 'server' | 'gemini' | 'openai-compatible';
+
+// Which of the app's prompts a request is, the backend answers only these
+export type AITask = 'setup-analysis' | 'market-briefing';
+
+export interface AIRequest {
+  task: AITask;
+  system: string;
+  prompt: string;
+  schema: object; // JSON Schema the reply must follow
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  model: string;
+  // Yields text chunks as they arrive, the concatenation is the full reply
+  stream: (request: AIRequest) => AsyncGenerator<string, void, undefined>;
+}
+
+// --- Errors ---
+
+export type AIErrorReason =
+  | 'NO_API_KEY' // Provider needs a key and none is configured (on the backend, for 'server')
+  | 'NETWORK' // Request never got a response (offline, CORS, server not running)
+  | 'HTTP_STATUS' // Non-2xx response
+  | 'RATE_LIMIT' // 429, quota exhausted
+  | 'EMPTY_RESPONSE' // Stream ended without any text
+  | 'PARSE_ERROR' // Reply was not the requested JSON
+  | 'ABORTED'; // Cancelled by the caller
+
+export class AIError extends Error {
+  constructor(
+    message: string,
+    public reason: AIErrorReason,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+const REASON_LABELS: Record<AIErrorReason, string> = {
+  NO_API_KEY: '未配置 API Key',
+  NETWORK: '无法连接 AI 服务',
+  HTTP_STATUS: 'AI 服务返回错误',
+  RATE_LIMIT: 'AI 服务限流或额度不足',
+  EMPTY_RESPONSE: 'AI 未返回内容',
+  PARSE_ERROR: 'AI 返回内容格式错误',
+  ABORTED: '已取消'
+};
+
+export const describeAIError = (error: unknown): string => {
+  if (!(error instanceof AIError)) return error instanceof Error ? error.message : String(error);
+  const status = error.status ? ` (HTTP ${error.status})` : '';
+  return `${REASON_LABELS[error.reason]}${status}: ${error.message}`;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException ? error.name === 'AbortError' : error instanceof Error && error.name === 'AbortError';
+
+// Replies and stream events are untrusted JSON, checked field by field
+export const isJSONObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
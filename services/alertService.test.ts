@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { SignalType, TradeSetup } from '../types';
+import { AlertSettings, DEFAULT_ALERT_SETTINGS, createAlertEngine } from './alertService';
+
+const HOUR = 60 * 60 * 1000;
+
+const setup = (signal: SignalType) => ({ symbol: 'BTCUSDT', interval: '1h', signal, price: 100, densityScore: 1, reason: '' }) as TradeSetup;
+
+const settings: AlertSettings = {
+  ...DEFAULT_ALERT_SETTINGS,
+  rules: [{ id: 'enter-watch', enabled: true, kind: 'transition', from: 'ANY', to: SignalType.WATCH }],
+  cooldownMinutes: 0
+};
+
+describe('createAlertEngine', () => {
+  const engine = () => {
+    const engine = createAlertEngine({ settings, channels: [] });
+    const feed = (signal: SignalType, candleTime: number) =>
+      engine.process([{ symbol: 'BTCUSDT', interval: '1h', setup: setup(signal), candleTime }]).length;
+    return feed;
+  };
+
+  it('takes the first result as the baseline', () => {
+    const feed = engine();
+    expect(feed(SignalType.WATCH, 0)).toBe(0);
+  });
+
+  it('fires a transition once per candle', () => {
+    const feed = engine();
+    feed(SignalType.WAIT, 0);
+    expect(feed(SignalType.WATCH, 0)).toBe(1);
+    feed(SignalType.WAIT, 0);
+    expect(feed(SignalType.WATCH, 0)).toBe(0);
+    feed(SignalType.WAIT, HOUR);
+    expect(feed(SignalType.WATCH, HOUR)).toBe(1);
+  });
+
+  it('still knows the previous candle\'s alerts after moving on', () => {
+    const feed = engine();
+    feed(SignalType.WAIT, 0);
+    feed(SignalType.WATCH, HOUR);
+    feed(SignalType.WAIT, 2 * HOUR);
+    // A late result for the previous candle repeats nothing
+    feed(SignalType.WAIT, HOUR);
+    expect(feed(SignalType.WATCH, HOUR)).toBe(0);
+  });
+});
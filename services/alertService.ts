@@ -0,0 +1,308 @@
+import { TradeSetup, SignalType } from '../types';
+import { StrategyInterval, signalDirection } from './strategyService';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+
+// Diffs consecutive results per symbol/interval against user rules and hands
+// the resulting events to delivery channels (browser notification, webhook, in-app).
+
+// --- Rules ---
+
+interface AlertRuleBase {
+  id: string;
+  enabled: boolean;
+  interval?: StrategyInterval; // Limit the rule to one timeframe, all when unset
+}
+
+export interface TransitionRule extends AlertRuleBase {
+  kind: 'transition';
+  from: SignalType | 'ANY';
+  to: SignalType | 'ANY';
+}
+
+// Six lines contracting below a spread, fires when densityScore crosses under it
+export interface DensityRule extends AlertRuleBase {
+  kind: 'density';
+  threshold: number; // % of price
+}
+
+// Price crossing the stop or target of the previous evaluation
+export interface LevelRule extends AlertRuleBase {
+  kind: 'level';
+  level: 'stopLoss' | 'takeProfit';
+}
+
+export type AlertRule = TransitionRule | DensityRule | LevelRule;
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  interval: StrategyInterval;
+  title: string;
+  message: string;
+  signal: SignalType;
+  price: number;
+  at: number;
+}
+
+export interface WebhookConfig {
+  enabled: boolean;
+  url: string;
+  // 'json' posts the AlertEvent as is, the others shape the body for that service
+  format: 'json' | 'telegram' | 'discord';
+  chatId?: string; // Telegram only
+}
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  cooldownMinutes: number; // Minimum gap between two alerts of one rule for one symbol/interval
+  notifications: boolean;
+  webhook: WebhookConfig;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  rules: [
+    { id: 'enter-watch', enabled: true, kind: 'transition', from: 'ANY', to: SignalType.WATCH },
+    { id: 'watch-long', enabled: true, kind: 'transition', from: SignalType.WATCH, to: SignalType.LONG },
+    { id: 'watch-short', enabled: true, kind: 'transition', from: SignalType.WATCH, to: SignalType.SHORT },
+    { id: 'breakout-long', enabled: true, kind: 'transition', from: 'ANY', to: SignalType.BREAKOUT_LONG },
+    { id: 'breakdown-short', enabled: true, kind: 'transition', from: 'ANY', to: SignalType.BREAKDOWN_SHORT },
+    { id: 'hit-stop', enabled: false, kind: 'level', level: 'stopLoss' },
+    { id: 'hit-target', enabled: false, kind: 'level', level: 'takeProfit' }
+  ],
+  cooldownMinutes: 15,
+  notifications: false,
+  webhook: { enabled: false, url: '', format: 'json' }
+};
+
+export const loadAlertSettings = (): AlertSettings => {
+  const stored = loadJSON<Partial<AlertSettings> | null>(STORAGE_KEYS.alerts, null);
+  return {
+    ...DEFAULT_ALERT_SETTINGS,
+    ...stored,
+    rules: Array.isArray(stored?.rules) ? stored!.rules! : DEFAULT_ALERT_SETTINGS.rules,
+    webhook: { ...DEFAULT_ALERT_SETTINGS.webhook, ...stored?.webhook }
+  };
+};
+
+export const saveAlertSettings = (settings: AlertSettings): void => {
+  saveJSON(STORAGE_KEYS.alerts, settings);
+};
+
+export const createRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const signalName = (signal: SignalType | 'ANY') => (signal === 'ANY' ? '任意' : signal.split(' ')[0]);
+
+export const describeRule = (rule: AlertRule): string => {
+  const scope = rule.interval ? `[${rule.interval.toUpperCase()}] ` : '';
+  switch (rule.kind) {
+    case 'transition':
+      return `${scope}${signalName(rule.from)} → ${signalName(rule.to)}`;
+    case 'density':
+      return `${scope}密集度低于 ${rule.threshold}%`;
+    case 'level':
+      return `${scope}价格触及${rule.level === 'stopLoss' ? '止损' : '止盈'}`;
+  }
+};
+
+// --- Diffing ---
+
+export interface AlertInput {
+  symbol: string;
+  interval: StrategyInterval;
+  setup: TradeSetup | null;
+  candleTime?: number; // Open time of the evaluated candle, one alert per rule per candle
+}
+
+interface Match {
+  title: string;
+  message: string;
+}
+
+// Does `rule` fire between two consecutive results of one series?
+const matchRule = (rule: AlertRule, prev: TradeSetup, next: TradeSetup): Match | null => {
+  const tag = `${next.symbol} ${next.interval.toUpperCase()}`;
+  switch (rule.kind) {
+    case 'transition': {
+      if (prev.signal === next.signal) return null;
+      if (rule.from !== 'ANY' && prev.signal !== rule.from) return null;
+      if (rule.to !== 'ANY' && next.signal !== rule.to) return null;
+      return {
+        title: `${tag} ${signalName(prev.signal)} → ${signalName(next.signal)}`,
+        message: next.reason
+      };
+    }
+    case 'density': {
+      if (!(prev.densityScore >= rule.threshold && next.densityScore < rule.threshold)) return null;
+      return {
+        title: `${tag} 六线密集 ${next.densityScore.toFixed(2)}%`,
+        message: `均线宽度跌破 ${rule.threshold}%，当前信号 ${signalName(next.signal)}`
+      };
+    }
+    case 'level': {
+      // Only directional plans have a meaningful stop and target
+      if (signalDirection(prev.signal) === 0) return null;
+      const level = prev[rule.level];
+      const crossed = (prev.price - level) * (next.price - level) <= 0 && prev.price !== level;
+      if (!crossed) return null;
+      const name = rule.level === 'stopLoss' ? '止损' : '止盈';
+      return {
+        title: `${tag} 触及${name} ${level.toFixed(level < 1 ? 4 : 2)}`,
+        message: `${signalName(prev.signal)}计划的${name}位被价格 ${next.price} 穿越`
+      };
+    }
+  }
+};
+
+// --- Engine ---
+
+export type AlertChannel = (event: AlertEvent) => void | Promise<void>;
+
+export interface AlertEngineOptions {
+  settings: AlertSettings;
+  channels: AlertChannel[];
+  onDeliveryError?: (error: unknown, event: AlertEvent) => void;
+  now?: () => number;
+}
+
+export interface AlertEngine {
+  process: (inputs: AlertInput[]) => AlertEvent[];
+  setSettings: (settings: AlertSettings) => void;
+  // Forget previous results, e.g. after the strategy config changed and every signal was re-scored
+  reset: () => void;
+}
+
+export const createAlertEngine = (options: AlertEngineOptions): AlertEngine => {
+  const { channels, onDeliveryError, now = Date.now } = options;
+  let settings = options.settings;
+  const last = new Map<string, TradeSetup | null>();
+  const lastFired = new Map<string, number>(); // rule/series -> time, for cooldowns
+  // Alerts delivered per series, for de-duplication. Only the current and the previous
+  // candle are kept, an alert can't repeat on a candle that is already over.
+  const delivered = new Map<string, { candleTime: number | undefined; keys: Set<string> }[]>();
+  let counter = 0;
+
+  const wasDelivered = (seriesKey: string, key: string) =>
+    (delivered.get(seriesKey) ?? []).some(candle => candle.keys.has(key));
+
+  const markDelivered = (seriesKey: string, candleTime: number | undefined, key: string) => {
+    const candles = delivered.get(seriesKey) ?? [];
+    let candle = candles.find(c => c.candleTime === candleTime);
+    if (!candle) {
+      candle = { candleTime, keys: new Set() };
+      candles.push(candle);
+    }
+    candle.keys.add(key);
+    delivered.set(seriesKey, candles.slice(-2));
+  };
+
+  const deliver = (event: AlertEvent) => {
+    channels.forEach(channel => {
+      try {
+        Promise.resolve(channel(event)).catch(error => onDeliveryError?.(error, event));
+      } catch (error) {
+        onDeliveryError?.(error, event);
+      }
+    });
+  };
+
+  const process = (inputs: AlertInput[]): AlertEvent[] => {
+    const events: AlertEvent[] = [];
+    const t = now();
+    inputs.forEach(({ symbol, interval, setup, candleTime }) => {
+      const seriesKey = `${symbol}:${interval}`;
+      const hadPrevious = last.has(seriesKey);
+      const prev = last.get(seriesKey) ?? null;
+      last.set(seriesKey, setup);
+      // The first result of a series is the baseline, not a change
+      if (!hadPrevious || !prev || !setup) return;
+
+      settings.rules.forEach(rule => {
+        if (!rule.enabled || (rule.interval && rule.interval !== interval)) return;
+        const match = matchRule(rule, prev, setup);
+        if (!match) return;
+
+        const ruleKey = `${rule.id}:${seriesKey}`;
+        const dedupeKey = `${ruleKey}:${candleTime ?? ''}:${match.title}`;
+        if (wasDelivered(seriesKey, dedupeKey)) return;
+        const firedAt = lastFired.get(ruleKey);
+        if (firedAt !== undefined && t - firedAt < settings.cooldownMinutes * 60000) return;
+
+        markDelivered(seriesKey, candleTime, dedupeKey);
+        lastFired.set(ruleKey, t);
+        events.push({
+          id: `alert-${t.toString(36)}-${(counter++).toString(36)}`,
+          ruleId: rule.id,
+          symbol,
+          interval,
+          title: match.title,
+          message: match.message,
+          signal: setup.signal,
+          price: setup.price,
+          at: t
+        });
+      });
+    });
+    events.forEach(deliver);
+    return events;
+  };
+
+  return {
+    process,
+    setSettings: next => { settings = next; },
+    reset: () => { last.clear(); }
+  };
+};
+
+// --- Channels ---
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+export const createNotificationChannel = (): AlertChannel => event => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  // Same tag replaces an older notification of the series instead of stacking
+  new Notification(event.title, { body: event.message, tag: `${event.symbol}:${event.interval}` });
+};
+
+const webhookBody = (config: WebhookConfig, event: AlertEvent): unknown => {
+  const text = `${event.title}\n${event.message}`;
+  switch (config.format) {
+    case 'telegram':
+      return { chat_id: config.chatId, text };
+    case 'discord':
+      return { content: text };
+    default:
+      return event;
+  }
+};
+
+// `fetchImpl` lets tests point delivery at a local stub without a browser
+export const createWebhookChannel = (config: WebhookConfig, fetchImpl: typeof fetch = fetch): AlertChannel =>
+  async event => {
+    if (!config.enabled || !config.url) return;
+    const response = await fetchImpl(config.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(webhookBody(config, event))
+    });
+    if (!response.ok) throw new Error(`Webhook returned HTTP ${response.status}`);
+  };
+
+// Sample event for the "send test" button
+export const createTestAlert = (): AlertEvent => ({
+  id: `alert-test-${Date.now().toString(36)}`,
+  ruleId: 'test',
+  symbol: 'BTCUSDT',
+  interval: '1h',
+  title: 'BTCUSDT 1H 测试提醒',
+  message: '这是一条测试消息，用于确认提醒通道配置正确。',
+  signal: SignalType.WATCH,
+  price: 0,
+  at: Date.now()
+});
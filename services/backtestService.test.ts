@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { BacktestTrade, Kline, SignalType } from '../types';
+import { checkExit, computeBacktestStats, runBacktest, runBacktestSuite } from './backtestService';
+import { parseKline } from './indicators';
+
+const HOUR = 60 * 60 * 1000;
+
+// A slow rise, a sharp rally and a slide, with a wave on top so the lines
+// separate and price crosses them: one long and one short setup
+const makeKlines = (count = 400): Kline[] =>
+  Array.from({ length: count }, (_, i) => {
+    const trend = i < 200 ? 100 + i * 0.2 : i < 260 ? 140 + (i - 200) * 0.8 : 188 - (i - 260) * 0.6;
+    const close = trend + Math.sin(i / 3) * 1.5;
+    const open = trend + Math.sin((i - 1) / 3) * 1.5;
+    return {
+      openTime: i * HOUR,
+      open: String(open),
+      high: String(Math.max(open, close) + 0.5),
+      low: String(Math.min(open, close) - 0.5),
+      close: String(close),
+      volume: '100',
+      closeTime: (i + 1) * HOUR - 1
+    };
+  });
+
+const trade = (rMultiple: number, pnlPct: number): BacktestTrade => ({
+  symbol: 'TEST', interval: '1h', direction: 'LONG', signal: SignalType.LONG,
+  entryTime: 0, entryPrice: 100, stopLoss: 99, takeProfit: 102, exitTime: 1, exitPrice: 100,
+  exitReason: 'TAKE_PROFIT', barsHeld: 1, rMultiple, pnlPct
+});
+
+describe('runBacktest', () => {
+  const klines = makeKlines();
+  const report = runBacktest('TEST', '1h', klines, { feeRate: 0.0004 });
+
+  it('trades the rally and the slide to their targets', () => {
+    expect(report.trades.map(t => [t.direction, t.exitReason])).toEqual([
+      ['LONG', 'TAKE_PROFIT'],
+      ['SHORT', 'TAKE_PROFIT']
+    ]);
+    report.trades.forEach(t => {
+      expect(t.exitPrice).toBe(t.takeProfit);
+      expect(t.exitTime).toBeGreaterThan(t.entryTime);
+      expect(t.rMultiple).toBeCloseTo(2);
+    });
+    expect(report.stats.wins).toBe(2);
+  });
+
+  it('charges the fee on both sides', () => {
+    const gross = runBacktest('TEST', '1h', klines, { feeRate: 0 });
+    gross.trades.forEach((t, i) => expect(report.trades[i].pnlPct).toBeCloseTo(t.pnlPct - 0.08));
+  });
+
+  it('counts the bars after the warm-up', () => {
+    expect(report.barsTested).toBe(251);
+  });
+
+  it('marks a position still open at the end to the last close', () => {
+    const cut = klines.slice(0, 215);
+    const open = runBacktest('TEST', '1h', cut);
+    const last = open.trades[open.trades.length - 1];
+    expect(last.exitReason).toBe('END_OF_DATA');
+    expect(last.exitPrice).toBe(parseKline(cut[cut.length - 1]).close);
+  });
+
+  it('rolls every series up in the suite', () => {
+    const suite = runBacktestSuite([
+      { symbol: 'A', interval: '1h', klines },
+      { symbol: 'B', interval: '1h', klines }
+    ]);
+    expect(suite.reports).toHaveLength(2);
+    expect(suite.overall.trades).toBe(suite.reports[0].trades.length * 2);
+  });
+});
+
+describe('checkExit', () => {
+  const levels = { stopLoss: 95, takeProfit: 110 };
+  const bar = (open: number, high: number, low: number, close: number) =>
+    ({ openTime: 0, open, high, low, close, volume: 0, closeTime: 0 });
+
+  it('fills a gap through a level at the open', () => {
+    expect(checkExit(levels, 'LONG', bar(94, 96, 93, 95), 'ohlc-path')).toEqual({ price: 94, reason: 'STOP_LOSS' });
+  });
+
+  it('resolves a bar touching both levels by its path or the worst case', () => {
+    expect(checkExit(levels, 'LONG', bar(100, 111, 94, 98), 'ohlc-path')?.reason).toBe('TAKE_PROFIT');
+    expect(checkExit(levels, 'LONG', bar(100, 111, 94, 105), 'ohlc-path')?.reason).toBe('STOP_LOSS');
+    expect(checkExit(levels, 'LONG', bar(100, 111, 94, 98), 'stop-first')?.reason).toBe('STOP_LOSS');
+  });
+});
+
+describe('computeBacktestStats', () => {
+  it('counts a trade that fees turned red as a loss', () => {
+    const stats = computeBacktestStats([trade(2, 3), trade(0.02, -0.05), trade(-1, -1.5)]);
+    expect(stats.wins).toBe(1);
+    expect(stats.losses).toBe(2);
+    expect(stats.profitFactor).toBeCloseTo(3 / 1.55);
+    expect(stats.avgLossR).toBeCloseTo(-0.49);
+  });
+});
@@ -0,0 +1,223 @@
+import { Kline, SignalType, TradeSetup, TradeDirection, BacktestTrade, BacktestStats, BacktestReport, ExitReason, StrategyConfig } from '../types';
+import {
+  StrategyInterval, getMinKlines, DEFAULT_STRATEGY_CONFIG, signalDirection,
+  createSixLineState, advanceSixLine, readSixLine, scoreSnapshot
+} from './strategyService';
+import { Candle, parseKlines } from './indicators';
+
+export interface BacktestOptions {
+  // Strategy parameters used to score every bar
+  strategy: StrategyConfig;
+  // Signals that are allowed to open a position. WATCH trades the headline levels it is given,
+  // on the side price leans towards.
+  entrySignals: SignalType[];
+  // Only enter when the signal changes, instead of re-entering every bar the signal persists
+  entryOnTransitionOnly: boolean;
+  // How to resolve a bar whose range touches both SL and TP:
+  // 'ohlc-path' assumes O->L->H->C for up bars and O->H->L->C for down bars,
+  // 'stop-first' always assumes the worst case
+  intrabarPolicy: 'ohlc-path' | 'stop-first';
+  // Fee charged per side as a fraction (0.0004 = 0.04%)
+  feeRate: number;
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  strategy: DEFAULT_STRATEGY_CONFIG,
+  entrySignals: [SignalType.LONG, SignalType.SHORT, SignalType.BREAKOUT_LONG, SignalType.BREAKDOWN_SHORT],
+  entryOnTransitionOnly: true,
+  intrabarPolicy: 'ohlc-path',
+  feeRate: 0
+};
+
+interface OpenPosition {
+  setup: TradeSetup;
+  direction: TradeDirection;
+  entryIndex: number;
+  entryTime: number;
+}
+
+// Trend signals trade their own side, WATCH follows the side its stop is on
+export const directionOf = (setup: Pick<TradeSetup, 'signal' | 'entryPrice' | 'stopLoss'>): TradeDirection => {
+  const sign = signalDirection(setup.signal);
+  if (sign !== 0) return sign > 0 ? 'LONG' : 'SHORT';
+  return setup.stopLoss > setup.entryPrice ? 'SHORT' : 'LONG';
+};
+
+// Decide whether the bar closes a position with these levels and at which price.
+// Shared with the signal journal, which resolves live signals the same way.
+export const checkExit = (
+  levels: Pick<TradeSetup, 'stopLoss' | 'takeProfit'>,
+  direction: TradeDirection,
+  bar: Candle,
+  policy: BacktestOptions['intrabarPolicy']
+): { price: number; reason: ExitReason } | null => {
+  const { stopLoss, takeProfit } = levels;
+  const { open, high, low, close } = bar;
+  const isLong = direction === 'LONG';
+
+  // Gaps through a level fill at the open, not at the level
+  if (isLong ? open <= stopLoss : open >= stopLoss) return { price: open, reason: 'STOP_LOSS' };
+  if (isLong ? open >= takeProfit : open <= takeProfit) return { price: open, reason: 'TAKE_PROFIT' };
+
+  const hitStop = isLong ? low <= stopLoss : high >= stopLoss;
+  const hitTarget = isLong ? high >= takeProfit : low <= takeProfit;
+
+  if (hitStop && hitTarget) {
+    if (policy === 'stop-first') return { price: stopLoss, reason: 'STOP_LOSS' };
+    // Up bar: low printed before high. Down bar: high printed before low.
+    const lowFirst = close >= open;
+    const stopFirst = isLong ? lowFirst : !lowFirst;
+    return stopFirst
+      ? { price: stopLoss, reason: 'STOP_LOSS' }
+      : { price: takeProfit, reason: 'TAKE_PROFIT' };
+  }
+  if (hitStop) return { price: stopLoss, reason: 'STOP_LOSS' };
+  if (hitTarget) return { price: takeProfit, reason: 'TAKE_PROFIT' };
+  return null;
+};
+
+const closePosition = (
+  position: OpenPosition,
+  exitIndex: number,
+  exitBar: Candle,
+  exit: { price: number; reason: ExitReason },
+  feeRate: number
+): BacktestTrade => {
+  const { setup, direction } = position;
+  const sign = direction === 'LONG' ? 1 : -1;
+  const risk = Math.abs(setup.entryPrice - setup.stopLoss);
+  const move = (exit.price - setup.entryPrice) * sign;
+
+  return {
+    symbol: setup.symbol,
+    interval: setup.interval,
+    direction,
+    signal: setup.signal,
+    entryTime: position.entryTime,
+    entryPrice: setup.entryPrice,
+    stopLoss: setup.stopLoss,
+    takeProfit: setup.takeProfit,
+    exitTime: exitBar.closeTime,
+    exitPrice: exit.price,
+    exitReason: exit.reason,
+    barsHeld: exitIndex - position.entryIndex,
+    rMultiple: risk > 0 ? move / risk : 0,
+    pnlPct: (move / setup.entryPrice) * 100 - feeRate * 2 * 100
+  };
+};
+
+// Wins and losses are told apart by the net return, so a trade that only fees turned red is a loss
+export const computeBacktestStats = (trades: BacktestTrade[]): BacktestStats => {
+  const wins = trades.filter(t => t.pnlPct > 0);
+  const losses = trades.filter(t => t.pnlPct <= 0);
+  const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+  const totalR = sum(trades.map(t => t.rMultiple));
+  const grossWinPct = sum(wins.map(t => t.pnlPct));
+  const grossLossPct = Math.abs(sum(losses.map(t => t.pnlPct)));
+
+  // Drawdowns are measured in trade order on both the R curve and compounded equity
+  let cumR = 0, peakR = 0, maxDrawdownR = 0;
+  let equity = 1, peakEquity = 1, maxDrawdownPct = 0;
+  for (const trade of trades) {
+    cumR += trade.rMultiple;
+    peakR = Math.max(peakR, cumR);
+    maxDrawdownR = Math.max(maxDrawdownR, peakR - cumR);
+
+    equity *= 1 + trade.pnlPct / 100;
+    peakEquity = Math.max(peakEquity, equity);
+    maxDrawdownPct = Math.max(maxDrawdownPct, (peakEquity - equity) / peakEquity * 100);
+  }
+
+  return {
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length ? (wins.length / trades.length) * 100 : 0,
+    avgR: trades.length ? totalR / trades.length : 0,
+    avgWinR: wins.length ? sum(wins.map(t => t.rMultiple)) / wins.length : 0,
+    avgLossR: losses.length ? sum(losses.map(t => t.rMultiple)) / losses.length : 0,
+    totalR,
+    expectancyPct: trades.length ? sum(trades.map(t => t.pnlPct)) / trades.length : 0,
+    profitFactor: grossLossPct > 0 ? grossWinPct / grossLossPct : (grossWinPct > 0 ? Infinity : 0),
+    maxDrawdownR,
+    maxDrawdownPct
+  };
+};
+
+// Walk the series bar by bar, evaluating the strategy on the candles known at each close.
+// Indicators are advanced incrementally, so a run is a single O(n) pass.
+// Entries fill at the signal bar's close; exits are checked from the next bar onwards.
+export const runBacktest = (
+  symbol: string,
+  interval: StrategyInterval,
+  klines: Kline[],
+  options: Partial<BacktestOptions> = {}
+): BacktestReport => {
+  const opts: BacktestOptions = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+  const trades: BacktestTrade[] = [];
+  let position: OpenPosition | null = null;
+  let previousSignal: SignalType | null = null;
+  const minKlines = getMinKlines(opts.strategy);
+  const candles = parseKlines(klines);
+  const indicators = createSixLineState(opts.strategy);
+
+  for (let i = 0; i < candles.length; i++) {
+    const bar = candles[i];
+
+    if (position) {
+      const exit = checkExit(position.setup, position.direction, bar, opts.intrabarPolicy);
+      if (exit) {
+        trades.push(closePosition(position, i, bar, exit, opts.feeRate));
+        position = null;
+      }
+    }
+
+    const snapshot = readSixLine(indicators, bar);
+    advanceSixLine(indicators, bar);
+    const setup = snapshot && scoreSnapshot(snapshot, opts.strategy, { symbol, interval });
+    if (!setup) continue;
+
+    const isNewSignal = setup.signal !== previousSignal;
+    previousSignal = setup.signal;
+
+    if (position || !opts.entrySignals.includes(setup.signal)) continue;
+    if (opts.entryOnTransitionOnly && !isNewSignal) continue;
+
+    const direction = directionOf(setup);
+    // Skip degenerate levels (e.g. SL on the wrong side of price)
+    const validLevels = direction === 'LONG'
+      ? setup.stopLoss < setup.entryPrice && setup.takeProfit > setup.entryPrice
+      : setup.stopLoss > setup.entryPrice && setup.takeProfit < setup.entryPrice;
+    if (!validLevels) continue;
+
+    position = { setup, direction, entryIndex: i, entryTime: bar.closeTime };
+  }
+
+  // Mark any still-open position to the final close so it shows up in the stats
+  if (position && candles.length > 0) {
+    const lastIndex = candles.length - 1;
+    const lastBar = candles[lastIndex];
+    trades.push(closePosition(position, lastIndex, lastBar, { price: lastBar.close, reason: 'END_OF_DATA' }, opts.feeRate));
+  }
+
+  return {
+    symbol,
+    interval,
+    barsTested: Math.max(0, klines.length - (minKlines - 1)),
+    trades,
+    stats: computeBacktestStats(trades)
+  };
+};
+
+// Run several symbol/interval series and add an "ALL" roll-up of every trade.
+export const runBacktestSuite = (
+  series: { symbol: string; interval: StrategyInterval; klines: Kline[] }[],
+  options: Partial<BacktestOptions> = {}
+): { reports: BacktestReport[]; overall: BacktestStats } => {
+  const reports = series.map(s => runBacktest(s.symbol, s.interval, s.klines, options));
+  const allTrades = reports
+    .flatMap(r => r.trades)
+    .sort((a, b) => a.exitTime - b.exitTime);
+  return { reports, overall: computeBacktestStats(allTrades) };
+};
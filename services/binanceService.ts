@@ -1,4 +1,5 @@
-import { Kline, TradeSetup, SignalType, MASet } from '../types';
+import { FuturesContext, Kline, SymbolFilters, SymbolInfo, Ticker24h } from '../types';
+import { MarketDataProvider, MarketDataError, FetchAttempt, recordFetch } from './marketDataProvider';
 
 // Helper to format raw Binance data
 const mapData = (data: any[]): Kline[] => {
@@ -14,261 +15,307 @@ const mapData = (data: any[]): Kline[] => {
   }));
 };
 
-// Fetch candles with interval support
-export const fetchKlines = async (symbol: string, interval: string, limit: number = 300): Promise<Kline[]> => {
-  // Use unique timestamp to prevent caching
-  const ts = Date.now();
-  const binanceUrl = `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`;
-  const dataApiUrl = `https://data-api.binance.vision/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`;
+// Spot and USDⓈ-M futures share the REST and WebSocket formats and differ only in hosts and limits
+export type BinanceMarket = 'spot' | 'futures';
 
-  // Define strategies in order of preference
-  const strategies = [
-    {
-      name: 'Binance Data API (Direct)',
-      getUrl: () => `${dataApiUrl}&_t=${ts}`,
-      useHeaders: true
-    },
-    {
-      name: 'CodeTabs Proxy',
-      getUrl: () => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(binanceUrl)}`,
-      useHeaders: false
-    },
-    {
-      name: 'CORS Proxy (corsproxy.io)',
-      getUrl: () => `https://corsproxy.io/?${encodeURIComponent(binanceUrl)}`,
-      useHeaders: false
-    },
-    {
-      name: 'AllOrigins (Raw)',
-      getUrl: () => `https://api.allorigins.win/raw?url=${encodeURIComponent(binanceUrl)}`,
-      useHeaders: false
-    },
-    {
-        name: 'AllOrigins (JSON)',
-        getUrl: () => `https://api.allorigins.win/get?url=${encodeURIComponent(binanceUrl)}`,
-        isJsonWrapper: true,
-        useHeaders: false
-    }
-  ];
+export interface BinanceEndpoints {
+  source: 'binance-spot' | 'binance-futures';
+  label: string;
+  restUrl: string; // Canonical host, the one the backend proxy forwards to
+  directUrl: string; // Host tried first from the browser
+  proxyPath: string; // Same-origin route of the backend proxy (server/binanceProxy.ts)
+  apiPrefix: string;
+  streamUrl: string;
+  weightLimit1m: number;
+}
 
-  for (const strategy of strategies) {
-    try {
-      const url = strategy.getUrl();
-      const options: RequestInit = { method: 'GET' };
-      
-      // Only add headers if the strategy supports it (direct usually does, proxies often fail preflight with custom headers)
-      if (strategy.useHeaders) {
-          options.headers = {
-              'Cache-Control': 'no-cache',
-              'Pragma': 'no-cache'
-          };
-      }
+export const BINANCE_ENDPOINTS: Record<BinanceMarket, BinanceEndpoints> = {
+  spot: {
+    source: 'binance-spot',
+    label: 'Binance 现货',
+    restUrl: 'https://api.binance.com',
+    directUrl: 'https://data-api.binance.vision',
+    proxyPath: '/api/binance/spot',
+    apiPrefix: '/api/v3',
+    streamUrl: 'wss://stream.binance.com:9443',
+    weightLimit1m: 6000
+  },
+  futures: {
+    source: 'binance-futures',
+    label: 'Binance U本位合约',
+    restUrl: 'https://fapi.binance.com',
+    directUrl: 'https://fapi.binance.com',
+    proxyPath: '/api/binance/futures',
+    apiPrefix: '/fapi/v1',
+    streamUrl: 'wss://fstream.binance.com',
+    weightLimit1m: 2400
+  }
+};
 
-      const response = await fetch(url, options);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      let data = await response.json();
-
-      // Handle AllOrigins JSON wrapper
-      if (strategy.isJsonWrapper && data.contents) {
-          try {
-            data = JSON.parse(data.contents);
-          } catch(e) {
-             throw new Error("Failed to parse inner JSON from AllOrigins");
-          }
-      }
-      
-      // Basic validation to ensure we got an array
-      if (Array.isArray(data) && data.length > 0) {
-        return mapData(data);
-      } else if (data.code && data.msg) {
-         throw new Error(`API Error: ${data.msg}`);
-      } else {
-        throw new Error('Invalid data format received');
-      }
-    } catch (error) {
-       // Silent fail to try next strategy
-    }
+// --- Request weight tracking ---
+// Binance reports the IP's weight used in the current minute on every response,
+// the backend proxy passes on its own IP's. The scan scheduler reads this to
+// throttle before hitting 429/418.
+
+export interface RateLimitState {
+  usedWeight1m: number | null; // Null until a response exposed the header
+  weightLimit1m: number; // Limit of the host that reported usedWeight1m
+  updatedAt: number;
+  bannedUntil: number | null; // Set from Retry-After on 429 (rate limited) / 418 (IP banned)
+}
+
+// Thrown instead of falling back to proxies, so callers back off rather than retry elsewhere
+export class RateLimitError extends MarketDataError {
+  constructor(status: number, public retryAfterMs: number) {
+    super(`Binance rate limit hit (HTTP ${status}), retry after ${Math.round(retryAfterMs / 1000)}s`, 'RATE_LIMIT', [], status);
+    this.name = 'RateLimitError';
   }
+}
 
-  console.error(`All fetch strategies failed for ${symbol} ${interval}.`);
-  return [];
+let rateLimitState: RateLimitState = {
+  usedWeight1m: null, weightLimit1m: BINANCE_ENDPOINTS.spot.weightLimit1m, updatedAt: 0, bannedUntil: null
 };
+const rateLimitListeners = new Set<(state: RateLimitState) => void>();
 
-const calculateEMA = (klines: Kline[], period: number): number[] => {
-  if (klines.length < period) return [];
-  const k = 2 / (period + 1);
-  let emaArray: number[] = [];
-  
-  // Initial SMA as first EMA
-  let sum = 0;
-  for (let i = 0; i < period; i++) {
-    sum += parseFloat(klines[i].close);
-  }
-  let previousEma = sum / period;
-  // Fill initial undefined periods to align array indices
-  for(let i=0; i<period-1; i++) emaArray.push(0); 
-  emaArray.push(previousEma);
-
-  for (let i = period; i < klines.length; i++) {
-    const close = parseFloat(klines[i].close);
-    const currentEma = close * k + previousEma * (1 - k);
-    emaArray.push(currentEma);
-    previousEma = currentEma;
-  }
-  return emaArray;
+const updateRateLimit = (patch: Partial<RateLimitState>) => {
+  rateLimitState = { ...rateLimitState, ...patch, updatedAt: Date.now() };
+  rateLimitListeners.forEach(listener => listener(rateLimitState));
 };
 
-const calculateSMA = (klines: Kline[], period: number): number[] => {
-  if (klines.length < period) return [];
-  let smaArray: number[] = [];
-  
-  // Pad beginning
-  for(let i=0; i<period-1; i++) smaArray.push(0);
-
-  for (let i = period - 1; i < klines.length; i++) {
-    let sum = 0;
-    for (let j = 0; j < period; j++) {
-      sum += parseFloat(klines[i - j].close);
-    }
-    smaArray.push(sum / period);
-  }
-  return smaArray;
+export const getRateLimitState = (): RateLimitState => rateLimitState;
+
+export const subscribeRateLimit = (listener: (state: RateLimitState) => void): (() => void) => {
+  rateLimitListeners.add(listener);
+  return () => { rateLimitListeners.delete(listener); };
 };
 
-const calculateATR = (klines: Kline[], period: number = 14): number => {
-  if (klines.length < period + 1) return 0;
-  let trSum = 0;
-  for (let i = klines.length - period; i < klines.length; i++) {
-    const high = parseFloat(klines[i].high);
-    const low = parseFloat(klines[i].low);
-    const prevClose = parseFloat(klines[i-1].close);
-    const tr = Math.max(
-      high - low,
-      Math.abs(high - prevClose),
-      Math.abs(low - prevClose)
-    );
-    trSum += tr;
+const trackResponseWeight = (response: Response, endpoints: BinanceEndpoints) => {
+  const used = response.headers.get('x-mbx-used-weight-1m');
+  if (used !== null && !Number.isNaN(parseInt(used, 10))) {
+    updateRateLimit({ usedWeight1m: parseInt(used, 10), weightLimit1m: endpoints.weightLimit1m });
+  }
+  if (response.status === 429 || response.status === 418) {
+    const retryAfterSec = parseInt(response.headers.get('retry-after') ?? '', 10);
+    // Without a header wait for the next minute window (429) or much longer for a ban (418)
+    const retryAfterMs = Number.isNaN(retryAfterSec) ? (response.status === 418 ? 120000 : 60000) : retryAfterSec * 1000;
+    updateRateLimit({ bannedUntil: Date.now() + retryAfterMs });
+    throw new RateLimitError(response.status, retryAfterMs);
   }
-  return trSum / period;
 };
 
-const analyzeInterval = async (symbol: string, interval: '1h' | '4h'): Promise<TradeSetup | null> => {
-  const klines = await fetchKlines(symbol, interval);
-  if (klines.length < 150) return null;
-
-  const currentPrice = parseFloat(klines[klines.length - 1].close);
-  const atr = calculateATR(klines, 14);
-
-  // Calculate the 6 lines
-  const ma20Arr = calculateSMA(klines, 20);
-  const ma60Arr = calculateSMA(klines, 60);
-  const ma120Arr = calculateSMA(klines, 120);
-  const ema20Arr = calculateEMA(klines, 20);
-  const ema60Arr = calculateEMA(klines, 60);
-  const ema120Arr = calculateEMA(klines, 120);
-
-  const mas: MASet = {
-    ma20: ma20Arr[ma20Arr.length - 1],
-    ma60: ma60Arr[ma60Arr.length - 1],
-    ma120: ma120Arr[ma120Arr.length - 1],
-    ema20: ema20Arr[ema20Arr.length - 1],
-    ema60: ema60Arr[ema60Arr.length - 1],
-    ema120: ema120Arr[ema120Arr.length - 1],
+// Explain why a response was not usable
+const describeFailure = (strategy: string, response: Response, data: any): FetchAttempt => {
+  if (data && typeof data.code === 'number' && typeof data.msg === 'string') {
+    return { strategy, reason: 'API_ERROR', message: data.msg, status: response.status, apiCode: data.code };
+  }
+  if (!response.ok) {
+    return { strategy, reason: 'HTTP_STATUS', message: `HTTP ${response.status}`, status: response.status };
+  }
+  return {
+    strategy,
+    reason: 'PARSE_ERROR',
+    message: data === undefined ? 'Response is not JSON' : 'Unexpected response shape',
+    status: response.status
   };
+};
+
+// The backend proxy only exists where the page was served from, the command line talks to Binance directly
+const hasLocalProxy = () => typeof window !== 'undefined';
+
+// Fetch a public Binance REST endpoint, falling back to the app's backend proxy
+// when the browser cannot reach Binance (CORS, regional blocks).
+// `path` includes the query string, e.g. "/api/v3/klines?symbol=BTCUSDT".
+// Throws MarketDataError listing every strategy's failure when none succeeded;
+// a 429/418 throws RateLimitError right away. The proxy forwards Binance's
+// weight header and answers 429 itself while its IP is limited.
+const fetchBinanceJson = async <T>(
+  endpoints: BinanceEndpoints,
+  path: string,
+  isValid: (data: any) => boolean,
+  request: string
+): Promise<T> => {
+  const directUrl = `${endpoints.directUrl}${path}`;
+  const started = Date.now();
+
+  // Define strategies in order of preference. The proxy caches, so no timestamp there.
+  const strategies = [
+    {
+      name: 'Binance (Direct)',
+      getUrl: () => directUrl,
+      direct: true
+    },
+    ...(hasLocalProxy() ? [{
+      name: 'Backend proxy',
+      getUrl: () => `${endpoints.proxyPath}${path}`,
+      direct: false
+    }] : [])
+  ];
+
+  const attempts: FetchAttempt[] = [];
+  const report = (strategy: string | null, error?: MarketDataError) =>
+    recordFetch({ source: endpoints.source, request, strategy, durationMs: Date.now() - started, at: Date.now(), error });
+
+  for (const strategy of strategies) {
+    // Only bypass caches on the direct call, the proxy's cache is what spares the weight.
+    // A fetch option rather than Cache-Control headers, which would cost a CORS preflight per request.
+    const options: RequestInit = { method: 'GET', cache: strategy.direct ? 'no-store' : 'default' };
 
-  if (!mas.ma120 || !mas.ema120) return null;
-
-  // --- 1. Density Calculation ---
-  const allValues = Object.values(mas);
-  const maxVal = Math.max(...allValues);
-  const minVal = Math.min(...allValues);
-  const spread = maxVal - minVal;
-  const densityScore = (spread / currentPrice) * 100;
-
-  // --- 2. Price Deviation ---
-  const averageMA = allValues.reduce((sum, val) => sum + val, 0) / allValues.length;
-  const priceDeviation = Math.abs(currentPrice - averageMA) / currentPrice * 100;
-
-  // Thresholds (Slightly looser for 1H might be needed, but keeping consistent for now)
-  const DENSE_THRESHOLD = 2.0; 
-  const PRICE_DEV_THRESHOLD = 3.0;
-
-  const isDense = (densityScore < DENSE_THRESHOLD) && (priceDeviation < PRICE_DEV_THRESHOLD);
-
-  let signal = SignalType.WAIT;
-  let reason = `[${interval}] 均线发散，无明确形态`;
-
-  const isBullishAlignment = mas.ma20 > mas.ma60 && mas.ma60 > mas.ma120;
-  const isBearishAlignment = mas.ma20 < mas.ma60 && mas.ma60 < mas.ma120;
-
-  if (isDense) {
-    signal = SignalType.WATCH;
-    reason = `[${interval}] 6线高度密集 (宽${densityScore.toFixed(2)}%) 且价格在均线附近，关注变盘。`;
-  } else {
-    if (isBullishAlignment && currentPrice > maxVal) {
-      signal = SignalType.LONG;
-      reason = `[${interval}] 均线多头排列且价格站上所有均线。`;
-    } else if (isBearishAlignment && currentPrice < minVal) {
-      signal = SignalType.SHORT;
-      reason = `[${interval}] 均线空头排列且价格跌破所有均线。`;
-    } else if (densityScore < DENSE_THRESHOLD && priceDeviation >= PRICE_DEV_THRESHOLD) {
-       signal = SignalType.WAIT;
-       reason = `[${interval}] 均线密集但价格偏离过大 (${priceDeviation.toFixed(2)}%)。`;
+    let response: Response;
+    try {
+      response = await fetch(strategy.getUrl(), options);
+    } catch (error) {
+      attempts.push({ strategy: strategy.name, reason: 'NETWORK', message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    try {
+      trackResponseWeight(response, endpoints);
+    } catch (error) {
+      report(null, error as RateLimitError);
+      throw error;
+    }
+
+    let data: any;
+    try {
+      data = await response.json();
+    } catch (error) {
+      data = undefined;
+    }
+
+    if (response.ok && data !== undefined && isValid(data)) {
+      report(strategy.name);
+      return data as T;
     }
-  }
 
-  // Calculate SL/TP
-  let stopLoss = 0;
-  let takeProfit = 0;
-  const slBuffer = atr * 2; 
-
-  if (signal === SignalType.LONG || signal === SignalType.WATCH) {
-    stopLoss = minVal - slBuffer; 
-    takeProfit = currentPrice + (currentPrice - stopLoss) * 2; 
-  } else {
-    stopLoss = maxVal + slBuffer; 
-    takeProfit = currentPrice - (stopLoss - currentPrice) * 2;
+    const attempt = describeFailure(strategy.name, response, data);
+    attempts.push(attempt);
+    // The exchange itself rejected the request (bad symbol, bad interval...): a proxy won't change that
+    if (attempt.reason === 'API_ERROR' && attempt.status !== undefined && attempt.status >= 400 && attempt.status < 500) break;
   }
 
+  const primary = attempts.find(a => a.reason === 'API_ERROR') ?? attempts[0];
+  const error = new MarketDataError(
+    `${request} failed: ${attempts.map(a => `${a.strategy}: ${a.message}`).join('; ')}`,
+    primary.reason,
+    attempts,
+    primary.status,
+    primary.apiCode
+  );
+  report(null, error);
+  throw error;
+};
+
+// Spot reports the order value limit as NOTIONAL (older symbols MIN_NOTIONAL.minNotional),
+// futures as MIN_NOTIONAL.notional
+const parseSymbolFilters = (filters: any[] | undefined): SymbolFilters | undefined => {
+  if (!Array.isArray(filters)) return undefined;
+  const byType = (type: string) => filters.find(f => f.filterType === type);
+  const price = byType('PRICE_FILTER');
+  const lot = byType('LOT_SIZE');
+  if (!price || !lot) return undefined;
+  const notional = byType('NOTIONAL') ?? byType('MIN_NOTIONAL');
   return {
-    symbol,
-    interval,
-    price: currentPrice,
-    mas,
-    densityScore,
-    priceDeviation,
-    atr,
-    signal,
-    entryPrice: currentPrice,
-    stopLoss,
-    takeProfit,
-    isDense,
-    reason
+    tickSize: parseFloat(price.tickSize),
+    stepSize: parseFloat(lot.stepSize),
+    minQty: parseFloat(lot.minQty),
+    maxQty: parseFloat(lot.maxQty),
+    minNotional: parseFloat(notional?.minNotional ?? notional?.notional ?? '0')
   };
 };
 
-// Main Export: dual timeframe analysis
-export const analyzeSymbol = async (symbol: string): Promise<TradeSetup | null> => {
-  // Parallel fetch for speed, but error handled individually inside
-  const [setup4h, setup1h] = await Promise.all([
-    analyzeInterval(symbol, '4h'),
-    analyzeInterval(symbol, '1h')
+// Perpetual positioning always comes from the futures API, spot candles included:
+// the same coin is usually traded as a perp. premiumIndex weighs 1, the
+// /futures/data endpoints are limited by request count per IP instead.
+const fetchFuturesContext = async (symbol: string): Promise<FuturesContext> => {
+  const endpoints = BINANCE_ENDPOINTS.futures;
+  const premium = await fetchBinanceJson<any>(
+    endpoints,
+    `/fapi/v1/premiumIndex?symbol=${symbol}`,
+    d => typeof d?.lastFundingRate === 'string',
+    `${symbol} premiumIndex`
+  );
+  const [history, ratios] = await Promise.all([
+    // 25 hourly points span the last 24h
+    fetchBinanceJson<any[]>(endpoints, `/futures/data/openInterestHist?symbol=${symbol}&period=1h&limit=25`, d => Array.isArray(d), `${symbol} openInterestHist`),
+    fetchBinanceJson<any[]>(endpoints, `/futures/data/topLongShortPositionRatio?symbol=${symbol}&period=1h&limit=1`, d => Array.isArray(d), `${symbol} topLongShortPositionRatio`)
   ]);
+  const first = parseFloat(history[0]?.sumOpenInterestValue);
+  const last = parseFloat(history[history.length - 1]?.sumOpenInterestValue);
+  const ratio = parseFloat(ratios[ratios.length - 1]?.longShortRatio);
+  return {
+    symbol,
+    fundingRate: parseFloat(premium.lastFundingRate),
+    nextFundingTime: premium.nextFundingTime,
+    markPrice: parseFloat(premium.markPrice),
+    openInterest: Number.isFinite(last) ? last : null,
+    openInterestChange24h: history.length >= 25 && first > 0 ? ((last - first) / first) * 100 : null,
+    longShortRatio: Number.isFinite(ratio) ? ratio : null,
+    updatedAt: Date.now()
+  };
+};
 
-  // Priority Logic to decide which one to show:
-  
-  // 1. WATCH (Dense) is the most valuable signal
-  if (setup4h?.signal === SignalType.WATCH) return setup4h;
-  if (setup1h?.signal === SignalType.WATCH) return setup1h;
+// Binance "Invalid symbol."
+const INVALID_SYMBOL = -1121;
 
-  // 2. Trend (LONG/SHORT) is next
-  if (setup4h && (setup4h.signal === SignalType.LONG || setup4h.signal === SignalType.SHORT)) return setup4h;
-  if (setup1h && (setup1h.signal === SignalType.LONG || setup1h.signal === SignalType.SHORT)) return setup1h;
+export const createBinanceProvider = (market: BinanceMarket): MarketDataProvider => {
+  const endpoints = BINANCE_ENDPOINTS[market];
+  const { apiPrefix } = endpoints;
 
-  // 3. Fallback to 4H if it exists, else 1H
-  return setup4h || setup1h || null;
-};
\ No newline at end of file
+  return {
+    source: endpoints.source,
+    label: endpoints.label,
+    streamUrl: endpoints.streamUrl,
+
+    fetchKlines: async (symbol, interval, limit = 300, range = {}) => {
+      const bounds = `${range.startTime !== undefined ? `&startTime=${range.startTime}` : ''}${range.endTime !== undefined ? `&endTime=${range.endTime}` : ''}`;
+      const data = await fetchBinanceJson<any[]>(
+        endpoints,
+        `${apiPrefix}/klines?symbol=${symbol}&interval=${interval}&limit=${limit}${bounds}`,
+        d => Array.isArray(d),
+        `${symbol} ${interval} klines`
+      );
+      return mapData(data);
+    },
+
+    // 24h statistics for every symbol (weight 80 spot / 40 futures), used to rank a full-market sweep by liquidity
+    fetchTickers: async (): Promise<Ticker24h[]> => {
+      const data = await fetchBinanceJson<any[]>(endpoints, `${apiPrefix}/ticker/24hr`, d => Array.isArray(d), '24h tickers');
+      return data.map(t => ({
+        symbol: t.symbol,
+        lastPrice: parseFloat(t.lastPrice),
+        priceChangePercent: parseFloat(t.priceChangePercent),
+        quoteVolume: parseFloat(t.quoteVolume)
+      }));
+    },
+
+    // Symbol list with trading status, used to validate watchlists
+    fetchExchangeInfo: async (): Promise<SymbolInfo[]> => {
+      const data = await fetchBinanceJson<{ symbols: any[] }>(
+        endpoints,
+        `${apiPrefix}/exchangeInfo`,
+        d => Array.isArray(d?.symbols),
+        'exchangeInfo'
+      );
+      return data.symbols
+        // Futures also list dated delivery contracts, the strategy only follows perpetuals
+        .filter(s => s.contractType === undefined || s.contractType === 'PERPETUAL')
+        .map(s => ({
+          symbol: s.symbol,
+          baseAsset: s.baseAsset,
+          quoteAsset: s.quoteAsset,
+          status: s.status,
+          filters: parseSymbolFilters(s.filters)
+        }));
+    },
+
+    fetchFuturesContext: async symbol => {
+      try {
+        return await fetchFuturesContext(symbol);
+      } catch (error) {
+        // Low priced coins are listed as 1000-unit contracts, PEPEUSDT trades as 1000PEPEUSDT
+        if (error instanceof MarketDataError && error.apiCode === INVALID_SYMBOL) return fetchFuturesContext(`1000${symbol}`);
+        throw error;
+      }
+    }
+  };
+};
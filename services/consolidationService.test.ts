@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STRATEGY_CONFIG } from './strategyService';
+import { BandReading, advanceConsolidation, createConsolidationState, readConsolidation } from './consolidationService';
+
+const config = {
+  ...DEFAULT_STRATEGY_CONFIG, denseThreshold: 1, priceDeviationThreshold: 0.5, minConsolidationBars: 3, breakoutVolumeFactor: 1.5
+};
+const candle = (close: number, volume = 1) => ({ openTime: 0, open: close, high: close, low: close, close, volume, closeTime: 0 });
+const band = (density: number, deviation: number): BandReading => ({ high: 101, low: 100, density, deviation });
+
+describe('consolidation runs', () => {
+  it('count candles with tight lines and price near them', () => {
+    const state = createConsolidationState();
+    advanceConsolidation(state, candle(100), band(0.5, 0.2), config);
+    advanceConsolidation(state, candle(100), band(0.5, 0.2), config);
+    expect(state.run?.bars).toBe(2);
+    expect(readConsolidation(state, candle(100), band(0.5, 0.2), config).denseBars).toBe(3);
+  });
+
+  it('end when price moves away from a tight band', () => {
+    const state = createConsolidationState();
+    advanceConsolidation(state, candle(100), band(0.5, 0.2), config);
+    expect(readConsolidation(state, candle(100), band(0.5, 2), config).denseBars).toBe(0);
+    advanceConsolidation(state, candle(100), band(0.5, 2), config);
+    expect(state.run).toBeNull();
+    expect(state.lastRun?.bars).toBe(1);
+  });
+});
+
+// 20 dense candles in the 100-101 band, enough to average the volume
+const consolidated = () => {
+  const state = createConsolidationState();
+  for (let i = 0; i < 20; i++) advanceConsolidation(state, candle(100.5), band(0.5, 0.2), config);
+  return state;
+};
+// The lines fan out as price leaves the band
+const widening = band(1.2, 3);
+
+describe('breakouts', () => {
+  it('confirm a close above the band on volume and hold while price stays there', () => {
+    const state = consolidated();
+    expect(readConsolidation(state, candle(105, 3), widening, config).breakout).toMatchObject({ direction: 'LONG', status: 'CONFIRMED' });
+    advanceConsolidation(state, candle(105, 3), widening, config);
+    advanceConsolidation(state, candle(106), widening, config);
+    const held = readConsolidation(state, candle(107), widening, config);
+    expect(held.breakout).toMatchObject({ direction: 'LONG', status: 'CONFIRMED', barsSince: 1 });
+    expect(held.breakout?.run.bars).toBe(20);
+    expect(held.falseBreakout).toBeNull();
+  });
+
+  it('confirm a close below the band as a breakdown', () => {
+    const state = consolidated();
+    advanceConsolidation(state, candle(96, 3), widening, config);
+    expect(state.breakout).toMatchObject({ direction: 'SHORT', status: 'CONFIRMED' });
+    expect(readConsolidation(state, candle(95), widening, config).breakout?.direction).toBe('SHORT');
+  });
+
+  it('need volume above average', () => {
+    const state = consolidated();
+    expect(readConsolidation(state, candle(105, 1.2), widening, config).breakout).toBeNull();
+  });
+
+  it('turn false when price closes back inside the band', () => {
+    const state = consolidated();
+    advanceConsolidation(state, candle(105, 3), widening, config);
+    advanceConsolidation(state, candle(100.5), widening, config);
+    expect(state.breakout?.status).toBe('FAILED');
+    const reading = readConsolidation(state, candle(100.5), widening, config);
+    expect(reading.breakout).toBeNull();
+    expect(reading.falseBreakout).toMatchObject({ direction: 'LONG', status: 'FAILED' });
+  });
+});
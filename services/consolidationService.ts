@@ -0,0 +1,155 @@
+import { StrategyConfig, TradeDirection } from '../types';
+import { Candle, RollingSMA, createSMA, updateSMA } from './indicators';
+
+// Tracks how long a series has stayed dense and how the consolidation resolves.
+// A breakout is a close beyond the band the lines held during the run, on volume
+// above its average, while the lines start to fan out again. One that closes back
+// inside the band shortly after is classified as a false breakout.
+
+// The six-line band on one candle
+export interface BandReading {
+  high: number;
+  low: number;
+  density: number; // Spread as % of the close
+  deviation: number; // Distance of the close from the lines' mean, % of the close
+}
+
+export interface ConsolidationRun {
+  bars: number; // Consecutive dense closed candles
+  high: number; // Envelope of the band over the run
+  low: number;
+  width: number; // Widest band of the run, % of price
+  startTime: number;
+  endTime: number;
+}
+
+export interface BreakoutEvent {
+  direction: TradeDirection;
+  time: number; // Open time of the breakout candle
+  run: ConsolidationRun;
+  status: 'CONFIRMED' | 'FAILED';
+  barsSince: number; // Closed candles since the breakout
+}
+
+export interface ConsolidationState {
+  run: ConsolidationRun | null; // Run still in progress
+  lastRun: ConsolidationRun | null; // Run that just ended, a breakout may still follow
+  barsSinceRun: number;
+  breakout: BreakoutEvent | null; // Latest breakout on a closed candle
+  volume: RollingSMA;
+  prevDensity: number;
+}
+
+// What the scorer needs on the evaluated candle
+export interface ConsolidationSnapshot {
+  denseBars: number; // Length of the current run, the evaluated candle included
+  breakout: BreakoutEvent | null; // Breakout on this candle or one still in force
+  falseBreakout: BreakoutEvent | null; // Recent breakout that fell back into the band
+}
+
+// Candles after a run ends in which the breakout may still come: the lines
+// often widen past the dense threshold a bar or two before price clears the band
+const BREAKOUT_WINDOW = 3;
+// A breakout keeps its signal this many closed candles while price holds outside the band
+const SIGNAL_BARS = 3;
+// Closing back inside the band within this many candles makes it a false breakout
+const FAILURE_BARS = 5;
+const VOLUME_PERIOD = 20;
+
+export const createConsolidationState = (): ConsolidationState => ({
+  run: null,
+  lastRun: null,
+  barsSinceRun: 0,
+  breakout: null,
+  volume: createSMA(VOLUME_PERIOD),
+  prevDensity: NaN
+});
+
+const averageVolume = (state: ConsolidationState): number =>
+  state.volume.count >= state.volume.period ? state.volume.sum / state.volume.period : NaN;
+
+const isOutside = (direction: TradeDirection, close: number, run: ConsolidationRun): boolean =>
+  direction === 'LONG' ? close > run.high : close < run.low;
+
+const detectBreakout = (
+  state: ConsolidationState,
+  candle: Candle,
+  band: BandReading,
+  config: StrategyConfig
+): BreakoutEvent | null => {
+  const run = state.run ?? (state.barsSinceRun < BREAKOUT_WINDOW ? state.lastRun : null);
+  if (!run || run.bars < config.minConsolidationBars) return null;
+  const direction: TradeDirection | null = candle.close > run.high ? 'LONG' : candle.close < run.low ? 'SHORT' : null;
+  if (!direction) return null;
+  const avgVolume = averageVolume(state);
+  if (!(candle.volume > avgVolume * config.breakoutVolumeFactor)) return null;
+  // Fan-out: the lines must be separating, not just price poking out of a flat band
+  if (!(band.density > state.prevDensity)) return null;
+  return { direction, time: candle.openTime, run, status: 'CONFIRMED', barsSince: 0 };
+};
+
+// Same rule as the scorer's dense check: tight lines with price still near them
+const isDenseBand = (band: BandReading, config: StrategyConfig) =>
+  band.density < config.denseThreshold && band.deviation < config.priceDeviationThreshold;
+
+// Commit a closed candle
+export const advanceConsolidation = (
+  state: ConsolidationState,
+  candle: Candle,
+  band: BandReading,
+  config: StrategyConfig
+): void => {
+  const detected = detectBreakout(state, candle, band, config);
+  if (detected) {
+    state.breakout = detected;
+    state.run = null;
+    state.lastRun = null;
+  } else if (state.breakout) {
+    const breakout = { ...state.breakout, barsSince: state.breakout.barsSince + 1 };
+    if (breakout.status === 'CONFIRMED' && breakout.barsSince <= FAILURE_BARS && !isOutside(breakout.direction, candle.close, breakout.run)) {
+      breakout.status = 'FAILED';
+    }
+    state.breakout = breakout;
+  }
+
+  if (isDenseBand(band, config)) {
+    state.run = state.run
+      ? {
+        ...state.run,
+        bars: state.run.bars + 1,
+        high: Math.max(state.run.high, band.high),
+        low: Math.min(state.run.low, band.low),
+        width: Math.max(state.run.width, band.density),
+        endTime: candle.openTime
+      }
+      : { bars: 1, high: band.high, low: band.low, width: band.density, startTime: candle.openTime, endTime: candle.openTime };
+  } else if (state.run) {
+    state.lastRun = state.run;
+    state.run = null;
+    state.barsSinceRun = 0;
+  } else {
+    state.barsSinceRun++;
+  }
+
+  updateSMA(state.volume, candle.volume);
+  state.prevDensity = band.density;
+};
+
+// The evaluated candle (closed or still forming) against the committed state
+export const readConsolidation = (
+  state: ConsolidationState,
+  candle: Candle,
+  band: BandReading,
+  config: StrategyConfig
+): ConsolidationSnapshot => {
+  const detected = detectBreakout(state, candle, band, config);
+  const recent = state.breakout;
+  const held = recent && recent.status === 'CONFIRMED' && recent.barsSince < SIGNAL_BARS &&
+    isOutside(recent.direction, candle.close, recent.run);
+  return {
+    denseBars: isDenseBand(band, config) ? (state.run?.bars ?? 0) + 1 : 0,
+    breakout: detected ?? (held ? recent : null),
+    // Kept in the reason for twice the failure window, then dropped
+    falseBreakout: !detected && recent && recent.status === 'FAILED' && recent.barsSince <= FAILURE_BARS * 2 ? recent : null
+  };
+};
@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { AIAnalysisResult, Kline } from '../types';
+import { DEFAULT_STRATEGY_CONFIG, MultiTimeframeSetup, evaluateTimeframes, signalCode } from './strategyService';
+import { createFixtureProvider, fixtureKey } from './fixtureProvider';
+import { createScanSnapshot, parseScanSnapshot, serializeScanSnapshot, setupsToCSV, setupsToMarkdown } from './exportService';
+
+const HOUR = 60 * 60 * 1000;
+
+const provider = createFixtureProvider({
+  version: 1,
+  klines: {
+    [fixtureKey('BTCUSDT', '1h')]: Array.from({ length: 300 }, (_, i) => ({
+      openTime: i * HOUR, open: String(100 + i), high: String(101 + i), low: String(99 + i), close: String(100 + i), volume: '10',
+      closeTime: (i + 1) * HOUR - 1
+    }))
+  }
+});
+const config = { ...DEFAULT_STRATEGY_CONFIG, timeframes: ['1h' as const] };
+
+const aiAnalysis: AIAnalysisResult = {
+  symbol: 'BTCUSDT', interval: '1h', analysis: '多头排列', confidence: 'Medium', bias: 'LONG',
+  keyLevels: [{ price: 290, kind: 'support', note: '' }], risks: ['成交量不足'], model: 'stub:test', createdAt: 1
+};
+
+let klines: Kline[];
+let analysis: MultiTimeframeSetup;
+
+beforeAll(async () => {
+  klines = await provider.fetchKlines('BTCUSDT', '1h', 200);
+  analysis = evaluateTimeframes('BTCUSDT', { '1h': klines }, config);
+});
+
+type JSONNode = Record<string | number, unknown>;
+
+// A valid snapshot as JSON, with the value at `path` replaced (undefined removes it)
+const snapshotWith = (path: (string | number)[] = [], value?: unknown) => {
+  const snapshot: JSONNode = JSON.parse(serializeScanSnapshot(
+    createScanSnapshot([analysis], config, 'fixture', { BTCUSDT: { '1h': klines } }, { BTCUSDT: aiAnalysis })
+  ));
+  if (path.length) {
+    const parent = path.slice(0, -1).reduce<JSONNode>((node, key) => node[key] as JSONNode, snapshot);
+    parent[path[path.length - 1]] = value;
+  }
+  return JSON.stringify(snapshot);
+};
+
+describe('exports', () => {
+  it('write the same signal code as the command line', () => {
+    const setup = analysis.primary!;
+    const code = signalCode(setup.signal);
+    expect(setupsToCSV([setup]).split('\r\n')[1].split(',')[2]).toBe(code);
+    expect(setupsToMarkdown([setup])).toContain(`| ${code} |`);
+  });
+});
+
+describe('parseScanSnapshot', () => {
+  it('keeps a well-formed snapshot', () => {
+    const parsed = parseScanSnapshot(snapshotWith());
+    expect(parsed.analyses).toHaveLength(1);
+    expect(parsed.klines.BTCUSDT['1h']).toHaveLength(200);
+    expect(parsed.aiAnalyses.BTCUSDT).toEqual(aiAnalysis);
+  });
+
+  it('drops a series with malformed or out of order candles', () => {
+    const parseCandles = (candles: unknown) => parseScanSnapshot(snapshotWith(['klines', 'BTCUSDT', '1h'], candles)).klines.BTCUSDT['1h'];
+    expect(parseCandles([...klines.slice(0, 10), { ...klines[10], close: 'abc' }])).toBeUndefined();
+    expect(parseCandles([klines[1], klines[0]])).toBeUndefined();
+    expect(parseCandles('not a list')).toBeUndefined();
+  });
+
+  it('rejects analyses with setup fields the cards cannot show', () => {
+    const parseAnalysis = (path: (string | number)[], value?: unknown) => () => parseScanSnapshot(snapshotWith(['analyses', 0, ...path], value));
+    expect(parseAnalysis(['primary', 'densityScore'])).toThrow('快照中没有有效的扫描结果');
+    expect(parseAnalysis(['primary', 'priceDeviation'], '0.5')).toThrow('快照中没有有效的扫描结果');
+    expect(parseAnalysis(['primary', 'mas', 'ema60'], null)).toThrow('快照中没有有效的扫描结果');
+    expect(parseAnalysis(['primary', 'plans', 0, 'targets'], {})).toThrow('快照中没有有效的扫描结果');
+    expect(parseAnalysis(['setups', '1h', 'interval'], '2h')).toThrow('快照中没有有效的扫描结果');
+    expect(parseAnalysis(['confluence', 'score'])).toThrow('快照中没有有效的扫描结果');
+  });
+
+  it('drops AI analyses the card cannot show', () => {
+    const parseAI = (field: string, value?: unknown) => parseScanSnapshot(snapshotWith(['aiAnalyses', 'BTCUSDT', field], value)).aiAnalyses;
+    expect(parseAI('bias', 'BULLISH')).toEqual({});
+    expect(parseAI('confidence', 'Sure')).toEqual({});
+    expect(parseAI('keyLevels')).toEqual({});
+    expect(parseAI('keyLevels', [{ price: '290', kind: 'support' }])).toEqual({});
+    expect(parseAI('risks', '成交量不足')).toEqual({});
+  });
+});
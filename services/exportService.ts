@@ -0,0 +1,258 @@
+import { AIAnalysisResult, Kline, SignalType, StrategyConfig, TradeSetup } from '../types';
+import { MultiTimeframeSetup, IntervalKlines, StrategyInterval, TIMEFRAME_LABELS, normalizeStrategyConfig, signalCode } from './strategyService';
+import { BIASES, CONFIDENCES } from './aiAnalysisService';
+import { isJSONObject } from './aiProvider';
+import { MarketFixture, fixtureKey } from './fixtureProvider';
+
+// Getting scan results out of the app (CSV for spreadsheets, Markdown for chat,
+// JSON snapshots) and back in: an imported snapshot is shown in the same UI as
+// a live scan, with its own config, candles and AI analyses.
+
+// --- Snapshots ---
+
+export interface ScanSnapshot {
+  version: 1;
+  exportedAt: number;
+  source: string; // Market data source label at export time
+  config: StrategyConfig;
+  analyses: MultiTimeframeSetup[];
+  klines: Record<string, IntervalKlines>; // Recent candles per symbol, for the charts
+  aiAnalyses: Record<string, AIAnalysisResult>; // Keyed by symbol, the analysis of the exported setup
+}
+
+// Enough for the chart to draw every MA across its default window
+const SNAPSHOT_CANDLES = 250;
+
+export const createScanSnapshot = (
+  analyses: MultiTimeframeSetup[],
+  config: StrategyConfig,
+  source: string,
+  klines: Record<string, IntervalKlines>,
+  aiAnalyses: Record<string, AIAnalysisResult>,
+  exportedAt: number = Date.now()
+): ScanSnapshot => ({
+  version: 1,
+  exportedAt,
+  source,
+  config,
+  analyses,
+  klines: Object.fromEntries(analyses.map(a => [
+    a.symbol,
+    Object.fromEntries(Object.entries(klines[a.symbol] ?? {}).map(([interval, list]) => [interval, list?.slice(-SNAPSHOT_CANDLES)]))
+  ])),
+  aiAnalyses
+});
+
+// Shape checks of untrusted file contents. They cover every field the cards and
+// the table format, an entry that would break the render is dropped.
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const SETUP_NUMBERS = ['price', 'densityScore', 'priceDeviation', 'atr', 'entryPrice', 'stopLoss', 'takeProfit'] as const;
+const MA_KEYS = ['ma20', 'ma60', 'ma120', 'ema20', 'ema60', 'ema120'] as const;
+
+const isTarget = (value: unknown) =>
+  isJSONObject(value) && isNumber(value.price) && isNumber(value.rMultiple) && isNumber(value.sizePct);
+
+const isPlan = (value: unknown) =>
+  isJSONObject(value) && (value.direction === 'LONG' || value.direction === 'SHORT') &&
+  (value.trigger === null || isNumber(value.trigger)) &&
+  isNumber(value.entryPrice) && isNumber(value.stopLoss) && isNumber(value.takeProfit) &&
+  Array.isArray(value.targets) && value.targets.every(isTarget);
+
+const isSetup = (value: unknown): value is TradeSetup =>
+  isJSONObject(value) && typeof value.symbol === 'string' && typeof value.interval === 'string' && value.interval in TIMEFRAME_LABELS &&
+  Object.values<unknown>(SignalType).includes(value.signal) && SETUP_NUMBERS.every(field => isNumber(value[field])) &&
+  isJSONObject(value.mas) && MA_KEYS.every(key => isNumber((value.mas as Record<string, unknown>)[key])) &&
+  Array.isArray(value.plans) && value.plans.every(isPlan);
+
+const isAnalysis = (value: unknown): value is MultiTimeframeSetup =>
+  isJSONObject(value) && typeof value.symbol === 'string' && isSetup(value.primary) &&
+  isJSONObject(value.setups) && Object.values(value.setups).every(s => s === null || isSetup(s)) &&
+  isJSONObject(value.confluence) && isNumber(value.confluence.score) &&
+  ['aligned', 'opposed', 'watchInTrend'].every(key => Array.isArray((value.confluence as Record<string, unknown>)[key]));
+
+const isKeyLevel = (value: unknown) =>
+  isJSONObject(value) && isNumber(value.price) && (value.kind === 'support' || value.kind === 'resistance');
+
+const isAIResult = (value: unknown): value is AIAnalysisResult =>
+  isJSONObject(value) && typeof value.analysis === 'string' && typeof value.model === 'string' && isNumber(value.createdAt) &&
+  BIASES.includes(value.bias as AIAnalysisResult['bias']) && CONFIDENCES.includes(value.confidence as AIAnalysisResult['confidence']) &&
+  Array.isArray(value.keyLevels) && value.keyLevels.every(isKeyLevel) &&
+  Array.isArray(value.risks) && value.risks.every(risk => typeof risk === 'string');
+
+const KLINE_PRICES = ['open', 'high', 'low', 'close', 'volume'] as const;
+
+const isKline = (value: unknown): value is Kline =>
+  isJSONObject(value) && isNumber(value.openTime) && isNumber(value.closeTime) &&
+  KLINE_PRICES.every(field => typeof value[field] === 'string' && Number.isFinite(Number(value[field])));
+
+// Candles of the snapshot's symbols on known timeframes, a series with any malformed
+// or out of order candle is dropped and its chart stays empty
+const parseSnapshotKlines = (raw: unknown, analyses: MultiTimeframeSetup[]): Record<string, IntervalKlines> => {
+  if (!isJSONObject(raw)) return {};
+  return Object.fromEntries(analyses.map(({ symbol }) => {
+    const symbolKlines = raw[symbol];
+    const series = Object.entries(isJSONObject(symbolKlines) ? symbolKlines : {}).filter(([interval, list]) =>
+      interval in TIMEFRAME_LABELS && Array.isArray(list) &&
+      list.every((k: unknown, i) => isKline(k) && (i === 0 || k.openTime > list[i - 1].openTime))
+    );
+    return [symbol, Object.fromEntries(series) as IntervalKlines];
+  }));
+};
+
+// Untrusted file contents: malformed analyses are dropped, a file without any is rejected
+export const parseScanSnapshot = (json: string): ScanSnapshot => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+  if (!isJSONObject(parsed) || parsed.version !== 1 || !Array.isArray(parsed.analyses)) throw new Error('不是扫描快照文件');
+  const analyses = parsed.analyses.filter(isAnalysis);
+  if (analyses.length === 0) throw new Error('快照中没有有效的扫描结果');
+  const aiAnalyses = isJSONObject(parsed.aiAnalyses) ? Object.entries(parsed.aiAnalyses) : [];
+  return {
+    version: 1,
+    exportedAt: Number(parsed.exportedAt) || 0,
+    source: typeof parsed.source === 'string' ? parsed.source : '',
+    config: normalizeStrategyConfig(parsed.config),
+    analyses,
+    klines: parseSnapshotKlines(parsed.klines, analyses),
+    aiAnalyses: Object.fromEntries(aiAnalyses.filter((entry): entry is [string, AIAnalysisResult] => isAIResult(entry[1])))
+  };
+};
+
+export const serializeScanSnapshot = (snapshot: ScanSnapshot): string => JSON.stringify(snapshot);
+
+// --- CSV ---
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCSV = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const setupsToCSV = (setups: TradeSetup[], aiAnalyses: Record<string, AIAnalysisResult> = {}): string => {
+  const header = [
+    'symbol', 'interval', 'signal', 'price',
+    'ma_short', 'ema_short', 'ma_mid', 'ema_mid', 'ma_long', 'ema_long', 'ma_periods',
+    'density_pct', 'deviation_pct', 'atr', 'is_dense',
+    'entry', 'stop_loss', 'take_profit', 'reason',
+    'funding_rate', 'oi_change_24h_pct', 'long_short_ratio', 'crowding',
+    'ai_bias', 'ai_confidence', 'ai_analysis'
+  ];
+  const rows = setups.map(s => {
+    const ai = aiAnalyses[s.symbol];
+    return [
+      s.symbol, s.interval, signalCode(s.signal), s.price,
+      s.mas.ma20, s.mas.ema20, s.mas.ma60, s.mas.ema60, s.mas.ma120, s.mas.ema120,
+      `${s.maPeriods.short}/${s.maPeriods.mid}/${s.maPeriods.long}`,
+      s.densityScore.toFixed(4), s.priceDeviation.toFixed(4), s.atr, s.isDense,
+      s.entryPrice, s.stopLoss, s.takeProfit, s.reason,
+      s.futures?.fundingRate, s.futures?.openInterestChange24h?.toFixed(2), s.futures?.longShortRatio,
+      s.crowding?.map(c => c.message).join('; '),
+      ai?.bias, ai?.confidence, ai?.analysis
+    ];
+  });
+  // BOM so Excel opens the Chinese text as UTF-8
+  return `\uFEFF${toCSV(header, rows)}`;
+};
+
+export const klinesToCSV = (klines: Kline[]): string =>
+  `\uFEFF${toCSV(
+    ['open_time', 'open', 'high', 'low', 'close', 'volume', 'close_time'],
+    klines.map(k => [new Date(k.openTime).toISOString(), k.open, k.high, k.low, k.close, k.volume, new Date(k.closeTime).toISOString()])
+  )}`;
+
+// Same candles as a fixture file, so they can be replayed with ?source=fixture
+export const klinesToFixture = (symbol: string, interval: string, klines: Kline[], recordedAt: number = Date.now()): string => {
+  const fixture: MarketFixture = { version: 1, recordedAt, klines: { [fixtureKey(symbol, interval)]: klines } };
+  return JSON.stringify(fixture);
+};
+
+// --- Markdown ---
+
+const formatPrice = (value: number) => value.toFixed(value < 1 ? 6 : value < 100 ? 4 : 2);
+
+// Pipes would end the table cell early
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const setupSection = (s: TradeSetup, ai: AIAnalysisResult | undefined): string => {
+  const lines = [
+    `### ${s.symbol} · ${TIMEFRAME_LABELS[s.interval as StrategyInterval] ?? s.interval} · ${s.signal}`,
+    '',
+    `- 价格: ${formatPrice(s.price)}`,
+    `- MA/EMA ${s.maPeriods.short}: ${formatPrice(s.mas.ma20)} / ${formatPrice(s.mas.ema20)}`,
+    `- MA/EMA ${s.maPeriods.mid}: ${formatPrice(s.mas.ma60)} / ${formatPrice(s.mas.ema60)}`,
+    `- MA/EMA ${s.maPeriods.long}: ${formatPrice(s.mas.ma120)} / ${formatPrice(s.mas.ema120)}`,
+    `- 密集度 ${s.densityScore.toFixed(2)}% · 偏离 ${s.priceDeviation.toFixed(2)}% · ATR ${formatPrice(s.atr)}${s.isDense ? ' · 密集' : ''}`,
+    `- 入场 ${formatPrice(s.entryPrice)} · 止损 ${formatPrice(s.stopLoss)} · 止盈 ${formatPrice(s.takeProfit)}`,
+    ...s.plans.map(p =>
+      `- 计划 ${p.kind} ${p.direction}${p.trigger !== null ? ` (触发 ${formatPrice(p.trigger)})` : ''}: ` +
+      `止损 ${formatPrice(p.stopLoss)}, 目标 ${p.targets.map(t => `${formatPrice(t.price)} (${t.rMultiple}R)`).join(' / ')}`
+    ),
+    ...(s.futures ? [
+      `- 合约: 资金费率 ${(s.futures.fundingRate * 100).toFixed(4)}%` +
+      `${s.futures.openInterestChange24h !== null ? ` · 持仓量 24h ${s.futures.openInterestChange24h.toFixed(1)}%` : ''}` +
+      `${s.futures.longShortRatio !== null ? ` · 大户多空比 ${s.futures.longShortRatio.toFixed(2)}` : ''}`,
+      ...(s.crowding ?? []).map(c => `- ⚠ ${c.message}${c.againstSignal ? ' (与信号同向)' : ''}`)
+    ] : []),
+    '',
+    `> ${s.reason}`
+  ];
+  if (ai) {
+    lines.push(
+      '',
+      `**AI 分析** (${ai.model}, ${ai.bias}, 置信度 ${ai.confidence}):`,
+      '',
+      ai.analysis,
+      ...(ai.keyLevels.length ? ['', `关键价位: ${ai.keyLevels.map(l => `${l.kind === 'support' ? '支撑' : '阻力'} ${formatPrice(l.price)}`).join(', ')}`] : []),
+      ...ai.risks.map(r => `- ⚠ ${r}`)
+    );
+  }
+  return lines.join('\n');
+};
+
+export const setupsToMarkdown = (
+  setups: TradeSetup[],
+  aiAnalyses: Record<string, AIAnalysisResult> = {},
+  meta: { title?: string; source?: string; exportedAt?: number } = {}
+): string => {
+  const exportedAt = meta.exportedAt ?? Date.now();
+  const summary = [
+    '| 币种 | 周期 | 信号 | 价格 | 密集度 | 偏离 | 止损 | 止盈 |',
+    '| --- | --- | --- | ---: | ---: | ---: | ---: | ---: |',
+    ...setups.map(s =>
+      `| ${s.symbol} | ${s.interval} | ${mdCell(signalCode(s.signal))} | ${formatPrice(s.price)} | ${s.densityScore.toFixed(2)}% | ` +
+      `${s.priceDeviation.toFixed(2)}% | ${formatPrice(s.stopLoss)} | ${formatPrice(s.takeProfit)} |`
+    )
+  ];
+  return [
+    `# ${meta.title ?? '均线密集扫描报告'}`,
+    '',
+    `${new Date(exportedAt).toLocaleString()}${meta.source ? ` · ${meta.source}` : ''} · ${setups.length} 个形态`,
+    '',
+    ...summary,
+    '',
+    ...setups.map(s => setupSection(s, aiAnalyses[s.symbol])).flatMap(section => [section, ''])
+  ].join('\n');
+};
+
+// --- Files ---
+
+export const exportFileName = (prefix: string, extension: string, at: number = Date.now()) =>
+  `${prefix}-${new Date(at).toISOString().slice(0, 16).replace(/[:T]/g, '-')}.${extension}`;
+
+export const downloadFile = (fileName: string, content: string, type: string): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
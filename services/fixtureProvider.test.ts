@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Kline } from '../types';
+import { MarketFixture, createFixtureProvider, fixtureKey } from './fixtureProvider';
+
+const HOUR = 60 * 60 * 1000;
+
+const hourly = (count: number, close = (i: number) => 100 + i): Kline[] => Array.from({ length: count }, (_, i) => ({
+  openTime: i * HOUR, open: String(close(i) - 1), high: String(close(i) + 1), low: String(close(i) - 2), close: String(close(i)), volume: '2',
+  closeTime: (i + 1) * HOUR - 1
+}));
+
+const fixture: MarketFixture = {
+  version: 1,
+  klines: { [fixtureKey('BTCUSDT', '1h')]: hourly(48), [fixtureKey('ETHBTC', '1h')]: hourly(10, () => 0.05) }
+};
+
+const openTimes = (klines: Kline[]) => klines.map(k => k.openTime / HOUR);
+
+describe('createFixtureProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('serves only candles opened by the replay cursor', async () => {
+    let cursor = 5 * HOUR;
+    const provider = createFixtureProvider(fixture, { now: () => cursor });
+    expect(openTimes(await provider.fetchKlines('BTCUSDT', '1h', 3))).toEqual([3, 4, 5]);
+    cursor = 7 * HOUR + 1;
+    expect(openTimes(await provider.fetchKlines('btcusdt', '1h', 3))).toEqual([5, 6, 7]);
+  });
+
+  it('slices by start and end time like the exchange', async () => {
+    const provider = createFixtureProvider(fixture);
+    expect(openTimes(await provider.fetchKlines('BTCUSDT', '1h', 3, { startTime: 10 * HOUR }))).toEqual([10, 11, 12]);
+    expect(openTimes(await provider.fetchKlines('BTCUSDT', '1h', 3, { endTime: 10 * HOUR }))).toEqual([8, 9, 10]);
+    expect(openTimes(await provider.fetchKlines('BTCUSDT', '1h', 10, { startTime: 10 * HOUR, endTime: 12 * HOUR }))).toEqual([10, 11, 12]);
+  });
+
+  it('reports a series it has no recording of', async () => {
+    await expect(createFixtureProvider(fixture).fetchKlines('BTCUSDT', '4h')).rejects.toMatchObject({ reason: 'NOT_FOUND' });
+  });
+
+  it('derives symbols and 24h tickers from the candles', async () => {
+    const provider = createFixtureProvider(fixture, { now: () => 30 * HOUR });
+    expect(await provider.fetchExchangeInfo()).toEqual([
+      { symbol: 'BTCUSDT', baseAsset: 'BTC', quoteAsset: 'USDT', status: 'TRADING' },
+      { symbol: 'ETHBTC', baseAsset: 'ETH', quoteAsset: 'BTC', status: 'TRADING' }
+    ]);
+    const [btc] = await provider.fetchTickers();
+    // Candles 7 to 30 make up the last day: opens at 106, closes at 130
+    expect(btc.symbol).toBe('BTCUSDT');
+    expect(btc.lastPrice).toBe(130);
+    expect(btc.priceChangePercent).toBeCloseTo((130 - 106) / 106 * 100, 10);
+    expect(btc.quoteVolume).toBe(2 * Array.from({ length: 24 }, (_, i) => 107 + i).reduce((a, b) => a + b, 0));
+  });
+
+  it('rejects a URL that does not serve a fixture', async () => {
+    vi.stubGlobal('fetch', async () => new Response(JSON.stringify({ klines: [] })));
+    await expect(createFixtureProvider('/fixture.json').fetchExchangeInfo()).rejects.toMatchObject({ reason: 'PARSE_ERROR' });
+    vi.stubGlobal('fetch', async () => new Response(JSON.stringify(fixture)));
+    expect(await createFixtureProvider('/fixture.json').fetchExchangeInfo()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,157 @@
+import { FuturesContext, Kline, SymbolInfo, Ticker24h } from '../types';
+import { MarketDataProvider, MarketDataError, recordFetch } from './marketDataProvider';
+
+// Serves recorded candles instead of hitting an exchange, so the app and the
+// strategy can run offline (tests, demos, reproducing a reported signal).
+
+export interface MarketFixture {
+  version: 1;
+  recordedAt?: number;
+  exchangeInfo?: SymbolInfo[]; // Derived from the kline keys when missing
+  tickers?: Ticker24h[]; // Derived from the candles when missing
+  klines: Record<string, Kline[]>; // Keyed by fixtureKey(symbol, interval)
+  futures?: Record<string, FuturesContext>; // Keyed by symbol
+}
+
+export interface FixtureProviderOptions {
+  // Replay cursor: only candles opened at or before this time are served.
+  // Leave unset to serve every recorded candle.
+  now?: () => number;
+}
+
+export const fixtureKey = (symbol: string, interval: string) => `${symbol.toUpperCase()}:${interval}`;
+
+const QUOTE_ASSETS = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'BTC', 'ETH', 'BNB'];
+
+const splitSymbol = (symbol: string): SymbolInfo => {
+  const quoteAsset = QUOTE_ASSETS.find(q => symbol.endsWith(q) && symbol.length > q.length) ?? '';
+  return { symbol, baseAsset: symbol.slice(0, symbol.length - quoteAsset.length), quoteAsset, status: 'TRADING' };
+};
+
+const isFixture = (data: unknown): data is MarketFixture =>
+  typeof data === 'object' && data !== null && 'klines' in data &&
+  typeof data.klines === 'object' && data.klines !== null && !Array.isArray(data.klines);
+
+const loadFixture = async (url: string): Promise<MarketFixture> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new MarketDataError(`Fixture ${url} could not be loaded`, 'NETWORK');
+  }
+  if (!response.ok) {
+    throw new MarketDataError(`Fixture ${url} returned HTTP ${response.status}`, 'HTTP_STATUS', [], response.status);
+  }
+  const data = await response.json().catch(() => undefined);
+  if (!isFixture(data)) throw new MarketDataError(`Fixture ${url} is not a market fixture`, 'PARSE_ERROR');
+  return data;
+};
+
+export const createFixtureProvider = (
+  source: MarketFixture | string,
+  options: FixtureProviderOptions = {}
+): MarketDataProvider => {
+  const { now } = options;
+  // A URL is fetched once, on first use
+  let fixture: Promise<MarketFixture> | null = typeof source === 'string' ? null : Promise.resolve(source);
+  const getFixture = () => {
+    if (!fixture) {
+      fixture = loadFixture(source as string);
+      // Let a later call retry after a failed load
+      fixture.catch(() => { fixture = null; });
+    }
+    return fixture;
+  };
+
+  // Run a lookup and log it like a network request, so diagnostics look the same for every source
+  const serve = async <T>(request: string, read: (data: MarketFixture) => T): Promise<T> => {
+    const started = Date.now();
+    try {
+      const result = read(await getFixture());
+      recordFetch({ source: 'fixture', request, strategy: 'fixture', durationMs: Date.now() - started, at: Date.now() });
+      return result;
+    } catch (error) {
+      const failure = error instanceof MarketDataError ? error : new MarketDataError(String(error), 'PARSE_ERROR');
+      recordFetch({ source: 'fixture', request, strategy: null, durationMs: Date.now() - started, at: Date.now(), error: failure });
+      throw failure;
+    }
+  };
+
+  const visible = (klines: Kline[]): Kline[] => {
+    if (!now) return klines;
+    const cursor = now();
+    return klines.filter(k => k.openTime <= cursor);
+  };
+
+  const symbolsOf = (data: MarketFixture): string[] =>
+    Array.from(new Set(Object.keys(data.klines).map(key => key.split(':')[0])));
+
+  return {
+    source: 'fixture',
+    label: '本地回放',
+    streamUrl: null,
+
+    fetchKlines: (symbol, interval, limit = 300, { startTime, endTime } = {}) =>
+      serve(`${symbol} ${interval} klines`, data => {
+        const recorded = data.klines[fixtureKey(symbol, interval)];
+        if (!recorded) throw new MarketDataError(`No recorded ${interval} klines for ${symbol}`, 'NOT_FOUND');
+        const inRange = visible(recorded).filter(k =>
+          (startTime === undefined || k.openTime >= startTime) && (endTime === undefined || k.openTime <= endTime));
+        return startTime !== undefined ? inRange.slice(0, limit) : inRange.slice(-limit);
+      }),
+
+    fetchTickers: () =>
+      serve('24h tickers', data => {
+        if (data.tickers) return data.tickers;
+        return symbolsOf(data).flatMap(symbol => {
+          const key = Object.keys(data.klines).find(k => k.startsWith(`${symbol}:`))!;
+          const klines = visible(data.klines[key]);
+          const last = klines[klines.length - 1];
+          if (!last) return [];
+          const dayAgo = klines.filter(k => k.openTime > last.openTime - 24 * 60 * 60 * 1000);
+          const open = parseFloat(dayAgo[0].open);
+          const close = parseFloat(last.close);
+          return [{
+            symbol,
+            lastPrice: close,
+            priceChangePercent: open ? ((close - open) / open) * 100 : 0,
+            quoteVolume: dayAgo.reduce((sum, k) => sum + parseFloat(k.volume) * parseFloat(k.close), 0)
+          }];
+        });
+      }),
+
+    fetchExchangeInfo: () =>
+      serve('exchangeInfo', data => data.exchangeInfo ?? symbolsOf(data).map(splitSymbol)),
+
+    fetchFuturesContext: symbol =>
+      serve(`${symbol} futures context`, data => {
+        const context = data.futures?.[symbol.toUpperCase()];
+        if (!context) throw new MarketDataError(`No recorded futures context for ${symbol}`, 'NOT_FOUND');
+        return context;
+      })
+  };
+};
+
+// Capture the current candles of another provider as a fixture, e.g. to reproduce a signal later
+export const recordFixture = async (
+  provider: MarketDataProvider,
+  symbols: string[],
+  intervals: string[],
+  limit: number = 500
+): Promise<MarketFixture> => {
+  const klines: Record<string, Kline[]> = {};
+  for (const symbol of symbols) {
+    for (const interval of intervals) {
+      klines[fixtureKey(symbol, interval)] = await provider.fetchKlines(symbol, interval, limit);
+    }
+  }
+  const exchangeInfo = (await provider.fetchExchangeInfo()).filter(info => symbols.includes(info.symbol));
+  // Symbols without a perpetual are simply left out
+  const futures: Record<string, FuturesContext> = {};
+  if (provider.fetchFuturesContext) {
+    for (const symbol of symbols) {
+      await provider.fetchFuturesContext(symbol).then(context => { futures[symbol] = context; }, () => undefined);
+    }
+  }
+  return { version: 1, recordedAt: Date.now(), exchangeInfo, klines, futures };
+};
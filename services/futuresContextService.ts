@@ -0,0 +1,128 @@
+import { CrowdingFlag, FuturesContext, SignalType, TradeDirection, TradeSetup } from '../types';
+import { MarketDataError, MarketDataProvider } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataService';
+import { IntervalSetups, MultiTimeframeSetup, signalDirection } from './strategyService';
+import { runScan, ScanHandle } from './scanScheduler';
+
+// Derivatives positioning next to the MA setups: funding, open interest and the
+// top-trader long/short ratio of each symbol's perpetual. Crowded positioning is
+// flagged per setup, with a warning when the signal trades with the crowd
+// (a LONG while longs already pay extreme funding is where squeezes start).
+
+// 0.05% per funding interval, five times the default rate
+export const FUNDING_CROWDED = 0.0005;
+// Top traders holding 2.5x more longs than shorts, or the inverse
+export const LONG_SHORT_CROWDED = 2.5;
+// Open interest growth over 24h that counts as a fresh build-up
+export const OPEN_INTEREST_SURGE_PCT = 20;
+
+// Funding moves every few seconds but settles every 8h, OI history is hourly
+export const FUTURES_CONTEXT_TTL_MS = 5 * 60 * 1000;
+// Symbols followed at once: three requests each per refresh
+export const FUTURES_CONTEXT_LIMIT = 40;
+
+interface CachedContext {
+  context: FuturesContext | null; // Null when the symbol has no perpetual
+  fetchedAt: number;
+}
+
+const cache = new Map<string, CachedContext>();
+const inFlight = new Map<string, Promise<FuturesContext | null>>();
+
+// Resolves to null for sources without futures data and symbols without a perpetual;
+// other failures (network, rate limit) reject so the caller can retry later
+export const getFuturesContext = async (
+  symbol: string,
+  provider: MarketDataProvider = getMarketDataProvider()
+): Promise<FuturesContext | null> => {
+  const fetchContext = provider.fetchFuturesContext;
+  if (!fetchContext) return null;
+  const key = `${provider.source}:${symbol}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < FUTURES_CONTEXT_TTL_MS) return cached.context;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = fetchContext(symbol)
+    .catch(error => {
+      if (error instanceof MarketDataError && (error.reason === 'API_ERROR' || error.reason === 'NOT_FOUND')) return null;
+      throw error;
+    })
+    .then(context => {
+      cache.set(key, { context, fetchedAt: Date.now() });
+      return context;
+    })
+    .finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+  return request;
+};
+
+// Contexts of many symbols through the scan scheduler, so they share the request budget
+// with the kline sweep. A failed symbol is simply tried again on the next load.
+export const loadFuturesContexts = (
+  symbols: string[],
+  provider: MarketDataProvider,
+  onContext: (symbol: string, context: FuturesContext) => void
+): ScanHandle =>
+  runScan(
+    symbols.map(symbol => ({
+      id: symbol,
+      run: async signal => {
+        const context = await getFuturesContext(symbol, provider);
+        if (context && !signal.aborted) onContext(symbol, context);
+      }
+    })),
+    { maxConcurrency: 2, weightPerTask: 1, maxRetries: 0 }
+  );
+
+// --- Crowding ---
+
+const SIDE_TEXT: Record<TradeDirection, string> = { LONG: '多头', SHORT: '空头' };
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(4)}%`;
+
+export const assessCrowding = (signal: SignalType, context: FuturesContext): CrowdingFlag[] => {
+  const direction = signalDirection(signal);
+  const flag = (metric: CrowdingFlag['metric'], side: TradeDirection, message: string): CrowdingFlag => ({
+    metric,
+    side,
+    againstSignal: direction === (side === 'LONG' ? 1 : -1),
+    message
+  });
+  const flags: CrowdingFlag[] = [];
+
+  if (Math.abs(context.fundingRate) >= FUNDING_CROWDED) {
+    const side: TradeDirection = context.fundingRate > 0 ? 'LONG' : 'SHORT';
+    flags.push(flag('FUNDING', side, `资金费率 ${formatRate(context.fundingRate)}，${SIDE_TEXT[side]}拥挤`));
+  }
+
+  const ratio = context.longShortRatio;
+  if (ratio !== null && ratio > 0 && (ratio >= LONG_SHORT_CROWDED || ratio <= 1 / LONG_SHORT_CROWDED)) {
+    const side: TradeDirection = ratio > 1 ? 'LONG' : 'SHORT';
+    flags.push(flag('LONG_SHORT_RATIO', side, `大户多空比 ${ratio.toFixed(2)}，${SIDE_TEXT[side]}拥挤`));
+  }
+
+  // New positions on their own have no side, funding tells who is paying to hold them
+  const oiChange = context.openInterestChange24h;
+  if (oiChange !== null && oiChange >= OPEN_INTEREST_SURGE_PCT && context.fundingRate !== 0) {
+    const side: TradeDirection = context.fundingRate > 0 ? 'LONG' : 'SHORT';
+    flags.push(flag('OPEN_INTEREST', side, `持仓量 24h +${oiChange.toFixed(1)}%，${SIDE_TEXT[side]}加仓`));
+  }
+  return flags;
+};
+
+export const withFuturesContext = (setup: TradeSetup, context: FuturesContext): TradeSetup => ({
+  ...setup,
+  futures: context,
+  crowding: assessCrowding(setup.signal, context)
+});
+
+// Every timeframe's setup shares the symbol's context, each judged against its own signal
+export const attachFuturesContext = (analysis: MultiTimeframeSetup, context: FuturesContext): MultiTimeframeSetup => {
+  const setups: IntervalSetups = Object.fromEntries(Object.entries(analysis.setups).map(([interval, setup]) => [
+    interval, setup ? withFuturesContext(setup, context) : setup
+  ]));
+  // Keep the primary one of the setups, as pickPrimarySetup returns it
+  const primary = analysis.primary && (setups[analysis.primary.interval] ?? withFuturesContext(analysis.primary, context));
+  return { ...analysis, setups, primary };
+};
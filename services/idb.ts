@@ -0,0 +1,70 @@
+// Minimal promise wrapper over IndexedDB. The app uses a single database;
+// each feature owns an object store that is created in `upgrade` below.
+
+const DB_NAME = 'ma-strategy';
+const DB_VERSION = 3;
+
+export const STORES = {
+  signals: 'signals',
+  briefings: 'briefings',
+  klines: 'klines'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export const idbSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+// Each version step only adds what it introduced, so existing data survives upgrades
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const signals = db.createObjectStore(STORES.signals, { keyPath: 'id' });
+    signals.createIndex('symbol', 'symbol');
+    signals.createIndex('status', 'status');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.briefings, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.klines, { keyPath: 'id' });
+  }
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!idbSupported()) return Promise.reject(new Error('IndexedDB is not available'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Run `work` in one transaction and resolve with its result once the transaction has committed
+export const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(name, mode);
+    const request = work(tx.objectStore(name));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Candle, smaSeries, emaSeries, atrSeries, bollingerSeries, rsiSeries, macdSeries,
+  createSMA, updateSMA, peekSMA, createEMA, updateEMA, peekEMA, createATR, updateATR, peekATR,
+  createBollinger, updateBollinger, peekBollinger, createRSI, updateRSI, peekRSI,
+  createMACD, updateMACD, peekMACD
+} from './indicators';
+
+const candle = (high: number, low: number, close: number): Candle =>
+  ({ openTime: 0, open: close, high, low, close, volume: 0, closeTime: 0 });
+
+const expectClose = (actual: number[], expected: number[], digits = 6) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => {
+    if (Number.isNaN(expected[i])) expect(value).toBeNaN();
+    else expect(value).toBeCloseTo(expected[i], digits);
+  });
+};
+
+// Closes of the RSI(14) example StockCharts uses. Its table rounds the averages to
+// two decimals (70.53, 66.32, ...); these are the unrounded values TA-Lib gives.
+const WILDER_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.00, 46.03, 46.41, 46.22, 45.64
+];
+const WILDER_RSI = [70.4641, 66.2496, 66.4809, 69.3469, 66.2947, 57.9150];
+
+describe('smaSeries', () => {
+  it('averages the last `period` values', () => {
+    expectClose(smaSeries([1, 2, 3, 4, 5, 6], 3), [NaN, NaN, 2, 3, 4, 5]);
+  });
+});
+
+describe('emaSeries', () => {
+  it('seeds with the SMA and smooths with 2 / (period + 1)', () => {
+    expectClose(emaSeries([2, 4, 6, 8, 10, 13], 3), [NaN, NaN, 4, 6, 8, 10.5]);
+  });
+});
+
+describe('atrSeries', () => {
+  // True ranges 3, 4, 1, 2 (the first candle only seeds the previous close)
+  const candles = [candle(11, 9, 10), candle(12, 9, 11), candle(15, 12, 14), candle(14, 13, 13.5), candle(15, 13, 14)];
+
+  it('takes the plain mean of the true ranges in simple mode', () => {
+    expectClose(atrSeries(candles, 3, 'simple'), [NaN, NaN, NaN, 8 / 3, 7 / 3]);
+  });
+
+  it('applies Wilder smoothing after the seed', () => {
+    expectClose(atrSeries(candles, 3, 'wilder'), [NaN, NaN, NaN, 8 / 3, (8 / 3 * 2 + 2) / 3]);
+  });
+});
+
+describe('bollingerSeries', () => {
+  it('uses the population deviation around the SMA', () => {
+    const last = bollingerSeries([1, 2, 3, 4, 5], 5, 2)[4];
+    expect(last.middle).toBeCloseTo(3);
+    expect(last.upper).toBeCloseTo(3 + 2 * Math.SQRT2);
+    expect(last.lower).toBeCloseTo(3 - 2 * Math.SQRT2);
+  });
+
+  it('has zero width over a flat series', () => {
+    const last = bollingerSeries([7, 7, 7], 3)[2];
+    expect(last.middle).toBe(7);
+    expect(last.upper).toBeCloseTo(7);
+    expect(last.lower).toBeCloseTo(7);
+  });
+});
+
+describe('rsiSeries', () => {
+  it('matches the reference values', () => {
+    const rsi = rsiSeries(WILDER_CLOSES, 14);
+    rsi.slice(0, 14).forEach(value => expect(value).toBeNaN());
+    rsi.slice(14).forEach((value, i) => expect(value).toBeCloseTo(WILDER_RSI[i], 3));
+  });
+
+  it('is 100 without losses and 50 on a flat series', () => {
+    expect(rsiSeries([1, 2, 3, 4], 3)[3]).toBe(100);
+    expect(rsiSeries([5, 5, 5, 5], 3)[3]).toBe(50);
+  });
+});
+
+describe('macdSeries', () => {
+  it('is the fast EMA minus the slow EMA, with an EMA of that as signal', () => {
+    const values = [1, 3, 2, 5, 4, 6, 8, 7];
+    const fast = emaSeries(values, 2);
+    const slow = emaSeries(values, 3);
+    const macd = macdSeries(values, 2, 3, 2);
+    const line = values.map((_, i) => fast[i] - slow[i]);
+    expectClose(macd.map(m => m.macd), line);
+    // The signal EMA only starts once the slow EMA exists (index 2)
+    expectClose(macd.map(m => m.signal), [NaN, NaN, ...emaSeries(line.slice(2), 2)]);
+    macd.slice(3).forEach(m => expect(m.histogram).toBeCloseTo(m.macd - m.signal));
+  });
+});
+
+// The stream scores the forming candle with peek, which must agree with
+// committing that candle
+describe('peek matches update', () => {
+  const values = WILDER_CLOSES;
+  const candles = values.map((close, i) => candle(close + 0.3 + (i % 3) * 0.1, close - 0.4, close));
+
+  const check = <S, V>(create: () => S, peek: (s: S, v: V) => unknown, update: (s: S, v: V) => unknown, inputs: V[]) => {
+    const state = create();
+    inputs.forEach(input => {
+      const peeked = peek(state, input);
+      expect(update(state, input)).toEqual(peeked);
+    });
+  };
+
+  it('for SMA, EMA, Bollinger, RSI and MACD', () => {
+    check(() => createSMA(5), peekSMA, updateSMA, values);
+    check(() => createEMA(5), peekEMA, updateEMA, values);
+    check(() => createBollinger(5), peekBollinger, updateBollinger, values);
+    check(() => createRSI(5), peekRSI, updateRSI, values);
+    check(() => createMACD(3, 6, 4), peekMACD, updateMACD, values);
+  });
+
+  it('for ATR in both smoothing modes', () => {
+    for (const smoothing of ['simple', 'wilder'] as const) {
+      const state = createATR(5, smoothing);
+      candles.forEach((c, i) => {
+        const peeked = peekATR(state, c.high, c.low);
+        const updated = updateATR(state, c.high, c.low, c.close);
+        // The first candle only seeds the previous close
+        if (i === 0) expect(peeked).toBeNaN();
+        else expect(updated).toEqual(peeked);
+      });
+    }
+  });
+});
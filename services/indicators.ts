@@ -0,0 +1,326 @@
+import { Kline } from '../types';
+
+// Rolling indicator state that can be advanced one candle at a time.
+// `update*` commits a closed value and mutates the state; `peek*` returns the
+// value the indicator would have if `value` were the next input, without
+// committing it. Streaming uses peek for the still-forming candle.
+//
+// The `*Series` helpers run the same state over a whole array and return
+// output aligned index-for-index with the input, NaN during warm-up.
+
+// Kline with its numeric fields parsed once
+export interface Candle {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  closeTime: number;
+}
+
+export const parseKline = (kline: Kline): Candle => ({
+  openTime: kline.openTime,
+  open: parseFloat(kline.open),
+  high: parseFloat(kline.high),
+  low: parseFloat(kline.low),
+  close: parseFloat(kline.close),
+  volume: parseFloat(kline.volume),
+  closeTime: kline.closeTime
+});
+
+export const parseKlines = (klines: Kline[]): Candle[] => klines.map(parseKline);
+
+export const closes = (candles: Candle[]): number[] => candles.map(c => c.close);
+
+// --- SMA ---
+
+export interface RollingSMA {
+  period: number;
+  window: number[]; // Ring buffer of the last `period` inputs
+  next: number; // Ring buffer write position
+  count: number;
+  sum: number;
+}
+
+export const createSMA = (period: number): RollingSMA => ({
+  period,
+  window: new Array(period).fill(0),
+  next: 0,
+  count: 0,
+  sum: 0
+});
+
+export const updateSMA = (state: RollingSMA, value: number): number => {
+  if (state.count >= state.period) {
+    state.sum -= state.window[state.next];
+  } else {
+    state.count++;
+  }
+  state.window[state.next] = value;
+  state.sum += value;
+  state.next = (state.next + 1) % state.period;
+  return state.count >= state.period ? state.sum / state.period : NaN;
+};
+
+export const peekSMA = (state: RollingSMA, value: number): number => {
+  if (state.count + 1 < state.period) return NaN;
+  const dropped = state.count >= state.period ? state.window[state.next] : 0;
+  return (state.sum - dropped + value) / state.period;
+};
+
+export const smaSeries = (values: number[], period: number): number[] => {
+  const state = createSMA(period);
+  return values.map(v => updateSMA(state, v));
+};
+
+// --- EMA ---
+
+export interface RollingEMA {
+  period: number;
+  k: number;
+  count: number;
+  seedSum: number; // The first EMA value is the SMA of the first `period` inputs
+  value: number;
+}
+
+export const createEMA = (period: number): RollingEMA => ({
+  period,
+  k: 2 / (period + 1),
+  count: 0,
+  seedSum: 0,
+  value: NaN
+});
+
+export const updateEMA = (state: RollingEMA, value: number): number => {
+  state.count++;
+  if (state.count < state.period) {
+    state.seedSum += value;
+  } else if (state.count === state.period) {
+    state.seedSum += value;
+    state.value = state.seedSum / state.period;
+  } else {
+    state.value = value * state.k + state.value * (1 - state.k);
+  }
+  return state.value;
+};
+
+export const peekEMA = (state: RollingEMA, value: number): number => {
+  if (state.count + 1 < state.period) return NaN;
+  if (state.count + 1 === state.period) return (state.seedSum + value) / state.period;
+  return value * state.k + state.value * (1 - state.k);
+};
+
+export const emaSeries = (values: number[], period: number): number[] => {
+  const state = createEMA(period);
+  return values.map(v => updateEMA(state, v));
+};
+
+// --- ATR ---
+
+// 'simple' is the plain mean of the last `period` true ranges,
+// 'wilder' is Wilder's smoothing seeded with that mean.
+export type AtrSmoothing = 'simple' | 'wilder';
+
+// The first candle has no previous close and only seeds the state.
+export interface RollingATR {
+  smoothing: AtrSmoothing;
+  period: number;
+  prevClose: number;
+  trueRange: RollingSMA;
+  value: number; // Wilder value, unused for 'simple'
+}
+
+export const createATR = (period: number, smoothing: AtrSmoothing = 'simple'): RollingATR => ({
+  smoothing,
+  period,
+  prevClose: NaN,
+  trueRange: createSMA(period),
+  value: NaN
+});
+
+const trueRange = (high: number, low: number, prevClose: number): number =>
+  Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+
+const wilderStep = (state: RollingATR, tr: number, seeded: number): number =>
+  Number.isNaN(state.value) ? seeded : (state.value * (state.period - 1) + tr) / state.period;
+
+export const updateATR = (state: RollingATR, high: number, low: number, close: number): number => {
+  if (Number.isNaN(state.prevClose)) {
+    state.prevClose = close;
+    return NaN;
+  }
+  const tr = trueRange(high, low, state.prevClose);
+  state.prevClose = close;
+  const mean = updateSMA(state.trueRange, tr);
+  if (state.smoothing === 'simple') return mean;
+  if (!Number.isNaN(mean) || !Number.isNaN(state.value)) state.value = wilderStep(state, tr, mean);
+  return state.value;
+};
+
+export const peekATR = (state: RollingATR, high: number, low: number): number => {
+  if (Number.isNaN(state.prevClose)) return NaN;
+  const tr = trueRange(high, low, state.prevClose);
+  const mean = peekSMA(state.trueRange, tr);
+  if (state.smoothing === 'simple' || (Number.isNaN(mean) && Number.isNaN(state.value))) return mean;
+  return wilderStep(state, tr, mean);
+};
+
+export const atrSeries = (candles: Candle[], period: number = 14, smoothing: AtrSmoothing = 'wilder'): number[] => {
+  const state = createATR(period, smoothing);
+  return candles.map(c => updateATR(state, c.high, c.low, c.close));
+};
+
+// --- Bollinger Bands ---
+
+export interface BollingerValue {
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+export interface RollingBollinger {
+  multiplier: number;
+  mean: RollingSMA;
+  squares: RollingSMA; // Rolling mean of squared inputs for the population variance
+}
+
+export const createBollinger = (period: number = 20, multiplier: number = 2): RollingBollinger => ({
+  multiplier,
+  mean: createSMA(period),
+  squares: createSMA(period)
+});
+
+const bollingerValue = (state: RollingBollinger, mean: number, meanSquares: number): BollingerValue => {
+  if (Number.isNaN(mean)) return { middle: NaN, upper: NaN, lower: NaN };
+  // Clamp tiny negative variances caused by floating point cancellation
+  const deviation = Math.sqrt(Math.max(0, meanSquares - mean * mean));
+  return { middle: mean, upper: mean + state.multiplier * deviation, lower: mean - state.multiplier * deviation };
+};
+
+export const updateBollinger = (state: RollingBollinger, value: number): BollingerValue =>
+  bollingerValue(state, updateSMA(state.mean, value), updateSMA(state.squares, value * value));
+
+export const peekBollinger = (state: RollingBollinger, value: number): BollingerValue =>
+  bollingerValue(state, peekSMA(state.mean, value), peekSMA(state.squares, value * value));
+
+export const bollingerSeries = (values: number[], period: number = 20, multiplier: number = 2): BollingerValue[] => {
+  const state = createBollinger(period, multiplier);
+  return values.map(v => updateBollinger(state, v));
+};
+
+// --- RSI (Wilder) ---
+
+export interface RollingRSI {
+  period: number;
+  prev: number;
+  count: number; // Number of price changes seen
+  gainSum: number; // Seed sums over the first `period` changes
+  lossSum: number;
+  avgGain: number;
+  avgLoss: number;
+}
+
+export const createRSI = (period: number = 14): RollingRSI => ({
+  period,
+  prev: NaN,
+  count: 0,
+  gainSum: 0,
+  lossSum: 0,
+  avgGain: NaN,
+  avgLoss: NaN
+});
+
+const rsiFromAverages = (avgGain: number, avgLoss: number): number => {
+  if (Number.isNaN(avgGain)) return NaN;
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+};
+
+// Averages after applying one more change, without touching the state
+const nextRsiAverages = (state: RollingRSI, value: number): { avgGain: number; avgLoss: number } => {
+  const change = value - state.prev;
+  const gain = Math.max(change, 0);
+  const loss = Math.max(-change, 0);
+  const count = state.count + 1;
+  if (count < state.period) return { avgGain: NaN, avgLoss: NaN };
+  if (count === state.period) {
+    return { avgGain: (state.gainSum + gain) / state.period, avgLoss: (state.lossSum + loss) / state.period };
+  }
+  return {
+    avgGain: (state.avgGain * (state.period - 1) + gain) / state.period,
+    avgLoss: (state.avgLoss * (state.period - 1) + loss) / state.period
+  };
+};
+
+export const updateRSI = (state: RollingRSI, value: number): number => {
+  if (Number.isNaN(state.prev)) {
+    state.prev = value;
+    return NaN;
+  }
+  const { avgGain, avgLoss } = nextRsiAverages(state, value);
+  const change = value - state.prev;
+  if (state.count + 1 < state.period) {
+    state.gainSum += Math.max(change, 0);
+    state.lossSum += Math.max(-change, 0);
+  }
+  state.count++;
+  state.avgGain = avgGain;
+  state.avgLoss = avgLoss;
+  state.prev = value;
+  return rsiFromAverages(avgGain, avgLoss);
+};
+
+export const peekRSI = (state: RollingRSI, value: number): number => {
+  if (Number.isNaN(state.prev)) return NaN;
+  const { avgGain, avgLoss } = nextRsiAverages(state, value);
+  return rsiFromAverages(avgGain, avgLoss);
+};
+
+export const rsiSeries = (values: number[], period: number = 14): number[] => {
+  const state = createRSI(period);
+  return values.map(v => updateRSI(state, v));
+};
+
+// --- MACD ---
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface RollingMACD {
+  fast: RollingEMA;
+  slow: RollingEMA;
+  signal: RollingEMA; // EMA of the MACD line, fed only once the slow EMA exists
+}
+
+export const createMACD = (fast: number = 12, slow: number = 26, signal: number = 9): RollingMACD => ({
+  fast: createEMA(fast),
+  slow: createEMA(slow),
+  signal: createEMA(signal)
+});
+
+const macdValue = (macd: number, signal: number): MACDValue => ({
+  macd,
+  signal,
+  histogram: macd - signal
+});
+
+export const updateMACD = (state: RollingMACD, value: number): MACDValue => {
+  const macd = updateEMA(state.fast, value) - updateEMA(state.slow, value);
+  const signal = Number.isNaN(macd) ? NaN : updateEMA(state.signal, macd);
+  return macdValue(macd, signal);
+};
+
+export const peekMACD = (state: RollingMACD, value: number): MACDValue => {
+  const macd = peekEMA(state.fast, value) - peekEMA(state.slow, value);
+  const signal = Number.isNaN(macd) ? NaN : peekEMA(state.signal, macd);
+  return macdValue(macd, signal);
+};
+
+export const macdSeries = (values: number[], fast: number = 12, slow: number = 26, signal: number = 9): MACDValue[] => {
+  const state = createMACD(fast, slow, signal);
+  return values.map(v => updateMACD(state, v));
+};
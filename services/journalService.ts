@@ -0,0 +1,324 @@
+import { JournalEntry, MarketBriefing, TradeSetup, StrategyConfig, SignalType, Kline, BacktestStats, ExitReason } from '../types';
+import { StrategyInterval, evaluatedKlines } from './strategyService';
+import { BacktestOptions, checkExit, directionOf, computeBacktestStats } from './backtestService';
+import { parseKline } from './indicators';
+import { STORES, idbSupported, withStore } from './idb';
+
+// Forward-testing journal: every LONG/SHORT/WATCH call the live scanner makes is
+// stored with the config that produced it, then resolved against the candles
+// that follow with the same exit rules as the backtester. AI market briefings
+// are kept alongside, so a read of the market can be checked against what followed.
+
+// --- Storage ---
+
+export interface JournalStore {
+  getAll: () => Promise<JournalEntry[]>;
+  put: (entries: JournalEntry[]) => Promise<void>;
+  getBriefings: () => Promise<MarketBriefing[]>;
+  putBriefing: (briefing: MarketBriefing) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export const createIndexedDbJournalStore = (): JournalStore => ({
+  getAll: async () => (await withStore<JournalEntry[]>(STORES.signals, 'readonly', store => store.getAll())) ?? [],
+  put: async entries => {
+    await withStore(STORES.signals, 'readwrite', store => { entries.forEach(entry => store.put(entry)); });
+  },
+  getBriefings: async () => (await withStore<MarketBriefing[]>(STORES.briefings, 'readonly', store => store.getAll())) ?? [],
+  putBriefing: async briefing => {
+    await withStore(STORES.briefings, 'readwrite', store => store.put(briefing));
+  },
+  clear: async () => {
+    await withStore(STORES.signals, 'readwrite', store => store.clear());
+    await withStore(STORES.briefings, 'readwrite', store => store.clear());
+  }
+});
+
+// Fallback for browsers without IndexedDB (some private modes), the journal lasts for the session
+export const createMemoryJournalStore = (): JournalStore => {
+  const entries = new Map<string, JournalEntry>();
+  const briefings = new Map<string, MarketBriefing>();
+  return {
+    getAll: async () => Array.from(entries.values()),
+    put: async list => { list.forEach(entry => entries.set(entry.id, entry)); },
+    getBriefings: async () => Array.from(briefings.values()),
+    putBriefing: async briefing => { briefings.set(briefing.id, briefing); },
+    clear: async () => {
+      entries.clear();
+      briefings.clear();
+    }
+  };
+};
+
+export const createDefaultJournalStore = (): JournalStore =>
+  idbSupported() ? createIndexedDbJournalStore() : createMemoryJournalStore();
+
+// --- Entries and outcomes ---
+
+// WAIT is the absence of a call and is not recorded
+export const JOURNAL_SIGNALS: SignalType[] = [
+  SignalType.LONG, SignalType.SHORT, SignalType.BREAKOUT_LONG, SignalType.BREAKDOWN_SHORT, SignalType.WATCH
+];
+
+export interface ResolveOptions {
+  maxBars: number; // Bars after which an untouched signal expires at the close
+  intrabarPolicy: BacktestOptions['intrabarPolicy'];
+}
+
+export const DEFAULT_RESOLVE_OPTIONS: ResolveOptions = {
+  maxBars: 100,
+  intrabarPolicy: 'ohlc-path'
+};
+
+export const createJournalEntry = (
+  setup: TradeSetup,
+  config: StrategyConfig,
+  candleTime: number,
+  recordedAt: number
+): JournalEntry => ({
+  // Deterministic, so the same call seen twice on one candle (or after a reload) is stored once
+  id: `${setup.symbol}:${setup.interval}:${candleTime}:${setup.signal}`,
+  symbol: setup.symbol,
+  interval: setup.interval,
+  signal: setup.signal,
+  direction: directionOf(setup),
+  recordedAt,
+  candleTime,
+  entryPrice: setup.entryPrice,
+  stopLoss: setup.stopLoss,
+  takeProfit: setup.takeProfit,
+  densityScore: setup.densityScore,
+  reason: setup.reason,
+  config,
+  status: 'OPEN'
+});
+
+const closeEntry = (
+  entry: JournalEntry,
+  exitKline: Kline,
+  exit: { price: number; reason: ExitReason },
+  barsHeld: number
+): JournalEntry => {
+  const sign = entry.direction === 'LONG' ? 1 : -1;
+  const risk = Math.abs(entry.entryPrice - entry.stopLoss);
+  const move = (exit.price - entry.entryPrice) * sign;
+  return {
+    ...entry,
+    status: 'RESOLVED',
+    outcome: {
+      symbol: entry.symbol,
+      interval: entry.interval,
+      direction: entry.direction,
+      signal: entry.signal,
+      entryTime: entry.candleTime,
+      entryPrice: entry.entryPrice,
+      stopLoss: entry.stopLoss,
+      takeProfit: entry.takeProfit,
+      exitTime: exitKline.closeTime,
+      exitPrice: exit.price,
+      exitReason: exit.reason,
+      barsHeld,
+      rMultiple: risk > 0 ? move / risk : 0,
+      pnlPct: (move / entry.entryPrice) * 100
+    }
+  };
+};
+
+// Walk the candles after the signal until one touches SL or TP. The rest of the
+// signal's own candle is skipped: its high/low may have printed before the signal.
+export const resolveEntry = (
+  entry: JournalEntry,
+  klines: Kline[],
+  options: ResolveOptions = DEFAULT_RESOLVE_OPTIONS,
+  now: number = Date.now()
+): JournalEntry => {
+  if (entry.status !== 'OPEN') return entry;
+  const after = klines.filter(k => k.openTime > entry.candleTime);
+  for (let i = 0; i < after.length; i++) {
+    const bar = parseKline(after[i]);
+    const exit = checkExit(entry, entry.direction, bar, options.intrabarPolicy);
+    if (exit) return closeEntry(entry, after[i], exit, i + 1);
+    // Expire only on a closed candle, the forming one has no final close yet
+    if (i + 1 >= options.maxBars && after[i].closeTime < now) {
+      return closeEntry(entry, after[i], { price: bar.close, reason: 'END_OF_DATA' }, i + 1);
+    }
+  }
+  return entry;
+};
+
+// --- Statistics ---
+
+export type JournalGrouping = 'signal' | 'interval' | 'config';
+
+export interface JournalGroupStats {
+  key: string;
+  open: number;
+  hitRate: number; // Share of resolved signals that reached TP, 0-100
+  expired: number;
+  stats: BacktestStats; // Same shape as a backtest report, for side by side comparison
+}
+
+export const describeConfig = (config: StrategyConfig): string => {
+  const { short, mid, long } = config.maPeriods;
+  return `MA ${short}/${mid}/${long} · 密集<${config.denseThreshold}% · 偏离<${config.priceDeviationThreshold}% · ATR×${config.atrMultiplier} · ${config.rewardRatio}R`;
+};
+
+const groupKey = (entry: JournalEntry, grouping: JournalGrouping): string => {
+  switch (grouping) {
+    case 'signal':
+      return entry.signal;
+    case 'interval':
+      return entry.interval;
+    default:
+      return describeConfig(entry.config);
+  }
+};
+
+export const computeJournalStats = (entries: JournalEntry[], grouping: JournalGrouping): JournalGroupStats[] => {
+  const groups = new Map<string, JournalEntry[]>();
+  entries.forEach(entry => {
+    const key = groupKey(entry, grouping);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, list]) => {
+      // Drawdowns are measured in the order trades closed
+      const outcomes = list
+        .map(e => e.outcome)
+        .filter((o): o is NonNullable<JournalEntry['outcome']> => !!o)
+        .sort((a, b) => a.exitTime - b.exitTime);
+      const hits = outcomes.filter(o => o.exitReason === 'TAKE_PROFIT').length;
+      return {
+        key,
+        open: list.length - outcomes.length,
+        hitRate: outcomes.length ? (hits / outcomes.length) * 100 : 0,
+        expired: outcomes.filter(o => o.exitReason === 'END_OF_DATA').length,
+        stats: computeBacktestStats(outcomes)
+      };
+    })
+    .sort((a, b) => b.stats.trades + b.open - (a.stats.trades + a.open));
+};
+
+// --- Live recorder ---
+
+export interface JournalInput {
+  symbol: string;
+  interval: StrategyInterval;
+  setup: TradeSetup | null;
+  klines: Kline[]; // Rolling buffer of the series, the last candle may still be forming
+}
+
+export interface SignalJournalOptions {
+  store?: JournalStore;
+  resolve?: ResolveOptions;
+  onChange?: (entries: JournalEntry[]) => void;
+  onBriefingsChange?: (briefings: MarketBriefing[]) => void;
+  now?: () => number;
+}
+
+export interface SignalJournal {
+  ready: Promise<void>;
+  process: (inputs: JournalInput[], config: StrategyConfig) => void;
+  getEntries: () => JournalEntry[]; // Newest first
+  addBriefing: (briefing: MarketBriefing) => void;
+  getBriefings: () => MarketBriefing[]; // Newest first
+  clear: () => Promise<void>;
+}
+
+export const createSignalJournal = (options: SignalJournalOptions = {}): SignalJournal => {
+  const {
+    store = createDefaultJournalStore(),
+    resolve = DEFAULT_RESOLVE_OPTIONS,
+    onChange,
+    onBriefingsChange,
+    now = Date.now
+  } = options;
+
+  const entries = new Map<string, JournalEntry>();
+  const briefings = new Map<string, MarketBriefing>();
+  const lastSignal = new Map<string, SignalType | null>();
+  let loaded = false;
+
+  const getEntries = () => Array.from(entries.values()).sort((a, b) => b.recordedAt - a.recordedAt);
+  const getBriefings = () => Array.from(briefings.values()).sort((a, b) => b.createdAt - a.createdAt);
+
+  const ready = Promise.all([
+    store.getAll()
+      .then(stored => stored.forEach(entry => entries.set(entry.id, entry)))
+      .catch(error => console.error('Failed to load signal journal', error)),
+    store.getBriefings()
+      .then(stored => stored.forEach(briefing => briefings.set(briefing.id, briefing)))
+      .catch(error => console.error('Failed to load market briefings', error))
+  ]).then(() => {
+    loaded = true;
+    onChange?.(getEntries());
+    onBriefingsChange?.(getBriefings());
+  });
+
+  const process = (inputs: JournalInput[], config: StrategyConfig) => {
+    // Nothing is recorded before stored entries are known, otherwise a reload would duplicate open calls
+    if (!loaded) return;
+    const changed: JournalEntry[] = [];
+    const t = now();
+    // Open entries per series, so each update only looks at its own
+    const open = new Map<string, JournalEntry[]>();
+    entries.forEach(entry => {
+      if (entry.status !== 'OPEN') return;
+      const key = `${entry.symbol}:${entry.interval}`;
+      open.set(key, [...(open.get(key) ?? []), entry]);
+    });
+
+    inputs.forEach(({ symbol, interval, setup, klines }) => {
+      const seriesKey = `${symbol}:${interval}`;
+      // The candle the setup was scored on, the last closed one in 'closed' mode
+      const evaluated = evaluatedKlines(klines, config, t);
+      const signalCandle = evaluated[evaluated.length - 1];
+      const seen = lastSignal.has(seriesKey);
+      const prev = lastSignal.get(seriesKey);
+      lastSignal.set(seriesKey, setup?.signal ?? null);
+      const openEntries = open.get(seriesKey) ?? [];
+
+      if (setup && signalCandle && JOURNAL_SIGNALS.includes(setup.signal) && setup.signal !== prev) {
+        // On the first result after a reload, an open entry of the same call means it is still running
+        const alreadyOpen = !seen && openEntries.some(e => e.signal === setup.signal);
+        const entry = createJournalEntry(setup, config, signalCandle.openTime, t);
+        if (!alreadyOpen && !entries.has(entry.id)) {
+          entries.set(entry.id, entry);
+          changed.push(entry);
+        }
+      }
+
+      openEntries.forEach(entry => {
+        const resolved = resolveEntry(entry, klines, resolve, t);
+        if (resolved !== entry) {
+          entries.set(entry.id, resolved);
+          changed.push(resolved);
+        }
+      });
+    });
+
+    if (changed.length === 0) return;
+    store.put(changed).catch(error => console.error('Failed to save signal journal', error));
+    onChange?.(getEntries());
+  };
+
+  return {
+    ready,
+    process,
+    getEntries,
+    addBriefing: briefing => {
+      briefings.set(briefing.id, briefing);
+      store.putBriefing(briefing).catch(error => console.error('Failed to save market briefing', error));
+      onBriefingsChange?.(getBriefings());
+    },
+    getBriefings,
+    clear: async () => {
+      entries.clear();
+      briefings.clear();
+      await store.clear();
+      onChange?.([]);
+      onBriefingsChange?.([]);
+    }
+  };
+};
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Kline } from '../types';
+import { KlineRange, MarketDataProvider } from './marketDataProvider';
+import { createFixtureProvider, fixtureKey } from './fixtureProvider';
+import { KlineStore, MAX_STORED_KLINES, createMemoryKlineStore, loadKlines, setKlineStore } from './klineStore';
+
+const HOUR = 60 * 60 * 1000;
+const ID = 'binance-spot:BTCUSDT:1h';
+
+const hourly = (count: number): Kline[] => Array.from({ length: count }, (_, i) => ({
+  openTime: i * HOUR, open: String(100 + i), high: String(101 + i), low: String(99 + i), close: String(100 + i), volume: '10',
+  closeTime: (i + 1) * HOUR - 1
+}));
+
+const recorded = hourly(5100);
+
+// The fixture replayed up to the fake clock, posing as an exchange so loads go through the store
+const createExchange = (klines: Kline[] = recorded) => {
+  const fixture = createFixtureProvider({ version: 1, klines: { [fixtureKey('BTCUSDT', '1h')]: klines } }, { now: () => Date.now() });
+  const calls: ({ limit?: number } & KlineRange)[] = [];
+  const provider: MarketDataProvider = {
+    ...fixture,
+    source: 'binance-spot',
+    fetchKlines: (symbol, interval, limit, range = {}) => {
+      calls.push({ limit, ...range });
+      return fixture.fetchKlines(symbol, interval, limit, range);
+    }
+  };
+  return { provider, calls };
+};
+
+const openHours = (klines: Kline[]) => klines.map(k => k.openTime / HOUR);
+const hours = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+let store: KlineStore;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  store = createMemoryKlineStore();
+  setKlineStore(store);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const storeKlines = (klines: Kline[]) => store.put({ id: ID, klines, gaps: [], updatedAt: 0 });
+
+describe('loadKlines', () => {
+  it('asks only for the candles since the last stored one on a warm rescan', async () => {
+    const { provider, calls } = createExchange();
+    vi.setSystemTime(300.5 * HOUR);
+    expect(openHours(await loadKlines('BTCUSDT', '1h', provider, 300))).toEqual(hours(1, 300));
+
+    calls.length = 0;
+    vi.setSystemTime(302.5 * HOUR);
+    const klines = await loadKlines('BTCUSDT', '1h', provider, 300);
+    expect(openHours(klines)).toEqual(hours(3, 302));
+    expect(calls).toEqual([{ limit: 4, startTime: 300 * HOUR, endTime: undefined }]);
+  });
+
+  it('replaces the stored forming candle instead of adding it again', async () => {
+    const { provider } = createExchange();
+    await storeKlines([...recorded.slice(1, 300), { ...recorded[300], close: '1', closeTime: 300.2 * HOUR }]);
+    vi.setSystemTime(300.5 * HOUR);
+    const klines = await loadKlines('BTCUSDT', '1h', provider, 300);
+    expect(openHours(klines)).toEqual(hours(1, 300));
+    expect(klines[klines.length - 1]).toEqual(recorded[300]);
+  });
+
+  it('backfills holes in the stored candles, five per load', async () => {
+    const { provider, calls } = createExchange();
+    // Seven missing candles: 10, 20, ... 70
+    await storeKlines(recorded.slice(1, 301).filter(k => k.openTime % (10 * HOUR) !== 0 || k.openTime > 70 * HOUR));
+    vi.setSystemTime(300.5 * HOUR);
+
+    await loadKlines('BTCUSDT', '1h', provider, 290);
+    const backfills = calls.filter(call => call.endTime !== undefined);
+    expect(backfills.map(call => call.startTime! / HOUR)).toEqual([10, 20, 30, 40, 50]);
+    expect(backfills[0].endTime).toBe(11 * HOUR - 1);
+
+    await loadKlines('BTCUSDT', '1h', provider, 290);
+    expect(openHours((await store.get(ID))!.klines)).toEqual(hours(1, 300));
+  });
+
+  it('remembers holes the exchange has no candles for', async () => {
+    const { provider, calls } = createExchange(recorded.filter(k => k.openTime < 100 * HOUR || k.openTime > 104 * HOUR));
+    vi.setSystemTime(300.5 * HOUR);
+    await storeKlines(recorded.slice(1, 301).filter(k => k.openTime < 100 * HOUR || k.openTime > 104 * HOUR));
+
+    await loadKlines('BTCUSDT', '1h', provider, 290);
+    expect((await store.get(ID))!.gaps).toEqual([99 * HOUR]);
+    calls.length = 0;
+    await loadKlines('BTCUSDT', '1h', provider, 290);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('keeps at most the newest MAX_STORED_KLINES candles', async () => {
+    const { provider } = createExchange();
+    await storeKlines(recorded.slice(0, MAX_STORED_KLINES));
+    vi.setSystemTime((MAX_STORED_KLINES + 10.5) * HOUR);
+    await loadKlines('BTCUSDT', '1h', provider, 300);
+    const stored = (await store.get(ID))!.klines;
+    expect(stored).toHaveLength(MAX_STORED_KLINES);
+    expect(stored[0].openTime).toBe(11 * HOUR);
+    expect(stored[stored.length - 1].openTime).toBe((MAX_STORED_KLINES + 10) * HOUR);
+  });
+});
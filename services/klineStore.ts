@@ -0,0 +1,189 @@
+import { Kline } from '../types';
+import { MarketDataProvider } from './marketDataProvider';
+import { INTERVAL_MS, StrategyInterval } from './strategyService';
+import { STORES, idbSupported, withStore } from './idb';
+
+// Candles kept across page loads, one record per source, symbol and interval.
+// A load only asks the exchange for what the record lacks: the candles from the
+// last stored one on (which was still forming when stored and is replaced),
+// older ones when more history is asked for than is stored, and any holes in
+// between. A warm rescan is then one small request per series.
+
+// Largest page Binance serves on both markets
+const PAGE_SIZE = 1000;
+// Longest history kept per series, deeper analyses can ask for up to this many
+export const MAX_STORED_KLINES = 5000;
+// Further behind than this and the record is fetched anew rather than caught up
+const MAX_CATCH_UP_PAGES = 3;
+// Holes filled per load, so a patchy listing cannot turn one load into many requests
+const MAX_GAP_FILLS = 5;
+
+export interface StoredKlines {
+  id: string; // source:symbol:interval
+  klines: Kline[];
+  // Open times after which the exchange itself has no candles (maintenance), not refetched
+  gaps: number[];
+  updatedAt: number;
+}
+
+// --- Storage ---
+
+export interface KlineStore {
+  get: (id: string) => Promise<StoredKlines | null>;
+  put: (record: StoredKlines) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export const createIndexedDbKlineStore = (): KlineStore => ({
+  get: async id => (await withStore<StoredKlines | undefined>(STORES.klines, 'readonly', store => store.get(id))) ?? null,
+  put: async record => {
+    await withStore(STORES.klines, 'readwrite', store => store.put(record));
+  },
+  clear: async () => {
+    await withStore(STORES.klines, 'readwrite', store => store.clear());
+  }
+});
+
+// Without IndexedDB (command line, some private modes) candles last for the process
+export const createMemoryKlineStore = (): KlineStore => {
+  const records = new Map<string, StoredKlines>();
+  return {
+    get: async id => records.get(id) ?? null,
+    put: async record => { records.set(record.id, record); },
+    clear: async () => { records.clear(); }
+  };
+};
+
+let klineStore: KlineStore | null = null;
+
+export const getKlineStore = (): KlineStore =>
+  klineStore ??= idbSupported() ? createIndexedDbKlineStore() : createMemoryKlineStore();
+
+export const setKlineStore = (store: KlineStore): void => {
+  klineStore = store;
+};
+
+// --- Fetching ---
+
+// Candles from `startTime` up to the forming one, page after page
+const fetchForward = async (
+  provider: MarketDataProvider, symbol: string, interval: StrategyInterval, startTime: number, endTime?: number
+): Promise<Kline[]> => {
+  const step = INTERVAL_MS[interval];
+  const result: Kline[] = [];
+  let cursor = startTime;
+  while (true) {
+    // The first page only needs room for the candles since `cursor`, a warm rescan asks for two or three
+    const expected = Math.floor(((endTime ?? Date.now()) - cursor) / step) + 1;
+    const limit = Math.max(1, Math.min(PAGE_SIZE, expected + 1));
+    const page = await provider.fetchKlines(symbol, interval, limit, { startTime: cursor, endTime });
+    result.push(...page);
+    if (page.length < limit || page.length === 0) return result;
+    cursor = page[page.length - 1].openTime + step;
+    if (endTime !== undefined && cursor > endTime) return result;
+  }
+};
+
+// `count` candles opened at or before `endTime` (the latest ones without it), oldest first
+const fetchBackward = async (
+  provider: MarketDataProvider, symbol: string, interval: StrategyInterval, count: number, endTime?: number
+): Promise<Kline[]> => {
+  let result: Kline[] = [];
+  let cursor = endTime;
+  while (result.length < count) {
+    const limit = Math.min(PAGE_SIZE, count - result.length);
+    const page = await provider.fetchKlines(symbol, interval, limit, cursor === undefined ? {} : { endTime: cursor });
+    result = [...page, ...result];
+    // A short page means the listing starts here
+    if (page.length < limit || page.length === 0) break;
+    cursor = page[0].openTime - 1;
+  }
+  return result;
+};
+
+// Newer candles replace stored ones from their first open time on
+const mergeNewer = (stored: Kline[], newer: Kline[]): Kline[] => {
+  if (newer.length === 0) return stored;
+  const from = newer[0].openTime;
+  return [...stored.filter(k => k.openTime < from), ...newer];
+};
+
+const fillGaps = async (
+  provider: MarketDataProvider, symbol: string, interval: StrategyInterval, klines: Kline[], gaps: number[]
+): Promise<{ klines: Kline[]; gaps: number[] }> => {
+  const step = INTERVAL_MS[interval];
+  const known = new Set(gaps);
+  const holes: [number, number][] = [];
+  for (let i = 1; i < klines.length && holes.length < MAX_GAP_FILLS; i++) {
+    const prev = klines[i - 1].openTime;
+    if (klines[i].openTime - prev > step && !known.has(prev)) holes.push([prev, klines[i].openTime]);
+  }
+  if (holes.length === 0) return { klines, gaps };
+
+  const filled = new Map<number, Kline>(klines.map(k => [k.openTime, k]));
+  for (const [after, before] of holes) {
+    const missing = await fetchForward(provider, symbol, interval, after + step, before - 1);
+    if (missing.length === 0) known.add(after);
+    missing.forEach(k => filled.set(k.openTime, k));
+  }
+  // Gaps that fell out of the kept history are forgotten
+  const merged = Array.from(filled.values()).sort((a, b) => a.openTime - b.openTime);
+  const oldest = merged[0]?.openTime ?? 0;
+  return { klines: merged, gaps: Array.from(known).filter(time => time >= oldest) };
+};
+
+const inFlight = new Map<string, { count: number; request: Promise<Kline[]> }>();
+
+const loadSeries = async (
+  provider: MarketDataProvider, symbol: string, interval: StrategyInterval, count: number, id: string
+): Promise<Kline[]> => {
+  const store = getKlineStore();
+  const stored = await store.get(id).catch(error => {
+    console.warn(`Kline store read failed for ${id}`, error);
+    return null;
+  });
+
+  const step = INTERVAL_MS[interval];
+  let klines = stored?.klines ?? [];
+  let gaps = stored?.gaps ?? [];
+  const last = klines[klines.length - 1];
+  if (!last || (Date.now() - last.openTime) / step > MAX_CATCH_UP_PAGES * PAGE_SIZE) {
+    klines = await fetchBackward(provider, symbol, interval, count);
+    gaps = [];
+  } else {
+    klines = mergeNewer(klines, await fetchForward(provider, symbol, interval, last.openTime));
+    if (klines.length < count) {
+      klines = [...await fetchBackward(provider, symbol, interval, count - klines.length, klines[0].openTime - 1), ...klines];
+    }
+  }
+  ({ klines, gaps } = await fillGaps(provider, symbol, interval, klines, gaps));
+
+  klines = klines.slice(-MAX_STORED_KLINES);
+  await store.put({ id, klines, gaps, updatedAt: Date.now() }).catch(error =>
+    console.warn(`Kline store write failed for ${id}`, error));
+  return klines.slice(-count);
+};
+
+// The last `count` candles of a series, the final one still forming. Recorded
+// fixtures are served as they are, storing them would mix up replays.
+export const loadKlines = (
+  symbol: string,
+  interval: StrategyInterval,
+  provider: MarketDataProvider,
+  count: number = 300
+): Promise<Kline[]> => {
+  if (provider.source === 'fixture') return provider.fetchKlines(symbol, interval, count);
+  const limit = Math.min(count, MAX_STORED_KLINES);
+  const id = `${provider.source}:${symbol}:${interval}`;
+  // Two callers after the same series (the seed and the briefing's BTC) share one load,
+  // one wanting more history waits for the other so they don't overwrite each other's record
+  const pending = inFlight.get(id);
+  if (pending && pending.count >= limit) return pending.request.then(klines => klines.slice(-limit));
+  const request = (pending ? pending.request.catch(() => undefined) : Promise.resolve())
+    .then(() => loadSeries(provider, symbol, interval, limit, id))
+    .finally(() => {
+      if (inFlight.get(id)?.request === request) inFlight.delete(id);
+    });
+  inFlight.set(id, { count: limit, request });
+  return request;
+};
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Kline } from '../types';
+import { DEFAULT_STRATEGY_CONFIG } from './strategyService';
+import { KlineStream, SocketLike, createKlineStream } from './klineStream';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 5, 12, 30);
+const FORMING = Math.floor(NOW / HOUR) * HOUR;
+
+const kline = (openTime: number, close: number): Kline => ({
+  openTime, open: String(close), high: String(close + 1), low: String(close - 1), close: String(close), volume: '10',
+  closeTime: openTime + HOUR - 1
+});
+
+// 200 closed candles and the forming one
+const history = () => Array.from({ length: 201 }, (_, i) => kline(FORMING - (200 - i) * HOUR, 100 + i * 0.1));
+
+const setup = () => {
+  const sockets: SocketLike[] = [];
+  const loadHistory = vi.fn(async () => history());
+  const stream = createKlineStream({
+    symbols: ['BTCUSDT'],
+    intervals: ['1h'],
+    config: DEFAULT_STRATEGY_CONFIG,
+    onUpdate: () => {},
+    baseUrl: 'ws://test',
+    createSocket: () => {
+      const socket: SocketLike = { onopen: null, onmessage: null, onclose: null, onerror: null, close: () => {}, send: () => {} };
+      sockets.push(socket);
+      return socket;
+    },
+    loadHistory,
+    flushIntervalMs: 60 * 60 * 1000
+  });
+  const tick = (k: Kline, final: boolean) => sockets[sockets.length - 1].onmessage?.({
+    data: JSON.stringify({ data: { e: 'kline', s: 'BTCUSDT', k: {
+      t: k.openTime, T: k.closeTime, i: '1h', o: k.open, h: k.high, l: k.low, c: k.close, v: k.volume, x: final
+    } } })
+  });
+  return { stream, loadHistory, tick };
+};
+
+describe('createKlineStream', () => {
+  let stream: KlineStream | null = null;
+
+  afterEach(() => {
+    stream?.close();
+    stream = null;
+    vi.useRealTimers();
+  });
+
+  const start = async () => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    const context = setup();
+    stream = context.stream;
+    stream.start();
+    await vi.waitFor(() => expect(context.loadHistory).toHaveBeenCalledTimes(1));
+    await Promise.resolve();
+    return context;
+  };
+
+  it('commits a candle the stream marked final', async () => {
+    const { loadHistory, tick } = await start();
+    tick(kline(FORMING, 121), true);
+    tick(kline(FORMING + HOUR, 122), false);
+    expect(loadHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('reloads the series instead of committing a candle that never got its final tick', async () => {
+    const { loadHistory, tick } = await start();
+    tick(kline(FORMING, 121), false);
+    // Disconnected over the close, the next message is already the new candle
+    tick(kline(FORMING + HOUR, 122), false);
+    expect(loadHistory).toHaveBeenCalledTimes(2);
+  });
+});
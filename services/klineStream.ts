@@ -0,0 +1,350 @@
+import { Kline, TradeSetup, StrategyConfig, SignalHistory } from '../types';
+import { MarketDataProvider } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataService';
+import { parseKline } from './indicators';
+import { loadKlines } from './klineStore';
+import { closeBar, recordSignal } from './signalHistoryService';
+import { runScan, ScanHandle, ScanOptions, ScanProgress } from './scanScheduler';
+import {
+  INTERVAL_MS, StrategyInterval, SixLineState, IndicatorSnapshot,
+  createSixLineState, advanceSixLine, readSixLine, scoreSnapshot
+} from './strategyService';
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface StreamUpdate {
+  symbol: string;
+  interval: StrategyInterval;
+  klines: Kline[]; // Copy of the rolling buffer, last element may be the forming candle
+  setup: TradeSetup | null;
+}
+
+// Minimal surface of the browser WebSocket we rely on, so a mock can be injected
+export interface SocketLike {
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  close: () => void;
+  send: (data: string) => void;
+}
+
+export type SocketFactory = (url: string) => SocketLike;
+
+export interface KlineStreamOptions {
+  symbols: string[]; // In priority order: history is seeded front to back
+  intervals: StrategyInterval[];
+  config: StrategyConfig;
+  onUpdate: (updates: StreamUpdate[]) => void;
+  onStatus?: (status: StreamStatus, retryCount: number) => void;
+  onSeedProgress?: (progress: ScanProgress) => void;
+  // Source of history and of the default stream URL, the active provider when omitted
+  provider?: MarketDataProvider;
+  // Point at a local mock server in tests, e.g. ws://localhost:8080.
+  // Null (e.g. a fixture provider) seeds history only and never connects.
+  baseUrl?: string | null;
+  createSocket?: SocketFactory;
+  loadHistory?: (symbol: string, interval: StrategyInterval) => Promise<Kline[]>;
+  bufferSize?: number;
+  // Concurrency, weight budget and retries of the REST history seed
+  seedOptions?: Omit<ScanOptions, 'onProgress'>;
+  // Updates are coalesced per symbol/interval and flushed at most this often
+  flushIntervalMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface KlineStream {
+  start: () => void;
+  close: () => void;
+  // Reload history for every series, e.g. from a manual refresh (only new candles are downloaded)
+  resync: () => Promise<ScanProgress>;
+  // Stop an in-flight history seed; live ticks keep flowing
+  cancelSeed: () => void;
+  setConfig: (config: StrategyConfig) => void;
+}
+
+// Streams are subscribed after connecting rather than in the URL, so a full
+// market sweep doesn't produce an oversized URL. Binance accepts 5 messages/s.
+const STREAMS_PER_SUBSCRIBE = 200;
+const SUBSCRIBE_SPACING_MS = 250;
+
+interface SeriesState {
+  symbol: string;
+  interval: StrategyInterval;
+  klines: Kline[];
+  // Indicators over every candle but the last one in `klines`
+  indicators: SixLineState;
+  // Indicator values of the candle before the last one, scored in 'closed' mode while the last is forming
+  closedSnapshot: IndicatorSnapshot | null;
+  // Intrabar mode only, the signal's moves within the forming candle
+  history: SignalHistory | null;
+  // The last candle in `klines` is known to be final: its close time had passed when it was
+  // loaded, or the stream marked it closed. Otherwise it may be a stale copy from before a disconnect.
+  lastFinal: boolean;
+  seeding: boolean;
+}
+
+const seriesKey = (symbol: string, interval: string) => `${symbol.toUpperCase()}:${interval}`;
+
+const parseStreamKline = (k: any): Kline => ({
+  openTime: k.t,
+  open: k.o,
+  high: k.h,
+  low: k.l,
+  close: k.c,
+  volume: k.v,
+  closeTime: k.T
+});
+
+export const createKlineStream = (options: KlineStreamOptions): KlineStream => {
+  const {
+    symbols,
+    intervals,
+    onUpdate,
+    onStatus,
+    onSeedProgress,
+    provider = getMarketDataProvider(),
+    baseUrl = provider.streamUrl,
+    createSocket = (url: string) => new WebSocket(url) as unknown as SocketLike,
+    loadHistory = (symbol: string, interval: StrategyInterval) => loadKlines(symbol, interval, provider),
+    bufferSize = 500,
+    seedOptions,
+    flushIntervalMs = 1000,
+    maxBackoffMs = 30000
+  } = options;
+
+  let config = options.config;
+  const series = new Map<string, SeriesState>();
+  const dirty = new Set<string>();
+  let socket: SocketLike | null = null;
+  let status: StreamStatus = 'idle';
+  let retryCount = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let flushTimer: ReturnType<typeof setInterval> | null = null;
+  let stopped = false;
+  let seedHandle: ScanHandle | null = null;
+
+  const setStatus = (next: StreamStatus) => {
+    status = next;
+    onStatus?.(status, retryCount);
+  };
+
+  // Rebuild indicator state from the closed part of the buffer
+  const rebuildIndicators = (state: SeriesState) => {
+    state.indicators = createSixLineState(config);
+    state.closedSnapshot = null;
+    for (let i = 0; i < state.klines.length - 1; i++) {
+      const candle = parseKline(state.klines[i]);
+      if (i === state.klines.length - 2) state.closedSnapshot = readSixLine(state.indicators, candle);
+      advanceSixLine(state.indicators, candle);
+    }
+  };
+
+  // The previous candle is final: keep its indicator values and commit it
+  const commitCandle = (state: SeriesState, kline: Kline) => {
+    const candle = parseKline(kline);
+    state.closedSnapshot = readSixLine(state.indicators, candle);
+    if (config.evaluationMode === 'intrabar' && state.closedSnapshot) {
+      const setup = scoreSnapshot(state.closedSnapshot, config, { symbol: state.symbol, interval: state.interval });
+      if (setup) state.history = closeBar(state.history, kline.openTime, setup.signal);
+    }
+    advanceSixLine(state.indicators, candle);
+  };
+
+  const evaluate = (state: SeriesState): TradeSetup | null => {
+    const forming = state.klines[state.klines.length - 1];
+    if (!forming) return null;
+    const context = { symbol: state.symbol, interval: state.interval };
+    const now = Date.now();
+    // Closed mode scores the last finished candle, which is the last one once its close time passed
+    if (config.evaluationMode === 'closed' && forming.closeTime >= now) {
+      return state.closedSnapshot ? scoreSnapshot(state.closedSnapshot, config, context) : null;
+    }
+    const snapshot = readSixLine(state.indicators, parseKline(forming));
+    const setup = snapshot ? scoreSnapshot(snapshot, config, context) : null;
+    if (!setup || config.evaluationMode !== 'intrabar') return setup;
+    state.history = recordSignal(state.history, forming, setup.signal, now);
+    return { ...setup, signalHistory: state.history };
+  };
+
+  const flush = () => {
+    if (dirty.size === 0) return;
+    const updates: StreamUpdate[] = [];
+    dirty.forEach(key => {
+      const state = series.get(key);
+      if (state && !state.seeding) {
+        updates.push({ symbol: state.symbol, interval: state.interval, klines: state.klines.slice(), setup: evaluate(state) });
+      }
+    });
+    dirty.clear();
+    if (updates.length) onUpdate(updates);
+  };
+
+  const seedSeries = async (symbol: string, interval: StrategyInterval) => {
+    const key = seriesKey(symbol, interval);
+    const state: SeriesState = series.get(key) ?? {
+      symbol, interval, klines: [], indicators: createSixLineState(config), closedSnapshot: null, history: null, lastFinal: false, seeding: true
+    };
+    state.seeding = true;
+    series.set(key, state);
+
+    try {
+      const history = await loadHistory(symbol, interval);
+      if (history.length === 0) throw new Error(`No ${interval} klines returned`);
+      state.klines = history.slice(-bufferSize);
+      state.lastFinal = state.klines[state.klines.length - 1].closeTime < Date.now();
+      rebuildIndicators(state);
+    } finally {
+      // On failure the previous buffer is kept and live ticks keep flowing into it
+      state.seeding = false;
+      dirty.add(key);
+    }
+  };
+
+  const seedAll = (): Promise<ScanProgress> => {
+    seedHandle?.cancel();
+    const tasks = symbols.map((symbol, index) => ({
+      id: symbol,
+      priority: symbols.length - index,
+      run: async () => {
+        await Promise.all(intervals.map(interval => seedSeries(symbol, interval)));
+        // Flush as we go so cards appear progressively instead of after the full seed
+        flush();
+      }
+    }));
+    // One kline request (weight 2) per interval unless the caller knows better
+    const handle = runScan(tasks, { weightPerTask: 2 * intervals.length, ...seedOptions, onProgress: onSeedProgress });
+    seedHandle = handle;
+    return handle.promise.finally(() => {
+      if (seedHandle === handle) seedHandle = null;
+    });
+  };
+
+  // `final` is the stream's closed flag for `kline`
+  const applyKline = (state: SeriesState, kline: Kline, final: boolean) => {
+    const last = state.klines[state.klines.length - 1];
+
+    if (!last || kline.openTime === last.openTime) {
+      // Still the same candle: replace it, committed indicators are unchanged
+      state.klines[Math.max(0, state.klines.length - 1)] = kline;
+      state.lastFinal = final;
+    } else if (kline.openTime > last.openTime) {
+      // A candle was missed, or the previous one never got its final tick (e.g. while
+      // disconnected): the buffer can't be patched, reload it
+      if (kline.openTime - last.openTime > INTERVAL_MS[state.interval] || !state.lastFinal) {
+        seedSeries(state.symbol, state.interval).catch(error =>
+          console.error(`Failed to reseed ${state.symbol} ${state.interval}`, error)
+        );
+        return;
+      }
+      // New candle opened: the previous one is final, commit it
+      commitCandle(state, last);
+      state.klines.push(kline);
+      state.lastFinal = final;
+      if (state.klines.length > bufferSize) state.klines.shift();
+    } else {
+      return; // Stale message for an older candle
+    }
+    dirty.add(seriesKey(state.symbol, state.interval));
+  };
+
+  const handleMessage = (event: { data: any }) => {
+    let payload: any;
+    try {
+      payload = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+    } catch (error) {
+      console.warn('Ignoring malformed stream message', error);
+      return;
+    }
+    // Combined streams wrap the event: { stream, data: { e: 'kline', s, k } }
+    const data = payload?.data ?? payload;
+    if (data?.e !== 'kline' || !data.k) return;
+
+    const state = series.get(seriesKey(data.s, data.k.i));
+    // Ticks for series still being seeded are dropped: the seed already contains the forming candle
+    if (!state || state.seeding) return;
+    applyKline(state, parseStreamKline(data.k), data.k.x === true);
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    retryCount++;
+    // Exponential backoff with jitter: ~1s, 2s, 4s ... capped at maxBackoffMs
+    const delay = Math.min(maxBackoffMs, 1000 * 2 ** (retryCount - 1)) * (0.8 + Math.random() * 0.4);
+    setStatus('reconnecting');
+    reconnectTimer = setTimeout(() => connect(), delay);
+  };
+
+  const subscribe = (ws: SocketLike) => {
+    const streams = symbols.flatMap(symbol =>
+      intervals.map(interval => `${symbol.toLowerCase()}@kline_${interval}`)
+    );
+    for (let i = 0; i * STREAMS_PER_SUBSCRIBE < streams.length; i++) {
+      const params = streams.slice(i * STREAMS_PER_SUBSCRIBE, (i + 1) * STREAMS_PER_SUBSCRIBE);
+      setTimeout(() => {
+        if (socket === ws) ws.send(JSON.stringify({ method: 'SUBSCRIBE', params, id: i + 1 }));
+      }, i * SUBSCRIBE_SPACING_MS);
+    }
+  };
+
+  const connect = () => {
+    reconnectTimer = null;
+    if (stopped || !baseUrl) return;
+    if (status !== 'reconnecting') setStatus('connecting');
+
+    const ws = createSocket(`${baseUrl}/stream`);
+    socket = ws;
+    ws.onopen = () => {
+      retryCount = 0;
+      setStatus('open');
+      subscribe(ws);
+    };
+    ws.onmessage = handleMessage;
+    ws.onerror = () => {
+      // onclose always follows, reconnect is handled there
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      if (stopped) {
+        setStatus('closed');
+      } else {
+        scheduleReconnect();
+      }
+    };
+  };
+
+  return {
+    start: () => {
+      stopped = false;
+      flushTimer = setInterval(flush, flushIntervalMs);
+      seedAll().catch(error => console.error('Failed to seed kline history', error));
+      connect();
+    },
+    close: () => {
+      stopped = true;
+      seedHandle?.cancel();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (flushTimer) clearInterval(flushTimer);
+      reconnectTimer = null;
+      flushTimer = null;
+      const ws = socket;
+      socket = null;
+      ws?.close();
+      setStatus('closed');
+    },
+    resync: () => seedAll(),
+    cancelSeed: () => seedHandle?.cancel(),
+    setConfig: (next: StrategyConfig) => {
+      config = next;
+      series.forEach((state, key) => {
+        if (state.seeding) return;
+        // Signals moved by the new settings are no repaints, the record starts over
+        state.history = null;
+        rebuildIndicators(state);
+        dirty.add(key);
+      });
+      flush();
+    }
+  };
+};
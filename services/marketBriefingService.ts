@@ -0,0 +1,191 @@
+import { BriefingPick, MarketBriefing, MarketRegime, SignalType } from '../types';
+import { AIError, AIProvider, isJSONObject } from './aiProvider';
+import { collectReply, getAIProvider, parseJSONReply } from './aiAnalysisService';
+import { MultiTimeframeSetup, StrategyInterval, isBreakoutSignal, signalCode } from './strategyService';
+
+// One AI read of the whole scan: every setup is sent as a single compact line
+// together with BTC's state and the signal breadth, and the model returns a
+// regime label, a ranked shortlist and warnings about setups that are really
+// one bet (alts that only move with BTC, a whole sector in the same pattern).
+
+export const REGIME_LABELS: Record<MarketRegime, string> = {
+  BULL_TREND: '多头趋势',
+  BEAR_TREND: '空头趋势',
+  RANGE: '区间震荡',
+  COMPRESSION: '收敛待变盘',
+  VOLATILE: '剧烈波动'
+};
+
+const REGIMES = Object.keys(REGIME_LABELS) as MarketRegime[];
+const DIRECTIONS: BriefingPick['direction'][] = ['LONG', 'SHORT', 'WATCH'];
+
+// Keeps the prompt small on a full-market scan, the caller passes setups best first
+const MAX_SETUPS = 60;
+const MAX_PICKS = 5;
+
+export const BTC_SYMBOL = 'BTCUSDT';
+
+export const MARKET_BRIEFING_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: '中文市场综述，150字以内' },
+    regime: { type: 'string', enum: REGIMES },
+    regimeNote: { type: 'string' },
+    shortlist: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          rank: { type: 'integer' },
+          symbol: { type: 'string' },
+          interval: { type: 'string' },
+          direction: { type: 'string', enum: DIRECTIONS },
+          rationale: { type: 'string' }
+        },
+        required: ['rank', 'symbol', 'interval', 'direction', 'rationale'],
+        additionalProperties: false
+      }
+    },
+    correlationWarnings: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['summary', 'regime', 'regimeNote', 'shortlist', 'correlationWarnings'],
+  additionalProperties: false
+};
+
+export const BRIEFING_SYSTEM_PROMPT = '你是加密货币投资组合经理，基于“双均线密集系统”（MA+EMA 20/60/120 共6根线）的扫描结果给出整体市场判断。' +
+  '只输出符合给定 JSON Schema 的 JSON 对象，不要输出其他内容。所有文字用中文，简洁直接。';
+
+// Enum keys (LONG, BREAKOUT_LONG, ...) read closer to the shortlist directions than the display labels
+const formatRow = (a: MultiTimeframeSetup): string => {
+  const p = a.primary!;
+  const frames = Object.entries(a.setups)
+    .map(([interval, setup]) => `${interval}:${setup ? signalCode(setup.signal) : '-'}`)
+    .join(' ');
+  return `${a.symbol} ${p.interval} ${signalCode(p.signal)} 密集${p.densityScore.toFixed(2)}% 偏离${p.priceDeviation.toFixed(2)}% ` +
+    `共振${a.confluence.score > 0 ? '+' : ''}${a.confluence.score.toFixed(0)} [${frames}]`;
+};
+
+const describeBtc = (btc: MultiTimeframeSetup | null): string => {
+  if (!btc?.primary) return '- BTC 数据不可用';
+  const frames = Object.entries(btc.setups)
+    .map(([interval, setup]) => setup
+      ? `- ${interval}: ${signalCode(setup.signal)}, 价格 ${setup.price.toFixed(2)}, 密集 ${setup.densityScore.toFixed(2)}%, 偏离 ${setup.priceDeviation.toFixed(2)}%`
+      : `- ${interval}: 无数据`)
+    .join('\n');
+  return `${frames}\n- 多周期共振: ${btc.confluence.score.toFixed(0)} (-100 全空 ~ 100 全多)`;
+};
+
+const describeBreadth = (analyses: MultiTimeframeSetup[]): string => {
+  const counts = new Map<string, number>();
+  analyses.forEach(a => {
+    const code = signalCode(a.primary!.signal);
+    counts.set(code, (counts.get(code) ?? 0) + 1);
+  });
+  return Array.from(counts.entries()).map(([code, n]) => `${code} ${n}`).join(', ');
+};
+
+// WAIT has no setup to trade, it only counts towards breadth
+const briefingCandidates = (analyses: MultiTimeframeSetup[]) =>
+  analyses.filter(a => a.primary && a.primary.signal !== SignalType.WAIT).slice(0, MAX_SETUPS);
+
+export const buildBriefingPrompt = (analyses: MultiTimeframeSetup[], btc: MultiTimeframeSetup | null): string => {
+  const active = briefingCandidates(analyses);
+  return `
+**BTC 状态:**
+${describeBtc(btc)}
+
+**信号分布 (主周期, 共 ${analyses.length} 个币种):** ${describeBreadth(analyses)}
+
+**候选形态 (币种 主周期 信号 密集度 价格偏离 共振分 [各周期信号]):**
+${active.length ? active.map(formatRow).join('\n') : '- 无'}
+
+**任务:**
+1. summary: 整体市场综述。
+2. regime 与 regimeNote: 当前市场状态及判断依据。
+3. shortlist: 从候选形态中挑出最多 ${MAX_PICKS} 个最值得关注的，rank 从 1 开始，symbol 与 interval 必须来自候选列表，rationale 一句话说明理由。
+4. correlationWarnings: 相关性风险，例如多数山寨币只是跟随 BTC、同类币种形态雷同、候选实际上是同一笔押注。没有则返回空数组。
+`.trim();
+};
+
+export const parseBriefing = (
+  text: string,
+  analyses: MultiTimeframeSetup[],
+  btc: MultiTimeframeSetup | null,
+  model: string,
+  createdAt: number = Date.now()
+): MarketBriefing => {
+  const raw = parseJSONReply(text);
+  if (!isJSONObject(raw) || typeof raw.summary !== 'string' || !raw.summary.trim()) {
+    throw new AIError('回复缺少 summary 字段', 'PARSE_ERROR');
+  }
+
+  // Picks must name a candidate that was sent, anything else is a hallucination and dropped
+  const candidates = briefingCandidates(analyses);
+  const bySymbol = new Map(candidates.map(a => [a.symbol, a]));
+  const picks: BriefingPick[] = (Array.isArray(raw.shortlist) ? raw.shortlist : [])
+    .filter((p: unknown): p is Record<string, unknown> & Pick<BriefingPick, 'symbol' | 'direction'> =>
+      isJSONObject(p) && typeof p.symbol === 'string' && bySymbol.has(p.symbol) && DIRECTIONS.some(d => d === p.direction))
+    .map(p => {
+      const analysis = bySymbol.get(p.symbol)!;
+      const interval = (typeof p.interval === 'string' && p.interval in analysis.setups && analysis.setups[p.interval as StrategyInterval])
+        ? p.interval as StrategyInterval
+        : analysis.primary!.interval;
+      return {
+        rank: Number.isFinite(Number(p.rank)) ? Number(p.rank) : Infinity,
+        symbol: p.symbol,
+        interval,
+        direction: p.direction,
+        rationale: typeof p.rationale === 'string' ? p.rationale : ''
+      };
+    })
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, MAX_PICKS)
+    .map((p, i) => ({ ...p, rank: i + 1 }));
+
+  return {
+    id: `briefing:${createdAt}`,
+    createdAt,
+    model,
+    regime: REGIMES.find(r => r === raw.regime) ?? 'RANGE',
+    regimeNote: typeof raw.regimeNote === 'string' ? raw.regimeNote : '',
+    summary: raw.summary.trim(),
+    shortlist: picks,
+    correlationWarnings: Array.isArray(raw.correlationWarnings)
+      ? raw.correlationWarnings.filter((w: unknown): w is string => typeof w === 'string' && w.trim() !== '')
+      : [],
+    setupCount: candidates.length,
+    btcSignal: btc?.primary?.signal ?? null
+  };
+};
+
+// Breakouts and setups with the strongest timeframe agreement first, the order the prompt is cut in
+export const rankForBriefing = (analyses: MultiTimeframeSetup[]): MultiTimeframeSetup[] => {
+  const tier = (a: MultiTimeframeSetup) => {
+    const signal = a.primary?.signal;
+    return !signal ? 3 : isBreakoutSignal(signal) ? 0 : signal === SignalType.WATCH ? 1 : 2;
+  };
+  return [...analyses].sort((a, b) => tier(a) - tier(b) || Math.abs(b.confluence.score) - Math.abs(a.confluence.score));
+};
+
+export interface BriefingOptions {
+  onToken?: (partialSummary: string) => void;
+  signal?: AbortSignal;
+  provider?: AIProvider;
+}
+
+export const generateMarketBriefing = async (
+  analyses: MultiTimeframeSetup[],
+  btc: MultiTimeframeSetup | null,
+  options: BriefingOptions = {}
+): Promise<MarketBriefing> => {
+  const provider = options.provider ?? getAIProvider();
+  const ranked = rankForBriefing(analyses.filter(a => a.primary));
+  const text = await collectReply(provider, {
+    task: 'market-briefing',
+    system: BRIEFING_SYSTEM_PROMPT,
+    prompt: buildBriefingPrompt(ranked, btc),
+    schema: MARKET_BRIEFING_SCHEMA,
+    signal: options.signal
+  }, 'summary', options.onToken);
+  return parseBriefing(text, ranked, btc, `${provider.id}:${provider.model}`);
+};
@@ -0,0 +1,92 @@
+import { FuturesContext, Kline, SymbolInfo, Ticker24h } from '../types';
+
+// Common surface for every source of market data: live exchanges and recorded
+// fixtures alike. Implementations throw MarketDataError instead of returning
+// empty results, so callers can tell "no data" apart from "source is down".
+
+export type MarketDataSource = 'binance-spot' | 'binance-futures' | 'fixture';
+
+// Open time bounds of a kline request, both inclusive. With a start the first
+// `limit` candles from it are returned, otherwise the last `limit` before the end.
+export interface KlineRange {
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface MarketDataProvider {
+  source: MarketDataSource;
+  label: string;
+  // Base URL of the kline WebSocket, null when the source has no live feed
+  streamUrl: string | null;
+  fetchKlines: (symbol: string, interval: string, limit?: number, range?: KlineRange) => Promise<Kline[]>;
+  fetchTickers: () => Promise<Ticker24h[]>;
+  fetchExchangeInfo: () => Promise<SymbolInfo[]>;
+  // Funding, open interest and positioning of the symbol's perpetual, missing when the source has none
+  fetchFuturesContext?: (symbol: string) => Promise<FuturesContext>;
+}
+
+// --- Errors ---
+
+export type MarketDataErrorReason =
+  | 'NETWORK' // Request never got a response (offline, DNS, CORS)
+  | 'HTTP_STATUS' // Non-2xx response without an API error body
+  | 'API_ERROR' // Exchange rejected the request with { code, msg }
+  | 'PARSE_ERROR' // Body was not JSON or not the expected shape
+  | 'RATE_LIMIT' // 429 / 418
+  | 'NOT_FOUND'; // Fixture has no data for the request
+
+// Outcome of one strategy (direct endpoint or proxy) within a request
+export interface FetchAttempt {
+  strategy: string;
+  reason: MarketDataErrorReason;
+  message: string;
+  status?: number;
+  apiCode?: number;
+}
+
+export class MarketDataError extends Error {
+  constructor(
+    message: string,
+    public reason: MarketDataErrorReason,
+    public attempts: FetchAttempt[] = [],
+    public status?: number,
+    public apiCode?: number
+  ) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+// --- Fetch log ---
+// Recent requests with the strategy that answered them, for diagnosing outages.
+
+export interface FetchReport {
+  source: MarketDataSource;
+  request: string;
+  strategy: string | null; // Null when every strategy failed
+  durationMs: number;
+  at: number;
+  error?: MarketDataError;
+}
+
+const FETCH_LOG_SIZE = 50;
+let fetchLog: FetchReport[] = [];
+const fetchLogListeners = new Set<(report: FetchReport) => void>();
+
+export const recordFetch = (report: FetchReport) => {
+  fetchLog = [...fetchLog.slice(-(FETCH_LOG_SIZE - 1)), report];
+  fetchLogListeners.forEach(listener => listener(report));
+};
+
+export const getFetchLog = (): FetchReport[] => fetchLog;
+
+export const subscribeFetchLog = (listener: (report: FetchReport) => void): (() => void) => {
+  fetchLogListeners.add(listener);
+  return () => { fetchLogListeners.delete(listener); };
+};
+
+export const describeMarketDataError = (error: unknown): string => {
+  if (!(error instanceof MarketDataError)) return error instanceof Error ? error.message : String(error);
+  const detail = error.apiCode !== undefined ? ` (code ${error.apiCode})` : error.status ? ` (HTTP ${error.status})` : '';
+  return `${error.reason}${detail}: ${error.message}`;
+};
@@ -0,0 +1,96 @@
+import { StrategyConfig } from '../types';
+import { MarketDataProvider, MarketDataSource } from './marketDataProvider';
+import { createBinanceProvider } from './binanceService';
+import { createFixtureProvider } from './fixtureProvider';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+import { loadKlines } from './klineStore';
+import {
+  DEFAULT_STRATEGY_CONFIG, StrategyInterval, SymbolKlines, MultiTimeframeSetup, evaluateTimeframes
+} from './strategyService';
+
+// Picks the market data source from config and holds the active provider,
+// which the stream and the one-off fetches in the UI share.
+
+export interface MarketDataConfig {
+  source: MarketDataSource;
+  fixtureUrl: string; // Recorded MarketFixture JSON, used by the 'fixture' source
+}
+
+export const DEFAULT_MARKET_DATA_CONFIG: MarketDataConfig = {
+  source: 'binance-spot',
+  fixtureUrl: '/fixtures/market.json'
+};
+
+export const MARKET_DATA_SOURCES: { value: MarketDataSource; label: string }[] = [
+  { value: 'binance-spot', label: 'Binance 现货' },
+  { value: 'binance-futures', label: 'Binance U本位合约' },
+  { value: 'fixture', label: '本地回放' }
+];
+
+const isSource = (value: unknown): value is MarketDataSource =>
+  MARKET_DATA_SOURCES.some(s => s.value === value);
+
+// Stored config, overridable per page load with ?source=fixture&fixture=/path.json
+// so tests can run the whole app offline without touching storage
+export const loadMarketDataConfig = (): MarketDataConfig => {
+  const stored = loadJSON<Partial<MarketDataConfig> | null>(STORAGE_KEYS.marketData, null);
+  const config: MarketDataConfig = {
+    source: isSource(stored?.source) ? stored!.source! : DEFAULT_MARKET_DATA_CONFIG.source,
+    fixtureUrl: typeof stored?.fixtureUrl === 'string' && stored.fixtureUrl ? stored.fixtureUrl : DEFAULT_MARKET_DATA_CONFIG.fixtureUrl
+  };
+  if (typeof window === 'undefined') return config;
+  const params = new URLSearchParams(window.location.search);
+  const source = params.get('source');
+  const fixtureUrl = params.get('fixture');
+  return {
+    source: isSource(source) ? source : config.source,
+    fixtureUrl: fixtureUrl || config.fixtureUrl
+  };
+};
+
+export const saveMarketDataConfig = (config: MarketDataConfig): void => {
+  saveJSON(STORAGE_KEYS.marketData, config);
+};
+
+export const createMarketDataProvider = (config: MarketDataConfig): MarketDataProvider => {
+  switch (config.source) {
+    case 'binance-futures':
+      return createBinanceProvider('futures');
+    case 'fixture':
+      return createFixtureProvider(config.fixtureUrl);
+    default:
+      return createBinanceProvider('spot');
+  }
+};
+
+let activeProvider: MarketDataProvider | null = null;
+
+export const getMarketDataProvider = (): MarketDataProvider => {
+  if (!activeProvider) activeProvider = createMarketDataProvider(loadMarketDataConfig());
+  return activeProvider;
+};
+
+export const setMarketDataProvider = (provider: MarketDataProvider): void => {
+  activeProvider = provider;
+};
+
+// Fetch every timeframe the strategy needs, through the kline store. Kept separate
+// from scoring so the UI can re-score cached candles when the strategy config changes.
+export const fetchSymbolKlines = async (
+  symbol: string,
+  intervals: StrategyInterval[] = DEFAULT_STRATEGY_CONFIG.timeframes,
+  provider: MarketDataProvider = getMarketDataProvider()
+): Promise<SymbolKlines> => {
+  const results = await Promise.all(intervals.map(interval => loadKlines(symbol, interval, provider)));
+  return Object.fromEntries(intervals.map((interval, i) => [interval, results[i]]));
+};
+
+// Main Export: multi timeframe analysis
+export const analyzeSymbol = async (
+  symbol: string,
+  config: StrategyConfig = DEFAULT_STRATEGY_CONFIG,
+  provider: MarketDataProvider = getMarketDataProvider()
+): Promise<MultiTimeframeSetup> => {
+  const klines = await fetchSymbolKlines(symbol, config.timeframes, provider);
+  return evaluateTimeframes(symbol, klines, config);
+};
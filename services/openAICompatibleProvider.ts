@@ -0,0 +1,105 @@
+import { AIError, AIProvider, isAbortError, isJSONObject } from './aiProvider';
+
+// Chat completions over the OpenAI wire format, which most local model servers
+// (llama.cpp, Ollama, LM Studio, vLLM) also speak. Replies are streamed as
+// server-sent events.
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // Up to and including the version, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string; // Optional, local servers usually ignore it
+}
+
+// Text of a chat.completion.chunk event: choices[0].delta.content
+const deltaText = (event: unknown): string => {
+  const choice = isJSONObject(event) && Array.isArray(event.choices) ? event.choices[0] : null;
+  const delta = isJSONObject(choice) ? choice.delta : null;
+  return isJSONObject(delta) && typeof delta.content === 'string' ? delta.content : '';
+};
+
+// Pull the text deltas out of an SSE body. Events may be split across network chunks.
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') return;
+        let event: unknown;
+        try {
+          event = JSON.parse(payload);
+        } catch {
+          throw new AIError(`无法解析的事件: ${payload.slice(0, 80)}`, 'PARSE_ERROR');
+        }
+        const text = deltaText(event);
+        if (text) yield text;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => ({
+  id: 'openai-compatible',
+  label: 'OpenAI 兼容',
+  model: config.model,
+  stream: async function* ({ system, prompt, schema, signal }) {
+    const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: config.model,
+          stream: true,
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: prompt }
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'setup_analysis', strict: true, schema }
+          }
+        }),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw new AIError('请求已取消', 'ABORTED');
+      throw new AIError(`${url}: ${error instanceof Error ? error.message : String(error)}`, 'NETWORK');
+    }
+
+    if (!response.ok) {
+      // OpenAI style bodies carry { error: { message } }, anything else is shown as is
+      const text = await response.text().catch(() => '');
+      let message = text.slice(0, 200) || response.statusText;
+      try {
+        message = JSON.parse(text)?.error?.message ?? message;
+      } catch {
+        // Not JSON
+      }
+      throw new AIError(message, response.status === 429 ? 'RATE_LIMIT' : 'HTTP_STATUS', response.status);
+    }
+    if (!response.body) throw new AIError('响应没有内容', 'EMPTY_RESPONSE');
+
+    try {
+      yield* readEventStream(response.body);
+    } catch (error) {
+      if (isAbortError(error)) throw new AIError('请求已取消', 'ABORTED');
+      throw error instanceof AIError ? error : new AIError(String(error), 'NETWORK');
+    }
+  }
+});
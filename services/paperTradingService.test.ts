@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Kline, SignalType, TradeSetup } from '../types';
+import { DEFAULT_RISK_SETTINGS } from './riskService';
+import { DEFAULT_PAPER_SETTINGS, PaperAccount, createPaperAccount, createPaperTrader } from './paperTradingService';
+
+const HOUR = 60 * 60 * 1000;
+
+const kline = (openTime: number, close: number): Kline => ({
+  openTime, open: String(close), high: String(close + 0.5), low: String(close - 0.5), close: String(close), volume: '10',
+  closeTime: openTime + HOUR - 1
+});
+
+const setup = {
+  symbol: 'BTCUSDT', interval: '1h', signal: SignalType.LONG, price: 100, entryPrice: 100, stopLoss: 95, takeProfit: 110, atr: 2
+} as TradeSetup;
+
+const trader = () => {
+  const commits: PaperAccount[] = [];
+  const paper = createPaperTrader({
+    account: createPaperAccount(1000),
+    settings: DEFAULT_PAPER_SETTINGS,
+    getRisk: () => ({ settings: DEFAULT_RISK_SETTINGS, market: 'spot', filters: () => undefined }),
+    onChange: account => commits.push(account)
+  });
+  paper.open(setup, 0);
+  commits.length = 0;
+  const feed = (klines: Kline[]) => paper.process([{ symbol: 'BTCUSDT', interval: '1h', setup, klines }]);
+  return { paper, commits, feed };
+};
+
+describe('createPaperTrader', () => {
+  it('stores nothing when an update leaves the position as it was', () => {
+    const { commits, feed } = trader();
+    const klines = [kline(0, 100), kline(HOUR, 101)];
+    feed(klines);
+    expect(commits).toHaveLength(1);
+    expect(commits[0].positions[0].markPrice).toBe(101);
+    feed(klines);
+    feed(klines);
+    expect(commits).toHaveLength(1);
+  });
+
+  it('stores a new mark price and an exit', () => {
+    const { commits, feed } = trader();
+    feed([kline(0, 100), kline(HOUR, 101)]);
+    feed([kline(0, 100), kline(HOUR, 102)]);
+    expect(commits).toHaveLength(2);
+    feed([kline(0, 100), kline(HOUR, 102), kline(2 * HOUR, 94)]);
+    expect(commits).toHaveLength(3);
+    expect(commits[2].positions).toHaveLength(0);
+    expect(commits[2].trades[0].exitReason).toBe('STOP_LOSS');
+  });
+});
@@ -0,0 +1,300 @@
+import { Kline, SignalType, SymbolFilters, TradeDirection, TradeSetup, ExitReason } from '../types';
+import { StrategyInterval } from './strategyService';
+import { BacktestOptions, checkExit } from './backtestService';
+import { parseKline } from './indicators';
+import { MarketType, RiskSettings, calculatePositionSize } from './riskService';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+
+// Simulated account fed by the same stream updates as the scanner. Positions are
+// sized with the risk settings, filled with fees and slippage, and closed by the
+// backtester's exit rules on the candles that follow. Everything keys off candle
+// times rather than the clock, so a replayed fixture feed gives identical results.
+
+export type PaperExitReason = ExitReason | 'TRAILING_STOP' | 'MANUAL';
+
+export interface PaperPosition {
+  id: string;
+  symbol: string;
+  interval: StrategyInterval;
+  direction: TradeDirection;
+  signal: SignalType;
+  source: 'manual' | 'auto';
+  openTime: number; // Open time of the candle the position was entered on
+  entryPrice: number; // Fill price, slippage included
+  quantity: number;
+  stopLoss: number; // Current stop, moves with the trailing stop
+  initialStop: number;
+  takeProfit: number;
+  trailDistance: number | null; // Price distance kept behind the best close, null without trailing
+  entryFee: number;
+  lastBarTime: number; // Last closed candle already applied to the trailing stop
+  markPrice: number; // Latest close seen, for unrealized P&L and manual closes
+}
+
+export interface PaperTrade extends Omit<PaperPosition, 'markPrice' | 'lastBarTime'> {
+  exitTime: number;
+  exitPrice: number;
+  exitReason: PaperExitReason;
+  fees: number; // Both sides
+  pnl: number; // Net of fees, quote asset
+  rMultiple: number; // Against the initial stop
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+export interface PaperAccount {
+  startingEquity: number;
+  balance: number; // Realized equity, open positions are not marked in
+  positions: PaperPosition[];
+  trades: PaperTrade[]; // Newest first
+  equityCurve: EquityPoint[]; // Realized equity after each close, oldest first
+}
+
+export interface PaperSettings {
+  autoTrade: boolean;
+  autoSignals: SignalType[]; // Transitions into these signals open a position
+  intervals: StrategyInterval[]; // Auto entries only on these timeframes, empty means all
+  maxOpenPositions: number;
+  trailingStop: boolean;
+  trailAtrMultiple: number; // Trail distance in ATRs of the entry candle
+  intrabarPolicy: BacktestOptions['intrabarPolicy'];
+}
+
+export const DEFAULT_PAPER_SETTINGS: PaperSettings = {
+  autoTrade: false,
+  autoSignals: [SignalType.LONG, SignalType.SHORT, SignalType.BREAKOUT_LONG, SignalType.BREAKDOWN_SHORT],
+  intervals: [],
+  maxOpenPositions: 5,
+  trailingStop: false,
+  trailAtrMultiple: 2,
+  intrabarPolicy: 'ohlc-path'
+};
+
+// Keeps localStorage well under its quota on long-running sessions
+const MAX_TRADES = 1000;
+
+export const createPaperAccount = (startingEquity: number): PaperAccount => ({
+  startingEquity,
+  balance: startingEquity,
+  positions: [],
+  trades: [],
+  equityCurve: []
+});
+
+interface StoredPaperState {
+  account: PaperAccount;
+  settings: PaperSettings;
+}
+
+export const loadPaperState = (startingEquity: number): StoredPaperState => {
+  const stored = loadJSON<Partial<StoredPaperState> | null>(STORAGE_KEYS.paper, null);
+  return {
+    account: stored?.account ?? createPaperAccount(startingEquity),
+    settings: { ...DEFAULT_PAPER_SETTINGS, ...stored?.settings }
+  };
+};
+
+export const savePaperState = (state: StoredPaperState): void => {
+  saveJSON(STORAGE_KEYS.paper, state);
+};
+
+export const unrealizedPnl = (position: PaperPosition): number =>
+  (position.markPrice - position.entryPrice) * position.quantity * (position.direction === 'LONG' ? 1 : -1);
+
+export interface PaperInput {
+  symbol: string;
+  interval: StrategyInterval;
+  setup: TradeSetup | null;
+  klines: Kline[];
+}
+
+export interface PaperTraderOptions {
+  account: PaperAccount;
+  settings: PaperSettings;
+  // Read on every entry, so edits to the risk panel apply to the next position
+  getRisk: () => { settings: RiskSettings; market: MarketType; filters: (symbol: string) => SymbolFilters | undefined };
+  onChange?: (account: PaperAccount) => void;
+}
+
+export interface PaperTrader {
+  process: (inputs: PaperInput[]) => void;
+  open: (setup: TradeSetup, candleTime: number, source?: PaperPosition['source']) => PaperPosition | string;
+  close: (id: string) => void;
+  setSettings: (settings: PaperSettings) => void;
+  reset: (startingEquity: number) => void;
+  getAccount: () => PaperAccount;
+}
+
+export const createPaperTrader = (options: PaperTraderOptions): PaperTrader => {
+  const { getRisk, onChange } = options;
+  let account = options.account;
+  let settings = options.settings;
+  // Last signal per series, the first result after a (re)load is a baseline and never trades
+  const lastSignal = new Map<string, SignalType>();
+
+  const commit = (next: PaperAccount) => {
+    account = next;
+    onChange?.(account);
+  };
+
+  const closeOut = (position: PaperPosition, exitTime: number, price: number, reason: PaperExitReason): PaperTrade => {
+    const { settings: risk } = getRisk();
+    const sign = position.direction === 'LONG' ? 1 : -1;
+    // Targets rest as limit orders, stops and manual closes are market orders and slip like the entry
+    const exitPrice = reason === 'TAKE_PROFIT' ? price : price * (1 - sign * (risk.slippage / 100));
+    const exitFee = exitPrice * position.quantity * (risk.feeRate / 100);
+    const fees = position.entryFee + exitFee;
+    const pnl = (exitPrice - position.entryPrice) * position.quantity * sign - fees;
+    const initialRisk = Math.abs(position.entryPrice - position.initialStop) * position.quantity;
+    const { markPrice, lastBarTime, ...rest } = position;
+    return {
+      ...rest,
+      exitTime,
+      exitPrice,
+      exitReason: reason,
+      fees,
+      pnl,
+      rMultiple: initialRisk > 0 ? pnl / initialRisk : 0
+    };
+  };
+
+  const applyClosed = (closed: PaperTrade[], positions: PaperPosition[]) => {
+    let balance = account.balance;
+    const curve = [...account.equityCurve];
+    [...closed].sort((a, b) => a.exitTime - b.exitTime).forEach(trade => {
+      balance += trade.pnl;
+      curve.push({ time: trade.exitTime, equity: balance });
+    });
+    commit({
+      ...account,
+      balance,
+      positions,
+      trades: [...closed.reverse(), ...account.trades].slice(0, MAX_TRADES),
+      equityCurve: curve.slice(-MAX_TRADES)
+    });
+  };
+
+  // Walk a position through the candles after its entry candle. The forming candle
+  // can still stop it out, but only closed candles move the trailing stop.
+  const advance = (position: PaperPosition, klines: Kline[]): PaperPosition | PaperTrade => {
+    const current = { ...position };
+    for (let i = 0; i < klines.length; i++) {
+      const kline = klines[i];
+      if (kline.openTime <= current.lastBarTime) continue;
+      const bar = parseKline(kline);
+      const isLast = i === klines.length - 1;
+      const exit = checkExit(current, current.direction, bar, settings.intrabarPolicy);
+      if (exit) {
+        const trailed = exit.reason === 'STOP_LOSS' && current.stopLoss !== current.initialStop;
+        return closeOut(current, kline.closeTime, exit.price, trailed ? 'TRAILING_STOP' : exit.reason);
+      }
+      current.markPrice = bar.close;
+      if (isLast) break;
+      current.lastBarTime = kline.openTime;
+      if (current.trailDistance !== null) {
+        const sign = current.direction === 'LONG' ? 1 : -1;
+        const trail = bar.close - sign * current.trailDistance;
+        // The stop only ever tightens
+        if ((trail - current.stopLoss) * sign > 0) current.stopLoss = trail;
+      }
+    }
+    // Unchanged positions keep their identity, so an idle update stores nothing
+    const moved = current.markPrice !== position.markPrice || current.stopLoss !== position.stopLoss ||
+      current.lastBarTime !== position.lastBarTime;
+    return moved ? current : position;
+  };
+
+  const open: PaperTrader['open'] = (setup, candleTime, source = 'manual') => {
+    if (account.positions.some(p => p.symbol === setup.symbol)) return '该币种已有模拟持仓';
+    if (account.positions.length >= settings.maxOpenPositions) return `持仓数已达上限 ${settings.maxOpenPositions}`;
+    const { settings: risk, market, filters } = getRisk();
+    const size = calculatePositionSize(setup, { ...risk, equity: account.balance }, market, filters(setup.symbol));
+    if (!size) return '止损价格无效，无法计算仓位';
+    if (size.belowMinimum) return size.warnings[0] ?? '仓位过小';
+
+    const sign = size.direction === 'LONG' ? 1 : -1;
+    const entryPrice = size.entryPrice * (1 + sign * (risk.slippage / 100));
+    const position: PaperPosition = {
+      id: `${setup.symbol}:${setup.interval}:${candleTime}`,
+      symbol: setup.symbol,
+      interval: setup.interval,
+      direction: size.direction,
+      signal: setup.signal,
+      source,
+      openTime: candleTime,
+      entryPrice,
+      quantity: size.quantity,
+      stopLoss: size.stopLoss,
+      initialStop: size.stopLoss,
+      takeProfit: size.takeProfit,
+      trailDistance: settings.trailingStop && setup.atr > 0 ? setup.atr * settings.trailAtrMultiple : null,
+      entryFee: entryPrice * size.quantity * (risk.feeRate / 100),
+      lastBarTime: candleTime,
+      markPrice: size.entryPrice
+    };
+    commit({ ...account, positions: [...account.positions, position] });
+    return position;
+  };
+
+  const process = (inputs: PaperInput[]) => {
+    const closed: PaperTrade[] = [];
+    let positions = account.positions;
+    let changed = false;
+
+    inputs.forEach(({ symbol, interval, setup, klines }) => {
+      // Exits first, so a signal on the same update can re-enter a freed slot
+      if (positions.some(p => p.symbol === symbol && p.interval === interval)) {
+        positions = positions.map(position => {
+          if (position.symbol !== symbol || position.interval !== interval) return position;
+          const next = advance(position, klines);
+          if (next !== position) changed = true;
+          if ('exitReason' in next) {
+            closed.push(next);
+            return null;
+          }
+          return next;
+        }).filter((p): p is PaperPosition => p !== null);
+      }
+
+      const seriesKey = `${symbol}:${interval}`;
+      const prev = lastSignal.get(seriesKey);
+      if (setup) lastSignal.set(seriesKey, setup.signal);
+      const forming = klines[klines.length - 1];
+      if (
+        settings.autoTrade && setup && forming && prev !== undefined && prev !== setup.signal &&
+        settings.autoSignals.includes(setup.signal) &&
+        (settings.intervals.length === 0 || settings.intervals.includes(interval))
+      ) {
+        applyClosed(closed.splice(0), positions);
+        open(setup, forming.openTime, 'auto');
+        positions = account.positions;
+        changed = false;
+      }
+    });
+
+    if (changed) applyClosed(closed, positions);
+  };
+
+  return {
+    process,
+    open,
+    close: id => {
+      const position = account.positions.find(p => p.id === id);
+      if (!position) return;
+      // Manual closes happen now, at the last seen price
+      const trade = closeOut(position, Math.max(position.lastBarTime, Date.now()), position.markPrice, 'MANUAL');
+      applyClosed([trade], account.positions.filter(p => p.id !== id));
+    },
+    setSettings: next => {
+      settings = next;
+    },
+    reset: startingEquity => {
+      lastSignal.clear();
+      commit(createPaperAccount(startingEquity));
+    },
+    getAccount: () => account
+  };
+};
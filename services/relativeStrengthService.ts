@@ -0,0 +1,124 @@
+import { Kline, RelativeReturn, RelativeStrength } from '../types';
+import { IntervalKlines, MultiTimeframeSetup, StrategyInterval, TIMEFRAMES } from './strategyService';
+
+// How each symbol moved against BTC and against the rest of the scan, over a few
+// lookbacks, from the candles the scanner already holds. BTC's candles are passed
+// in once and shared by every symbol.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RS_LOOKBACKS: { label: string; ms: number }[] = [
+  { label: '1D', ms: DAY_MS },
+  { label: '3D', ms: 3 * DAY_MS },
+  { label: '7D', ms: 7 * DAY_MS },
+  { label: '30D', ms: 30 * DAY_MS }
+];
+
+// Lookbacks are days long: reference candles outside the live scan only need an occasional refresh
+export const RS_REFRESH_MS = 5 * 60 * 1000;
+
+// Points of the RS line kept for the card's sparkline
+const RS_LINE_POINTS = 60;
+
+// Finest timeframe whose candles reach back `ms` from the latest one
+const seriesFor = (klines: IntervalKlines, ms: number): StrategyInterval | null =>
+  TIMEFRAMES.find(tf => {
+    const series = klines[tf];
+    return !!series && series.length > 1 && series[series.length - 1].openTime - series[0].openTime >= ms;
+  }) ?? null;
+
+// Close of the last candle opened at or before `time`
+const closeAt = (series: Kline[], time: number): number | null => {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i].openTime <= time) return parseFloat(series[i].close);
+  }
+  return null;
+};
+
+const periodChange = (klines: IntervalKlines, ms: number): number | null => {
+  const tf = seriesFor(klines, ms);
+  if (!tf) return null;
+  const series = klines[tf]!;
+  const last = series[series.length - 1];
+  const past = closeAt(series, last.openTime - ms);
+  return past ? (parseFloat(last.close) / past - 1) * 100 : null;
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// On the series of the longest lookback the symbol covers, each close against BTC's at that time
+const buildRSLine = (klines: IntervalKlines, btc: IntervalKlines): number[] => {
+  const tf = RS_LOOKBACKS.slice().reverse().map(l => seriesFor(klines, l.ms)).find(Boolean) ??
+    TIMEFRAMES.find(t => klines[t]?.length);
+  const series = tf && klines[tf];
+  const btcSeries = tf && btc[tf];
+  if (!series || !btcSeries) return [];
+  const ratios = series.slice(-RS_LINE_POINTS).flatMap(k => {
+    const btcClose = closeAt(btcSeries, k.openTime);
+    return btcClose ? [parseFloat(k.close) / btcClose] : [];
+  });
+  return ratios.map(r => (r / ratios[0]) * 100);
+};
+
+export const computeRelativeStrength = (
+  klinesBySymbol: Record<string, IntervalKlines>,
+  btc: IntervalKlines | null
+): Record<string, RelativeStrength> => {
+  const symbols = Object.keys(klinesBySymbol);
+  const changes = Object.fromEntries(symbols.map(symbol => [
+    symbol, RS_LOOKBACKS.map(l => periodChange(klinesBySymbol[symbol], l.ms))
+  ]));
+  const btcChanges = RS_LOOKBACKS.map(l => (btc ? periodChange(btc, l.ms) : null));
+  const medians = RS_LOOKBACKS.map((_, i) =>
+    median(symbols.map(s => changes[s][i]).filter((c): c is number => c !== null)));
+
+  const partial = symbols.map(symbol => {
+    const returns: RelativeReturn[] = RS_LOOKBACKS.map((l, i) => {
+      const change = changes[symbol][i];
+      const btcChange = btcChanges[i];
+      return {
+        label: l.label,
+        change,
+        vsBtc: change !== null && btcChange !== null ? ((1 + change / 100) / (1 + btcChange / 100) - 1) * 100 : null,
+        vsUniverse: change !== null && medians[i] !== null ? change - medians[i]! : null
+      };
+    });
+    const excess = returns.map(r => r.vsUniverse).filter((v): v is number => v !== null);
+    const rsLine = btc ? buildRSLine(klinesBySymbol[symbol], btc) : [];
+    return {
+      symbol,
+      returns,
+      score: excess.length ? excess.reduce((sum, v) => sum + v, 0) / excess.length : null,
+      rsLine,
+      // A flat line (BTC against itself) has no high to make
+      rsNewHigh: rsLine.length > 1 && rsLine[rsLine.length - 1] >= Math.max(...rsLine) && Math.max(...rsLine) > Math.min(...rsLine)
+    };
+  });
+
+  // Share of the other scored symbols below this one, ties counting half
+  const scores = partial.map(p => p.score).filter((s): s is number => s !== null);
+  return Object.fromEntries(partial.map(({ symbol, ...rs }) => {
+    const { score } = rs;
+    let percentile: number | null = null;
+    if (score !== null && scores.length > 1) {
+      const below = scores.filter(s => s < score).length;
+      const equal = scores.filter(s => s === score).length - 1;
+      percentile = Math.round(((below + equal / 2) / (scores.length - 1)) * 100);
+    }
+    return [symbol, { ...rs, percentile }];
+  }));
+};
+
+export const attachRelativeStrength = (analysis: MultiTimeframeSetup, rs: RelativeStrength | undefined): MultiTimeframeSetup =>
+  rs ? { ...analysis, relativeStrength: rs } : analysis;
+
+// "RS 前 10%" / "RS 后 30%", in steps of ten
+export const describeRelativeStrength = (percentile: number): string =>
+  percentile >= 50
+    ? `RS 前 ${Math.max(10, Math.ceil((100 - percentile) / 10) * 10)}%`
+    : `RS 后 ${Math.max(10, Math.ceil(percentile / 10) * 10)}%`;
@@ -0,0 +1,152 @@
+import { SymbolFilters, TradeDirection, TradeSetup } from '../types';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+
+// Turns a setup's entry/SL/TP into an order size: risk a fixed share of equity
+// between entry and stop, after fees and slippage, rounded to what the exchange accepts.
+
+export type MarketType = 'spot' | 'futures';
+
+export interface RiskSettings {
+  equity: number; // Account equity in the quote asset (USDT)
+  riskPercent: number; // Share of equity lost if the stop is hit, fees included
+  leverage: number; // Futures only, spot is always 1x
+  feeRate: number; // Taker fee per side, %
+  slippage: number; // Assumed adverse fill on entry and exit, %
+  maintenanceMarginRate: number; // Futures, %, used for the liquidation estimate
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  equity: 1000,
+  riskPercent: 1,
+  leverage: 5,
+  feeRate: 0.05,
+  slippage: 0.05,
+  maintenanceMarginRate: 0.5
+};
+
+export const loadRiskSettings = (): RiskSettings => {
+  const stored = loadJSON<Partial<RiskSettings> | null>(STORAGE_KEYS.risk, null);
+  return { ...DEFAULT_RISK_SETTINGS, ...stored };
+};
+
+export const saveRiskSettings = (settings: RiskSettings): void => {
+  saveJSON(STORAGE_KEYS.risk, settings);
+};
+
+export interface PositionSize {
+  direction: TradeDirection;
+  market: MarketType;
+  entryPrice: number; // Levels rounded to the tick size
+  stopLoss: number;
+  takeProfit: number;
+  quantity: number; // Base asset, rounded down to the step size
+  notional: number;
+  margin: number;
+  leverage: number;
+  fees: number; // Round trip at the stop, the larger of the two exits is not assumed
+  expectedLoss: number; // Loss at the stop including fees and slippage
+  expectedGain: number; // Gain at the target net of fees and slippage
+  rMultiple: number; // Net gain per unit of net risk
+  liquidationPrice: number | null; // Isolated margin estimate, futures only
+  cappedByBuyingPower: boolean; // The risk budget asked for more than equity × leverage allows
+  belowMinimum: boolean; // Under LOT_SIZE.minQty or MIN_NOTIONAL, the exchange would reject it
+  warnings: string[]; // Empty when the order can be placed as shown
+}
+
+// Decimal places of an exchange increment, e.g. 0.001 -> 3, 1e-8 -> 8
+const stepDecimals = (step: number): number => {
+  const text = step.toString();
+  const exponent = text.match(/e-(\d+)$/);
+  if (exponent) return parseInt(exponent[1], 10);
+  const dot = text.indexOf('.');
+  return dot === -1 ? 0 : text.length - dot - 1;
+};
+
+// Snap to an increment without float noise (0.1 + 0.2 style)
+export const roundToStep = (value: number, step: number, mode: 'floor' | 'round' | 'ceil' = 'round'): number => {
+  if (!(step > 0)) return value;
+  // The epsilon keeps values that already sit on the grid from being floored one step down
+  const units = mode === 'floor' ? Math.floor(value / step + 1e-9)
+    : mode === 'ceil' ? Math.ceil(value / step - 1e-9)
+    : Math.round(value / step);
+  return parseFloat((units * step).toFixed(stepDecimals(step)));
+};
+
+export const calculatePositionSize = (
+  setup: Pick<TradeSetup, 'entryPrice' | 'stopLoss' | 'takeProfit'>,
+  settings: RiskSettings,
+  market: MarketType,
+  filters?: SymbolFilters
+): PositionSize | null => {
+  const tick = filters?.tickSize ?? 0;
+  const entryPrice = roundToStep(setup.entryPrice, tick);
+  const stopLoss = roundToStep(setup.stopLoss, tick);
+  const takeProfit = roundToStep(setup.takeProfit, tick);
+  if (!(entryPrice > 0) || stopLoss === entryPrice || !(settings.equity > 0)) return null;
+
+  // The stop's side decides the direction, so WATCH setups size like the trade they would become
+  const direction: TradeDirection = stopLoss < entryPrice ? 'LONG' : 'SHORT';
+  const sign = direction === 'LONG' ? 1 : -1;
+  const fee = settings.feeRate / 100;
+  const slip = settings.slippage / 100;
+  const leverage = market === 'futures' ? Math.max(1, settings.leverage) : 1;
+
+  // Fills are assumed against us on both sides
+  const fillEntry = entryPrice * (1 + sign * slip);
+  const fillStop = stopLoss * (1 - sign * slip);
+  const fillTarget = takeProfit * (1 - sign * slip);
+  const lossPerUnit = (fillEntry - fillStop) * sign + fee * (fillEntry + fillStop);
+  const gainPerUnit = (fillTarget - fillEntry) * sign - fee * (fillEntry + fillTarget);
+  if (!(lossPerUnit > 0)) return null;
+
+  const warnings: string[] = [];
+  const riskBudget = settings.equity * (settings.riskPercent / 100);
+  const maxByRisk = riskBudget / lossPerUnit;
+  // Entry fee comes out of the same equity as the margin
+  const maxByBuyingPower = (settings.equity * leverage) / (fillEntry * (1 + fee * leverage));
+  const cappedByBuyingPower = maxByBuyingPower < maxByRisk;
+
+  let quantity = Math.min(maxByRisk, maxByBuyingPower);
+  let belowMinimum = !(quantity > 0);
+  if (filters) {
+    quantity = roundToStep(Math.min(quantity, filters.maxQty || Infinity), filters.stepSize, 'floor');
+    if (quantity < filters.minQty) warnings.push(`数量低于最小下单量 ${filters.minQty}`);
+    if (quantity * entryPrice < filters.minNotional) warnings.push(`金额低于最小下单额 ${filters.minNotional} USDT`);
+    belowMinimum = quantity <= 0 || quantity < filters.minQty || quantity * entryPrice < filters.minNotional;
+  } else {
+    warnings.push('缺少交易规则，数量未按步长取整');
+  }
+  if (cappedByBuyingPower) warnings.push('可用保证金不足，仓位已按最大可开数量截断');
+
+  const notional = quantity * entryPrice;
+  let liquidationPrice: number | null = null;
+  if (market === 'futures') {
+    // Isolated margin on a linear contract: the position is liquidated once the
+    // loss eats the initial margin down to the maintenance margin
+    const mmr = settings.maintenanceMarginRate / 100;
+    liquidationPrice = entryPrice * (1 - sign * (1 / leverage - mmr));
+    if ((liquidationPrice - stopLoss) * sign >= 0) warnings.push('强平价在止损之前，请降低杠杆');
+  }
+
+  const expectedLoss = quantity * lossPerUnit;
+  const expectedGain = quantity * gainPerUnit;
+  return {
+    direction,
+    market,
+    entryPrice,
+    stopLoss,
+    takeProfit,
+    quantity,
+    notional,
+    margin: notional / leverage,
+    leverage,
+    fees: quantity * fee * (fillEntry + fillStop),
+    expectedLoss,
+    expectedGain,
+    rMultiple: expectedLoss > 0 ? expectedGain / expectedLoss : 0,
+    liquidationPrice,
+    cappedByBuyingPower,
+    belowMinimum,
+    warnings
+  };
+};
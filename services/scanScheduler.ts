@@ -0,0 +1,201 @@
+import { RateLimitError, RateLimitState, getRateLimitState } from './binanceService';
+
+// Bounded-concurrency task pool for REST sweeps over many symbols.
+// Tasks start in priority order, the pool waits whenever the reported request
+// weight would exceed the budget, and concurrency is halved on every 429/418
+// and grown back one step at a time while requests keep succeeding.
+
+export type ScanStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ScanTask {
+  id: string; // Usually the symbol
+  priority?: number; // Higher runs first
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+export interface ScanEntry {
+  id: string;
+  status: ScanStatus;
+  attempts: number;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface ScanProgress {
+  total: number;
+  done: number;
+  failed: number;
+  running: number;
+  queued: number;
+  cancelled: number;
+  entries: ScanEntry[]; // In scheduling order
+  concurrency: number;
+  usedWeight: number | null;
+  weightLimit: number;
+  throttledUntil: number | null; // Set while the pool is waiting on the weight budget or a ban
+  finished: boolean;
+}
+
+export interface ScanOptions {
+  maxConcurrency?: number;
+  weightPerTask?: number; // Request weight one task consumes (two kline calls = 4)
+  weightBudget?: number; // Share of the per-minute limit the sweep may use
+  maxRetries?: number; // Retries for ordinary failures; rate limit retries are not counted
+  onProgress?: (progress: ScanProgress) => void;
+  // Injection points for tests
+  getRateLimit?: () => RateLimitState;
+  now?: () => number;
+}
+
+export interface ScanHandle {
+  promise: Promise<ScanProgress>;
+  cancel: () => void;
+}
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+  });
+
+export const runScan = (tasks: ScanTask[], options: ScanOptions = {}): ScanHandle => {
+  const {
+    maxConcurrency = 6,
+    weightPerTask = 4,
+    weightBudget = 0.7,
+    maxRetries = 2,
+    onProgress,
+    getRateLimit = getRateLimitState,
+    now = Date.now
+  } = options;
+
+  const controller = new AbortController();
+  const { signal } = controller;
+  const ordered = tasks
+    .map((task, index) => ({ task, index }))
+    .sort((a, b) => (b.task.priority ?? 0) - (a.task.priority ?? 0) || a.index - b.index)
+    .map(({ task }) => task);
+  const entries = new Map<string, ScanEntry>(
+    ordered.map(task => [task.id, { id: task.id, status: 'queued', attempts: 0 }])
+  );
+  const queue = ordered.slice();
+  let concurrency = maxConcurrency;
+  let running = 0;
+  let successStreak = 0;
+  let throttledUntil: number | null = null;
+
+  const snapshot = (finished: boolean): ScanProgress => {
+    const list = Array.from(entries.values());
+    const count = (status: ScanStatus) => list.filter(e => e.status === status).length;
+    return {
+      total: list.length,
+      done: count('done'),
+      failed: count('failed'),
+      running: count('running'),
+      queued: count('queued'),
+      cancelled: count('cancelled'),
+      entries: list,
+      concurrency,
+      usedWeight: getRateLimit().usedWeight1m,
+      weightLimit: getRateLimit().weightLimit1m,
+      throttledUntil,
+      finished
+    };
+  };
+
+  const report = () => onProgress?.(snapshot(false));
+
+  // Milliseconds to wait before another task may start, 0 if there is capacity
+  const capacityDelay = (): number => {
+    const state = getRateLimit();
+    const t = now();
+    if (state.bannedUntil && state.bannedUntil > t) return state.bannedUntil - t;
+    if (state.usedWeight1m === null) return 0;
+    // Weight resets on the minute; a reading from an earlier minute is stale
+    const minuteStart = Math.floor(t / 60000) * 60000;
+    if (state.updatedAt < minuteStart) return 0;
+    const projected = state.usedWeight1m + running * weightPerTask + weightPerTask;
+    if (projected <= state.weightLimit1m * weightBudget) return 0;
+    return minuteStart + 60000 - t + 250;
+  };
+
+  const runTask = async (task: ScanTask) => {
+    const entry = entries.get(task.id)!;
+    entry.status = 'running';
+    entry.attempts++;
+    const started = now();
+    running++;
+    report();
+    try {
+      await task.run(signal);
+      entry.status = signal.aborted ? 'cancelled' : 'done';
+      entry.error = undefined;
+      successStreak++;
+      // Additive increase: one more slot after a full round of successes
+      if (successStreak >= concurrency * 2 && concurrency < maxConcurrency) {
+        concurrency++;
+        successStreak = 0;
+      }
+    } catch (error) {
+      successStreak = 0;
+      entry.error = error instanceof Error ? error.message : String(error);
+      if (signal.aborted) {
+        entry.status = 'cancelled';
+      } else if (error instanceof RateLimitError) {
+        // Multiplicative decrease, and the task goes back to the front without using a retry
+        concurrency = Math.max(1, Math.floor(concurrency / 2));
+        entry.attempts--;
+        entry.status = 'queued';
+        queue.unshift(task);
+      } else if (entry.attempts <= maxRetries) {
+        entry.status = 'queued';
+        queue.push(task);
+      } else {
+        entry.status = 'failed';
+      }
+    } finally {
+      entry.durationMs = now() - started;
+      running--;
+      report();
+    }
+  };
+
+  const promise = (async () => {
+    const inFlight = new Set<Promise<void>>();
+    while (!signal.aborted && (queue.length > 0 || inFlight.size > 0)) {
+      if (queue.length === 0 || inFlight.size >= concurrency) {
+        await Promise.race(inFlight);
+        continue;
+      }
+      const delay = capacityDelay();
+      if (delay > 0) {
+        throttledUntil = now() + delay;
+        report();
+        // Re-check when either the wait is over or a running task frees weight
+        await Promise.race([sleep(delay, signal), ...inFlight]);
+        throttledUntil = null;
+        continue;
+      }
+      const task = queue.shift()!;
+      const job = runTask(task).finally(() => inFlight.delete(job));
+      inFlight.add(job);
+    }
+    if (signal.aborted) {
+      entries.forEach(entry => {
+        if (entry.status === 'queued') entry.status = 'cancelled';
+      });
+      await Promise.allSettled(Array.from(inFlight));
+    }
+    throttledUntil = null;
+    const final = snapshot(true);
+    onProgress?.(final);
+    return final;
+  })();
+
+  return { promise, cancel: () => controller.abort() };
+};
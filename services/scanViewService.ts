@@ -0,0 +1,220 @@
+import { SignalType, TradeSetup } from '../types';
+import { MultiTimeframeSetup, StrategyInterval, TIMEFRAMES, isBreakoutSignal, pickPrimarySetup } from './strategyService';
+
+// How the scan results are shown: layout, filters, sort order and table columns.
+// The whole state round-trips through the query string so a view can be shared
+// as a link; only values that differ from the defaults are written.
+
+export type ScanLayout = 'grid' | 'table';
+export type SignalFilter = SignalType | 'ALL' | 'BREAKOUT'; // 'BREAKOUT' covers both breakout directions
+export type SortDirection = 'asc' | 'desc';
+
+export type ScanColumn =
+  | 'interval' | 'signal' | 'price' | 'density' | 'deviation' | 'atrPct'
+  | 'stopDistance' | 'rewardRatio' | 'change24h' | 'confluence' | 'relativeStrength';
+
+// 'rank' is the scanner's own order: breakouts, then WATCH, then timeframe agreement
+export type SortKey = 'rank' | 'symbol' | Exclude<ScanColumn, 'interval' | 'signal' | 'price'>;
+
+export interface ScanViewState {
+  layout: ScanLayout;
+  signal: SignalFilter;
+  intervals: StrategyInterval[]; // Only setups on these timeframes count, empty means all
+  denseOnly: boolean;
+  maxDensity: number | null; // % spread of the six lines
+  maxDeviation: number | null; // % distance of price from the MA average
+  minRewardRatio: number | null;
+  query: string; // Symbol substring
+  sort: SortKey;
+  sortDir: SortDirection;
+  columns: ScanColumn[];
+}
+
+export const SCAN_COLUMNS: { key: ScanColumn; label: string; sort?: SortKey }[] = [
+  { key: 'interval', label: '周期' },
+  { key: 'signal', label: '信号' },
+  { key: 'price', label: '价格' },
+  { key: 'density', label: '密集度', sort: 'density' },
+  { key: 'deviation', label: '偏离', sort: 'deviation' },
+  { key: 'atrPct', label: 'ATR%', sort: 'atrPct' },
+  { key: 'stopDistance', label: '止损距离', sort: 'stopDistance' },
+  { key: 'rewardRatio', label: '盈亏比', sort: 'rewardRatio' },
+  { key: 'change24h', label: '24h 涨跌', sort: 'change24h' },
+  { key: 'confluence', label: '共振', sort: 'confluence' },
+  { key: 'relativeStrength', label: 'RS', sort: 'relativeStrength' }
+];
+
+export const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: 'rank', label: '默认排序' },
+  { value: 'symbol', label: '币种' },
+  ...SCAN_COLUMNS.filter(c => c.sort).map(c => ({ value: c.sort!, label: c.label }))
+];
+
+export const DEFAULT_SCAN_VIEW: ScanViewState = {
+  layout: 'grid',
+  signal: 'ALL',
+  intervals: [],
+  denseOnly: false,
+  maxDensity: null,
+  maxDeviation: null,
+  minRewardRatio: null,
+  query: '',
+  sort: 'rank',
+  sortDir: 'desc',
+  columns: SCAN_COLUMNS.map(c => c.key)
+};
+
+// --- Rows ---
+
+export interface ScanRow {
+  analysis: MultiTimeframeSetup;
+  setup: TradeSetup; // Best setup among the selected timeframes
+  atrPct: number;
+  stopDistance: number; // % from price to the stop
+  rewardRatio: number; // Target distance over stop distance
+  change24h: number | null; // Null until the 24h tickers have loaded
+}
+
+const toRow = (analysis: MultiTimeframeSetup, setup: TradeSetup, change24h: number | undefined): ScanRow => {
+  const risk = Math.abs(setup.entryPrice - setup.stopLoss);
+  return {
+    analysis,
+    setup,
+    atrPct: setup.price > 0 ? (setup.atr / setup.price) * 100 : 0,
+    stopDistance: setup.price > 0 ? (Math.abs(setup.price - setup.stopLoss) / setup.price) * 100 : 0,
+    rewardRatio: risk > 0 ? Math.abs(setup.takeProfit - setup.entryPrice) / risk : 0,
+    change24h: change24h ?? null
+  };
+};
+
+const pickSetup = (analysis: MultiTimeframeSetup, intervals: StrategyInterval[]): TradeSetup | null => {
+  if (intervals.length === 0) return analysis.primary;
+  const setups = Object.fromEntries(intervals.map(tf => [tf, analysis.setups[tf] ?? null]));
+  return pickPrimarySetup(setups);
+};
+
+const matchesSignal = (signal: SignalType, filter: SignalFilter) =>
+  filter === 'ALL' || (filter === 'BREAKOUT' ? isBreakoutSignal(signal) : signal === filter);
+
+const SORT_VALUES: Record<Exclude<SortKey, 'rank' | 'symbol'>, (row: ScanRow) => number> = {
+  density: row => row.setup.densityScore,
+  deviation: row => row.setup.priceDeviation,
+  atrPct: row => row.atrPct,
+  stopDistance: row => row.stopDistance,
+  rewardRatio: row => row.rewardRatio,
+  change24h: row => row.change24h ?? NaN,
+  confluence: row => row.analysis.confluence.score,
+  relativeStrength: row => row.analysis.relativeStrength?.percentile ?? NaN
+};
+
+const compareRows = (sort: SortKey, dir: SortDirection) => {
+  const sign = dir === 'asc' ? 1 : -1;
+  return (a: ScanRow, b: ScanRow): number => {
+    if (sort === 'symbol') return sign * a.analysis.symbol.localeCompare(b.analysis.symbol);
+    if (sort === 'rank') return 0;
+    const va = SORT_VALUES[sort](a);
+    const vb = SORT_VALUES[sort](b);
+    // Missing values go last whichever way the column is sorted
+    if (Number.isNaN(va) || Number.isNaN(vb)) return Number.isNaN(va) ? (Number.isNaN(vb) ? 0 : 1) : -1;
+    return sign * (va - vb);
+  };
+};
+
+// Analyses come in the scanner's rank order, which 'rank' keeps (the sort is stable)
+export const applyScanView = (
+  analyses: MultiTimeframeSetup[],
+  view: ScanViewState,
+  changes24h: Record<string, number>
+): ScanRow[] => {
+  const query = view.query.trim().toUpperCase();
+  const rows: ScanRow[] = [];
+  analyses.forEach(analysis => {
+    if (query && !analysis.symbol.includes(query)) return;
+    const setup = pickSetup(analysis, view.intervals);
+    if (!setup || !matchesSignal(setup.signal, view.signal)) return;
+    if (view.denseOnly && !setup.isDense) return;
+    if (view.maxDensity !== null && setup.densityScore > view.maxDensity) return;
+    if (view.maxDeviation !== null && setup.priceDeviation > view.maxDeviation) return;
+    const row = toRow(analysis, setup, changes24h[analysis.symbol]);
+    if (view.minRewardRatio !== null && row.rewardRatio < view.minRewardRatio) return;
+    rows.push(row);
+  });
+  return rows.sort(compareRows(view.sort, view.sortDir));
+};
+
+// --- URL state ---
+
+const SIGNAL_PARAMS: Record<string, SignalFilter> = {
+  breakout: 'BREAKOUT',
+  watch: SignalType.WATCH,
+  long: SignalType.LONG,
+  short: SignalType.SHORT,
+  'breakout-long': SignalType.BREAKOUT_LONG,
+  'breakdown-short': SignalType.BREAKDOWN_SHORT,
+  wait: SignalType.WAIT
+};
+
+const SORT_KEYS = SORT_OPTIONS.map(o => o.value);
+const COLUMN_KEYS = SCAN_COLUMNS.map(c => c.key);
+
+// Query parameters the view owns, everything else in the URL (source, fixture) is left alone
+const VIEW_PARAMS = ['layout', 'signal', 'tf', 'dense', 'maxDensity', 'maxDev', 'minRR', 'q', 'sort', 'dir', 'cols'];
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+export const decodeScanView = (params: URLSearchParams): ScanViewState => {
+  const signalParam = params.get('signal');
+  const sort = params.get('sort') as SortKey | null;
+  const columns = params.get('cols');
+  return {
+    layout: params.get('layout') === 'table' ? 'table' : 'grid',
+    signal: (signalParam && SIGNAL_PARAMS[signalParam]) || DEFAULT_SCAN_VIEW.signal,
+    intervals: (params.get('tf') ?? '').split(',').filter((tf): tf is StrategyInterval => TIMEFRAMES.includes(tf as StrategyInterval)),
+    denseOnly: params.get('dense') === '1',
+    maxDensity: parseNumber(params.get('maxDensity')),
+    maxDeviation: parseNumber(params.get('maxDev')),
+    minRewardRatio: parseNumber(params.get('minRR')),
+    query: params.get('q') ?? '',
+    sort: sort && SORT_KEYS.includes(sort) ? sort : DEFAULT_SCAN_VIEW.sort,
+    sortDir: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    columns: columns !== null
+      ? columns.split(',').filter((c): c is ScanColumn => COLUMN_KEYS.includes(c as ScanColumn))
+      : DEFAULT_SCAN_VIEW.columns
+  };
+};
+
+// Writes the view into `params` (a copy), dropping values that match the defaults
+export const encodeScanView = (view: ScanViewState, base: URLSearchParams = new URLSearchParams()): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  VIEW_PARAMS.forEach(key => params.delete(key));
+  const signalParam = Object.keys(SIGNAL_PARAMS).find(key => SIGNAL_PARAMS[key] === view.signal);
+  if (view.layout !== DEFAULT_SCAN_VIEW.layout) params.set('layout', view.layout);
+  if (signalParam) params.set('signal', signalParam);
+  if (view.intervals.length) params.set('tf', view.intervals.join(','));
+  if (view.denseOnly) params.set('dense', '1');
+  if (view.maxDensity !== null) params.set('maxDensity', String(view.maxDensity));
+  if (view.maxDeviation !== null) params.set('maxDev', String(view.maxDeviation));
+  if (view.minRewardRatio !== null) params.set('minRR', String(view.minRewardRatio));
+  if (view.query.trim()) params.set('q', view.query.trim());
+  if (view.sort !== DEFAULT_SCAN_VIEW.sort) params.set('sort', view.sort);
+  if (view.sortDir !== DEFAULT_SCAN_VIEW.sortDir) params.set('dir', view.sortDir);
+  const defaultColumns = DEFAULT_SCAN_VIEW.columns.join(',');
+  if (view.columns.join(',') !== defaultColumns) params.set('cols', view.columns.join(','));
+  return params;
+};
+
+export const loadScanView = (): ScanViewState =>
+  typeof window === 'undefined' ? DEFAULT_SCAN_VIEW : decodeScanView(new URLSearchParams(window.location.search));
+
+// Replace rather than push, so filter tweaks do not flood the back button
+export const saveScanView = (view: ScanViewState): void => {
+  if (typeof window === 'undefined') return;
+  const params = encodeScanView(view, new URLSearchParams(window.location.search));
+  const search = params.toString();
+  const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+  window.history.replaceState(window.history.state, '', url);
+};
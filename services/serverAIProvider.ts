@@ -0,0 +1,93 @@
+import { AIError, AIErrorReason, AIProvider, AITask, isAbortError, isJSONObject } from './aiProvider';
+
+// The app's own backend (server/), which keeps the API key out of the browser.
+// Only the task and the user prompt are sent: the backend supplies the system
+// prompt and the reply schema of the task, and picks the model itself.
+// The reply streams back as newline-delimited JSON events, so an error that
+// happens after the first tokens still arrives as an error.
+
+export const ANALYSIS_ENDPOINT = '/api/analysis';
+
+export interface AIServerRequest {
+  task: AITask;
+  prompt: string;
+}
+
+export type AIServerEvent =
+  | { text: string }
+  | { error: { message: string; reason: AIErrorReason; status?: number } };
+
+type AIServerErrorEvent = Extract<AIServerEvent, { error: unknown }>;
+
+const isErrorEvent = (event: unknown): event is AIServerErrorEvent =>
+  isJSONObject(event) && isJSONObject(event.error) && typeof event.error.message === 'string' && typeof event.error.reason === 'string';
+
+const toError = (event: AIServerErrorEvent) =>
+  new AIError(event.error.message, event.error.reason, event.error.status);
+
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        let event: unknown;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          throw new AIError(`无法解析的事件: ${line.slice(0, 80)}`, 'PARSE_ERROR');
+        }
+        if (isErrorEvent(event)) throw toError(event);
+        if (isJSONObject(event) && typeof event.text === 'string' && event.text) yield event.text;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const createServerAIProvider = (endpoint: string = ANALYSIS_ENDPOINT): AIProvider => ({
+  id: 'server',
+  label: '服务端',
+  model: 'default',
+  stream: async function* ({ task, prompt, signal }) {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ task, prompt } satisfies AIServerRequest),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw new AIError('请求已取消', 'ABORTED');
+      throw new AIError(`${endpoint}: ${error instanceof Error ? error.message : String(error)}`, 'NETWORK');
+    }
+
+    if (!response.ok) {
+      let event: unknown = null;
+      try {
+        event = await response.json();
+      } catch {
+        // The static dev server answers 404 with HTML when the backend is not running
+      }
+      if (isErrorEvent(event)) throw toError(event);
+      throw new AIError(response.statusText || `${endpoint} 不可用`, response.status === 429 ? 'RATE_LIMIT' : 'HTTP_STATUS', response.status);
+    }
+    if (!response.body) throw new AIError('响应没有内容', 'EMPTY_RESPONSE');
+
+    try {
+      yield* readEvents(response.body);
+    } catch (error) {
+      if (isAbortError(error)) throw new AIError('请求已取消', 'ABORTED');
+      throw error instanceof AIError ? error : new AIError(String(error), 'NETWORK');
+    }
+  }
+});
@@ -0,0 +1,59 @@
+import { BarSignals, Kline, SignalHistory, SignalType } from '../types';
+
+// How a signal evaluated on the forming candle moved before that candle closed.
+// The stream records every evaluation of a series: the first one in each half of
+// the candle and the one of the finished candle are kept, so a LONG that showed
+// at the open and was gone by the close can be told apart from a confirmed one.
+
+// A shown signal (anything but WAIT) that is replaced has repainted
+const flipped = (from: SignalType, to: SignalType) => from !== SignalType.WAIT && from !== to;
+
+const startBar = (kline: Kline, signal: SignalType, now: number): BarSignals => {
+  const firstHalf = now < kline.openTime + (kline.closeTime - kline.openTime) / 2;
+  return {
+    openTime: kline.openTime,
+    atOpen: firstHalf ? signal : null,
+    midBar: firstHalf ? null : signal,
+    atClose: null,
+    latest: signal,
+    repainted: false
+  };
+};
+
+// Record an evaluation of the forming candle `kline` at `now`
+export const recordSignal = (
+  history: SignalHistory | null,
+  kline: Kline,
+  signal: SignalType,
+  now: number = Date.now()
+): SignalHistory => {
+  const current = history?.current;
+  if (!current || kline.openTime > current.openTime) {
+    return { current: startBar(kline, signal, now), previous: current ?? null };
+  }
+  if (kline.openTime < current.openTime) return history;
+
+  const secondHalf = now >= kline.openTime + (kline.closeTime - kline.openTime) / 2;
+  return {
+    ...history,
+    current: {
+      ...current,
+      midBar: current.midBar ?? (secondHalf ? signal : null),
+      latest: signal,
+      repainted: current.repainted || flipped(current.latest, signal)
+    }
+  };
+};
+
+// Record the signal of the finished candle opened at `openTime`
+export const closeBar = (history: SignalHistory | null, openTime: number, signal: SignalType): SignalHistory | null => {
+  const bar = history?.current.openTime === openTime ? history.current : history?.previous;
+  if (!history || !bar || bar.openTime !== openTime) return history;
+  const closed: BarSignals = {
+    ...bar,
+    atClose: signal,
+    latest: signal,
+    repainted: bar.repainted || flipped(bar.latest, signal)
+  };
+  return bar === history.current ? { ...history, current: closed } : { ...history, previous: closed };
+};
@@ -0,0 +1,37 @@
+// Thin localStorage wrapper. Every read falls back to the provided default so
+// a corrupt or missing entry (or private mode without storage) never breaks the app.
+// Outside the browser (the CLI) there is no storage at all: reads return the
+// default and writes are dropped.
+
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+export const STORAGE_KEYS = {
+  strategyConfig: 'ma-strategy:config',
+  watchlists: 'ma-strategy:watchlists',
+  marketData: 'ma-strategy:market-data',
+  alerts: 'ma-strategy:alerts',
+  risk: 'ma-strategy:risk',
+  paper: 'ma-strategy:paper',
+  ai: 'ma-strategy:ai',
+  aiCache: 'ma-strategy:ai-cache'
+} as const;
+
+export const loadJSON = <T>(key: string, fallback: T): T => {
+  if (!hasStorage()) return fallback;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.warn(`Failed to read ${key} from storage`, error);
+    return fallback;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown): void => {
+  if (!hasStorage()) return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to write ${key} to storage`, error);
+  }
+};
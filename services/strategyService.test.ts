@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { candleOpenTime } from './strategyService';
+
+describe('candleOpenTime', () => {
+  const time = Date.UTC(2026, 9, 22, 15, 42); // Thursday afternoon
+
+  it('lines intraday and daily candles up with the epoch', () => {
+    expect(candleOpenTime('15m', time)).toBe(Date.UTC(2026, 9, 22, 15, 30));
+    expect(candleOpenTime('4h', time)).toBe(Date.UTC(2026, 9, 22, 12));
+    expect(candleOpenTime('1d', time)).toBe(Date.UTC(2026, 9, 22));
+  });
+
+  it('opens weekly candles on Monday', () => {
+    expect(candleOpenTime('1w', time)).toBe(Date.UTC(2026, 9, 19));
+    expect(candleOpenTime('1w', Date.UTC(2026, 9, 19))).toBe(Date.UTC(2026, 9, 19));
+    expect(candleOpenTime('1w', Date.UTC(2026, 9, 18, 23, 59))).toBe(Date.UTC(2026, 9, 12));
+  });
+});
@@ -0,0 +1,473 @@
+import { Kline, TradeSetup, SignalType, MASet, StrategyConfig, Timeframe, RelativeStrength } from '../types';
+import { buildTradePlans } from './tradePlanService';
+import {
+  BandReading, ConsolidationSnapshot, ConsolidationState,
+  createConsolidationState, advanceConsolidation, readConsolidation
+} from './consolidationService';
+import {
+  Candle, RollingSMA, RollingEMA, RollingATR, parseKlines,
+  createSMA, updateSMA, peekSMA,
+  createEMA, updateEMA, peekEMA,
+  createATR, updateATR, peekATR
+} from './indicators';
+
+export type StrategyInterval = Timeframe;
+
+// Every supported interval, lowest to highest. Higher frames carry more weight.
+export const TIMEFRAMES: StrategyInterval[] = ['15m', '1h', '4h', '1d', '1w'];
+
+// Candle length of each interval, consecutive open times are this far apart
+export const INTERVAL_MS: Record<StrategyInterval, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000
+};
+
+// Open time of the candle containing `time`. Weekly candles open on Monday 00:00 UTC,
+// four days after the epoch (a Thursday); the shorter ones line up with the epoch.
+export const candleOpenTime = (interval: StrategyInterval, time: number): number => {
+  const step = INTERVAL_MS[interval];
+  const offset = interval === '1w' ? 4 * INTERVAL_MS['1d'] : 0;
+  return Math.floor((time - offset) / step) * step + offset;
+};
+
+export const TIMEFRAME_LABELS: Record<StrategyInterval, string> = {
+  '15m': '15分钟 (15M)',
+  '1h': '1小时 (1H)',
+  '4h': '4小时 (4H)',
+  '1d': '日线 (1D)',
+  '1w': '周线 (1W)'
+};
+
+export interface SetupContext {
+  symbol: string;
+  interval: StrategyInterval;
+}
+
+export type SymbolKlines = Partial<Record<StrategyInterval, Kline[]>>;
+
+export type IntervalSetups = Partial<Record<StrategyInterval, TradeSetup | null>>;
+
+export type IntervalKlines = Partial<SymbolKlines>;
+
+// How far the evaluated timeframes point the same way
+export interface TimeframeConfluence {
+  // -100 (every frame SHORT) to 100 (every frame LONG), weighted towards higher frames
+  score: number;
+  bias: SignalType.LONG | SignalType.SHORT | null;
+  aligned: StrategyInterval[]; // Frames trending with the bias
+  opposed: StrategyInterval[]; // Frames trending against it
+  // Dense frames below a frame trending with the bias: consolidation inside a
+  // higher timeframe trend, the classic entry spot
+  watchInTrend: StrategyInterval[];
+}
+
+// Every timeframe's result for one symbol, plus the one to lead with
+export interface MultiTimeframeSetup {
+  symbol: string;
+  setups: IntervalSetups;
+  primary: TradeSetup | null;
+  confluence: TimeframeConfluence;
+  relativeStrength?: RelativeStrength; // Against BTC and the rest of the scan, attached after scoring
+}
+
+// Indicator values on one candle, the only inputs the scoring rules need
+export interface IndicatorSnapshot {
+  price: number;
+  mas: MASet;
+  atr: number;
+  swingHigh: number; // Extremes of the last `swingLookback` candles, this one included
+  swingLow: number;
+  consolidation?: ConsolidationSnapshot; // Missing when scoring a lone snapshot without history
+}
+
+// Incremental state of the six lines plus ATR over the closed candles seen so far
+export interface SixLineState {
+  config: StrategyConfig;
+  count: number;
+  ma: [RollingSMA, RollingSMA, RollingSMA];
+  ema: [RollingEMA, RollingEMA, RollingEMA];
+  atr: RollingATR;
+  highs: number[]; // Last `swingLookback - 1` closed candles, for structure stops
+  lows: number[];
+  consolidation: ConsolidationState;
+}
+
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = {
+  timeframes: ['1h', '4h'],
+  maPeriods: { short: 20, mid: 60, long: 120 },
+  denseThreshold: 2.0,
+  priceDeviationThreshold: 3.0,
+  atrPeriod: 14,
+  atrSmoothing: 'simple',
+  atrMultiplier: 2,
+  rewardRatio: 2,
+  requireAlignment: true,
+  includeEmaInAlignment: false,
+  requirePriceBeyondBand: true,
+  stopMode: 'atr',
+  swingLookback: 20,
+  takeProfitLadder: [1, 2, 3],
+  trailAtrMultiple: 2,
+  minConsolidationBars: 5,
+  breakoutVolumeFactor: 1.5,
+  evaluationMode: 'closed'
+};
+
+// Candles needed before the longest line has settled. The original fixed
+// value of 150 for the 120 period is kept as the ratio.
+export const getMinKlines = (config: StrategyConfig): number =>
+  config.maPeriods.long + 30;
+
+// Known intervals only, deduplicated and ordered lowest to highest
+export const sortTimeframes = (timeframes: readonly string[]): StrategyInterval[] =>
+  TIMEFRAMES.filter(tf => timeframes.includes(tf));
+
+// Fill in any keys missing from a stored or partially edited config
+export const normalizeStrategyConfig = (config: Partial<StrategyConfig> | null | undefined): StrategyConfig => {
+  const timeframes = sortTimeframes(Array.isArray(config?.timeframes) ? config!.timeframes : []);
+  return {
+    ...DEFAULT_STRATEGY_CONFIG,
+    ...config,
+    timeframes: timeframes.length ? timeframes : DEFAULT_STRATEGY_CONFIG.timeframes,
+    maPeriods: { ...DEFAULT_STRATEGY_CONFIG.maPeriods, ...config?.maPeriods },
+    takeProfitLadder: Array.isArray(config?.takeProfitLadder) && config!.takeProfitLadder.some(r => r > 0)
+      ? config!.takeProfitLadder.filter(r => r > 0).sort((a, b) => a - b)
+      : DEFAULT_STRATEGY_CONFIG.takeProfitLadder,
+    evaluationMode: config?.evaluationMode === 'intrabar' ? 'intrabar' : 'closed'
+  };
+};
+
+// Trend direction of a signal: 1 long, -1 short, 0 for WATCH/WAIT
+export const signalDirection = (signal: SignalType | null | undefined): 1 | -1 | 0 => {
+  switch (signal) {
+    case SignalType.LONG:
+    case SignalType.BREAKOUT_LONG:
+      return 1;
+    case SignalType.SHORT:
+    case SignalType.BREAKDOWN_SHORT:
+      return -1;
+    default:
+      return 0;
+  }
+};
+
+export const isBreakoutSignal = (signal: SignalType): boolean =>
+  signal === SignalType.BREAKOUT_LONG || signal === SignalType.BREAKDOWN_SHORT;
+
+// Enum key of a signal (LONG, BREAKOUT_LONG...), for prompts and plain-text output
+const SIGNAL_CODES = Object.fromEntries(Object.entries(SignalType).map(([key, value]) => [value, key])) as Record<SignalType, string>;
+
+export const signalCode = (signal: SignalType): string => SIGNAL_CODES[signal];
+
+const formatLevel = (value: number) => value.toFixed(value < 1 ? 4 : 2);
+
+// Human readable reason shown on the card and fed to the AI prompt
+const describeSignal = (
+  signal: SignalType,
+  interval: StrategyInterval,
+  densityScore: number,
+  priceDeviation: number,
+  config: StrategyConfig,
+  consolidation?: ConsolidationSnapshot
+): string => {
+  const failed = consolidation?.falseBreakout;
+  const falseNote = failed
+    ? `前次${failed.direction === 'LONG' ? '向上突破' : '向下跌破'}已回到均线带内 (假${failed.direction === 'LONG' ? '突破' : '跌破'})。`
+    : '';
+  switch (signal) {
+    case SignalType.BREAKOUT_LONG:
+    case SignalType.BREAKDOWN_SHORT: {
+      const { run } = consolidation!.breakout!;
+      const up = signal === SignalType.BREAKOUT_LONG;
+      return `[${interval}] 6线密集 ${run.bars} 根K线 (带宽${run.width.toFixed(2)}%) 后放量${up ? '向上突破' : '向下跌破'} ${formatLevel(up ? run.high : run.low)}，均线开始发散。`;
+    }
+    case SignalType.WATCH: {
+      const bars = consolidation?.denseBars ? `已持续 ${consolidation.denseBars} 根K线，` : '';
+      return `[${interval}] 6线高度密集 (宽${densityScore.toFixed(2)}%) 且价格在均线附近，${bars}关注变盘。${falseNote}`;
+    }
+    case SignalType.LONG:
+      return config.requireAlignment
+        ? `[${interval}] 均线多头排列且价格站上所有均线。`
+        : `[${interval}] 价格站上均线区间，偏多。`;
+    case SignalType.SHORT:
+      return config.requireAlignment
+        ? `[${interval}] 均线空头排列且价格跌破所有均线。`
+        : `[${interval}] 价格跌破均线区间，偏空。`;
+    default:
+      return densityScore < config.denseThreshold && priceDeviation >= config.priceDeviationThreshold
+        ? `[${interval}] 均线密集但价格偏离过大 (${priceDeviation.toFixed(2)}%)。${falseNote}`
+        : `[${interval}] 均线发散，无明确形态。${falseNote}`;
+  }
+};
+
+export const createSixLineState = (config: StrategyConfig): SixLineState => {
+  const { short, mid, long } = config.maPeriods;
+  return {
+    config,
+    count: 0,
+    ma: [createSMA(short), createSMA(mid), createSMA(long)],
+    ema: [createEMA(short), createEMA(mid), createEMA(long)],
+    atr: createATR(config.atrPeriod, config.atrSmoothing),
+    highs: [],
+    lows: [],
+    consolidation: createConsolidationState()
+  };
+};
+
+// Band of the six lines on a candle, null until every line has a value
+const readBand = (lines: number[], close: number): BandReading | null => {
+  if (lines.some(v => !Number.isFinite(v))) return null;
+  const high = Math.max(...lines);
+  const low = Math.min(...lines);
+  const mean = lines.reduce((sum, v) => sum + v, 0) / lines.length;
+  return { high, low, density: ((high - low) / close) * 100, deviation: (Math.abs(close - mean) / close) * 100 };
+};
+
+// Commit a closed candle
+export const advanceSixLine = (state: SixLineState, candle: Candle): void => {
+  const { close } = candle;
+  const band = readBand([
+    ...state.ma.map(ma => updateSMA(ma, close)),
+    ...state.ema.map(ema => updateEMA(ema, close))
+  ], close);
+  if (band) advanceConsolidation(state.consolidation, candle, band, state.config);
+  updateATR(state.atr, candle.high, candle.low, close);
+  state.highs.push(candle.high);
+  state.lows.push(candle.low);
+  if (state.highs.length >= state.config.swingLookback) {
+    state.highs.shift();
+    state.lows.shift();
+  }
+  state.count++;
+};
+
+// Indicator values as if `candle` were the next one (closed or still forming).
+// Returns null until enough candles have been seen for the longest line.
+export const readSixLine = (state: SixLineState, candle: Candle): IndicatorSnapshot | null => {
+  if (state.count + 1 < getMinKlines(state.config)) return null;
+  const { close } = candle;
+  const [ma20, ma60, ma120] = state.ma.map(ma => peekSMA(ma, close));
+  const [ema20, ema60, ema120] = state.ema.map(ema => peekEMA(ema, close));
+  const atr = peekATR(state.atr, candle.high, candle.low);
+  const band = readBand([ma20, ma60, ma120, ema20, ema60, ema120], close);
+  return {
+    price: close,
+    mas: { ma20, ma60, ma120, ema20, ema60, ema120 },
+    atr: Number.isNaN(atr) ? 0 : atr,
+    swingHigh: Math.max(candle.high, ...state.highs),
+    swingLow: Math.min(candle.low, ...state.lows),
+    consolidation: band ? readConsolidation(state.consolidation, candle, band, state.config) : undefined
+  };
+};
+
+// Apply the density/deviation/alignment rules to one candle's indicator values
+export const scoreSnapshot = (
+  snapshot: IndicatorSnapshot,
+  config: StrategyConfig,
+  context: SetupContext
+): TradeSetup | null => {
+  const { symbol, interval } = context;
+  const { mas, atr, price: currentPrice } = snapshot;
+
+  if (!mas.ma120 || !mas.ema120) return null;
+
+  // --- 1. Density Calculation ---
+  const allValues = Object.values(mas);
+  const maxVal = Math.max(...allValues);
+  const minVal = Math.min(...allValues);
+  const spread = maxVal - minVal;
+  const densityScore = (spread / currentPrice) * 100;
+
+  // --- 2. Price Deviation ---
+  const averageMA = allValues.reduce((sum, val) => sum + val, 0) / allValues.length;
+  const priceDeviation = Math.abs(currentPrice - averageMA) / currentPrice * 100;
+
+  const isDense = (densityScore < config.denseThreshold) && (priceDeviation < config.priceDeviationThreshold);
+
+  // --- 3. Alignment ---
+  const maBullish = mas.ma20 > mas.ma60 && mas.ma60 > mas.ma120;
+  const maBearish = mas.ma20 < mas.ma60 && mas.ma60 < mas.ma120;
+  const emaBullish = mas.ema20 > mas.ema60 && mas.ema60 > mas.ema120;
+  const emaBearish = mas.ema20 < mas.ema60 && mas.ema60 < mas.ema120;
+  const isBullishAlignment = !config.requireAlignment || (maBullish && (!config.includeEmaInAlignment || emaBullish));
+  const isBearishAlignment = !config.requireAlignment || (maBearish && (!config.includeEmaInAlignment || emaBearish));
+
+  // Without the band rule, price only has to be on the right side of the MA centre
+  const isAbove = config.requirePriceBeyondBand ? currentPrice > maxVal : currentPrice > averageMA;
+  const isBelow = config.requirePriceBeyondBand ? currentPrice < minVal : currentPrice < averageMA;
+
+  // A confirmed breakout resolves the consolidation and outranks the other rules
+  const breakout = snapshot.consolidation?.breakout;
+  let signal = SignalType.WAIT;
+  if (breakout) {
+    signal = breakout.direction === 'LONG' ? SignalType.BREAKOUT_LONG : SignalType.BREAKDOWN_SHORT;
+  } else if (isDense) {
+    signal = SignalType.WATCH;
+  } else if (isBullishAlignment && isAbove) {
+    signal = SignalType.LONG;
+  } else if (isBearishAlignment && isBelow) {
+    signal = SignalType.SHORT;
+  }
+
+  const plans = buildTradePlans(signal, {
+    price: currentPrice,
+    atr,
+    bandHigh: maxVal,
+    bandLow: minVal,
+    swingHigh: snapshot.swingHigh,
+    swingLow: snapshot.swingLow
+  }, config);
+
+  // Headline levels, used by the backtester, journal and alerts. A trend takes its
+  // plan as is; WATCH and WAIT lean the way price sits against the MA centre, with
+  // the stop measured from the current price.
+  const leanLong = currentPrice >= averageMA;
+  const headline = signalDirection(signal) !== 0
+    ? plans[0]
+    : plans.find(p => p.direction === (leanLong ? 'LONG' : 'SHORT'));
+  const isLong = headline ? headline.direction === 'LONG' : leanLong;
+  const stopLoss = headline?.stopLoss ?? (isLong ? minVal - atr * config.atrMultiplier : maxVal + atr * config.atrMultiplier);
+  // Signed distance, so the same expression places the target for either direction
+  const takeProfit = currentPrice + (currentPrice - stopLoss) * config.rewardRatio;
+
+  return {
+    symbol,
+    interval,
+    price: currentPrice,
+    mas,
+    maPeriods: { ...config.maPeriods },
+    densityScore,
+    priceDeviation,
+    atr,
+    signal,
+    entryPrice: currentPrice,
+    stopLoss,
+    takeProfit,
+    isDense,
+    reason: describeSignal(signal, interval, densityScore, priceDeviation, config, snapshot.consolidation),
+    plans
+  };
+};
+
+// The candles a setup is scored on: in 'closed' mode a last candle that is still forming is left out
+export const evaluatedKlines = (klines: Kline[], config: StrategyConfig, now: number = Date.now()): Kline[] =>
+  config.evaluationMode === 'closed' && klines.length > 0 && klines[klines.length - 1].closeTime >= now
+    ? klines.slice(0, -1)
+    : klines;
+
+// Pure evaluation of the six-line strategy on the last candle of `klines`, or on the last
+// closed one in 'closed' mode. Shared by the live scanner, the settings re-score and the
+// backtester, so it must not touch the network.
+export const evaluateSetup = (
+  allKlines: Kline[],
+  config: StrategyConfig,
+  context: SetupContext,
+  now: number = Date.now()
+): TradeSetup | null => {
+  const klines = evaluatedKlines(allKlines, config, now);
+  if (klines.length < getMinKlines(config)) return null;
+  const candles = parseKlines(klines);
+  const state = createSixLineState(config);
+  for (let i = 0; i < candles.length - 1; i++) advanceSixLine(state, candles[i]);
+  const snapshot = readSixLine(state, candles[candles.length - 1]);
+  return snapshot ? scoreSnapshot(snapshot, config, context) : null;
+};
+
+// Decide which timeframe's setup to show for a symbol
+export const pickPrimarySetup = (setups: IntervalSetups): TradeSetup | null => {
+  // Highest timeframe first within each tier
+  const ranked = TIMEFRAMES.slice().reverse()
+    .map(tf => setups[tf] ?? null)
+    .filter((s): s is TradeSetup => s !== null);
+
+  // Priority Logic to decide which one to show:
+
+  // 1. A breakout out of a consolidation is the resolution WATCH was waiting for
+  const breakout = ranked.find(s => isBreakoutSignal(s.signal));
+  if (breakout) return breakout;
+
+  // 2. WATCH (Dense) is the most valuable signal
+  const watch = ranked.find(s => s.signal === SignalType.WATCH);
+  if (watch) return watch;
+
+  // 3. Trend (LONG/SHORT) is next
+  const trend = ranked.find(s => signalDirection(s.signal) !== 0);
+  if (trend) return trend;
+
+  // 4. Fallback to the highest timeframe that was evaluated
+  return ranked[0] ?? null;
+};
+
+const trendDirection = (setup: TradeSetup | null | undefined): number => signalDirection(setup?.signal);
+
+// Weighted vote of the trending frames. WATCH and WAIT count towards the total
+// weight without voting, so a lone 15m LONG next to a quiet 1d stays weak.
+export const scoreConfluence = (setups: IntervalSetups): TimeframeConfluence => {
+  let weighted = 0;
+  let totalWeight = 0;
+  TIMEFRAMES.forEach((tf, index) => {
+    const setup = setups[tf];
+    if (!setup) return;
+    const weight = index + 1;
+    weighted += weight * trendDirection(setup);
+    totalWeight += weight;
+  });
+
+  const score = totalWeight ? Math.round((weighted / totalWeight) * 100) : 0;
+  const direction = Math.sign(score);
+  const evaluated = TIMEFRAMES.filter(tf => setups[tf]);
+  const aligned = direction ? evaluated.filter(tf => trendDirection(setups[tf]) === direction) : [];
+  const opposed = direction ? evaluated.filter(tf => trendDirection(setups[tf]) === -direction) : [];
+  const highestAligned = aligned.length ? TIMEFRAMES.indexOf(aligned[aligned.length - 1]) : -1;
+
+  return {
+    score,
+    bias: direction > 0 ? SignalType.LONG : direction < 0 ? SignalType.SHORT : null,
+    aligned,
+    opposed,
+    watchInTrend: evaluated.filter(tf =>
+      setups[tf]!.signal === SignalType.WATCH && TIMEFRAMES.indexOf(tf) < highestAligned
+    )
+  };
+};
+
+export const analyzeTimeframes = (symbol: string, setups: IntervalSetups): MultiTimeframeSetup => ({
+  symbol,
+  setups,
+  primary: pickPrimarySetup(setups),
+  confluence: scoreConfluence(setups)
+});
+
+// Scanner order: fresh breakouts, then Dense/Watch, then the rest. Within a group
+// longs lead with the strongest relative strength and shorts with the weakest,
+// then the strongest timeframe agreement. Symbols without a setup are dropped.
+export const rankAnalyses = (analyses: MultiTimeframeSetup[]): (MultiTimeframeSetup & { primary: TradeSetup })[] => {
+  const rank = (signal: SignalType) => (isBreakoutSignal(signal) ? 0 : signal === SignalType.WATCH ? 1 : 2);
+  const strength = (a: MultiTimeframeSetup & { primary: TradeSetup }) => {
+    const percentile = a.relativeStrength?.percentile;
+    return percentile === null || percentile === undefined ? 0 : signalDirection(a.primary.signal) * (percentile - 50);
+  };
+  return analyses
+    .filter((a): a is MultiTimeframeSetup & { primary: TradeSetup } => a.primary !== null)
+    .sort((a, b) =>
+      rank(a.primary.signal) - rank(b.primary.signal) ||
+      strength(b) - strength(a) ||
+      Math.abs(b.confluence.score) - Math.abs(a.confluence.score)
+    );
+};
+
+// Evaluate every configured timeframe of a symbol
+export const evaluateTimeframes = (symbol: string, klines: SymbolKlines, config: StrategyConfig): MultiTimeframeSetup => {
+  const setups: IntervalSetups = {};
+  config.timeframes.forEach(interval => {
+    setups[interval] = evaluateSetup(klines[interval] ?? [], config, { symbol, interval });
+  });
+  return analyzeTimeframes(symbol, setups);
+};
+
+// Evaluate every configured timeframe and decide which one to show for the symbol
+export const pickSetup = (symbol: string, klines: SymbolKlines, config: StrategyConfig): TradeSetup | null =>
+  evaluateTimeframes(symbol, klines, config).primary;
@@ -0,0 +1,90 @@
+import { SignalType, StrategyConfig, TakeProfitTarget, TradeDirection, TradePlan } from '../types';
+
+// Entry and exit plans for a scored candle. A confirmed trend gets one plan at
+// market; a dense band can break either way, so WATCH gets a conditional
+// breakout-long and breakdown-short plan triggered at the band edges.
+
+export interface PlanInputs {
+  price: number;
+  atr: number;
+  bandHigh: number; // Highest of the six lines
+  bandLow: number; // Lowest of the six lines
+  swingHigh: number; // Highest high over StrategyConfig.swingLookback candles
+  swingLow: number;
+}
+
+// Structure stops sit a little beyond the swing so a wick to the exact level does not trigger them
+const STRUCTURE_BUFFER_ATR = 0.25;
+
+const buildTargets = (entry: number, risk: number, sign: number, ladder: number[]): TakeProfitTarget[] => {
+  const steps = ladder.filter(r => r > 0).sort((a, b) => a - b);
+  return steps.map(rMultiple => ({
+    price: entry + sign * risk * rMultiple,
+    rMultiple,
+    sizePct: 100 / steps.length
+  }));
+};
+
+const buildPlan = (
+  kind: TradePlan['kind'],
+  direction: TradeDirection,
+  entryPrice: number,
+  trigger: number | null,
+  inputs: PlanInputs,
+  config: StrategyConfig
+): TradePlan | null => {
+  const sign = direction === 'LONG' ? 1 : -1;
+  const { atr } = inputs;
+  // The stop goes beyond the opposite edge of the band, a breakout that falls back through it has failed
+  const atrStop = direction === 'LONG'
+    ? inputs.bandLow - atr * config.atrMultiplier
+    : inputs.bandHigh + atr * config.atrMultiplier;
+  const swing = direction === 'LONG' ? inputs.swingLow : inputs.swingHigh;
+  const rawStructure = swing - sign * atr * STRUCTURE_BUFFER_ATR;
+  const structureStop = (entryPrice - rawStructure) * sign > 0 ? rawStructure : null;
+  const stopLoss = config.stopMode === 'structure' && structureStop !== null ? structureStop : atrStop;
+
+  const risk = (entryPrice - stopLoss) * sign;
+  if (!(risk > 0)) return null;
+  return {
+    kind,
+    direction,
+    trigger,
+    entryPrice,
+    stopLoss,
+    atrStop,
+    structureStop,
+    takeProfit: entryPrice + sign * risk * config.rewardRatio,
+    targets: buildTargets(entryPrice, risk, sign, config.takeProfitLadder),
+    trailingDistance: atr * config.trailAtrMultiple
+  };
+};
+
+export const buildTradePlans = (signal: SignalType, inputs: PlanInputs, config: StrategyConfig): TradePlan[] => {
+  const plans: (TradePlan | null)[] = [];
+  switch (signal) {
+    case SignalType.LONG:
+      plans.push(buildPlan('TREND', 'LONG', inputs.price, null, inputs, config));
+      break;
+    case SignalType.SHORT:
+      plans.push(buildPlan('TREND', 'SHORT', inputs.price, null, inputs, config));
+      break;
+    // The breakout already closed beyond the band, so these enter at market
+    case SignalType.BREAKOUT_LONG:
+      plans.push(buildPlan('BREAKOUT', 'LONG', inputs.price, null, inputs, config));
+      break;
+    case SignalType.BREAKDOWN_SHORT:
+      plans.push(buildPlan('BREAKDOWN', 'SHORT', inputs.price, null, inputs, config));
+      break;
+    case SignalType.WATCH:
+      plans.push(
+        buildPlan('BREAKOUT', 'LONG', inputs.bandHigh, inputs.bandHigh, inputs, config),
+        buildPlan('BREAKDOWN', 'SHORT', inputs.bandLow, inputs.bandLow, inputs, config)
+      );
+      break;
+    default:
+      // WAIT has no plan, the lines are too far apart to define a setup
+      break;
+  }
+  return plans.filter((p): p is TradePlan => p !== null);
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { SymbolInfo } from '../types';
+import { getMarketSymbols } from './watchlistService';
+
+const info = (symbol: string, baseAsset: string, quoteAsset = 'USDT', status = 'TRADING'): SymbolInfo =>
+  ({ symbol, baseAsset, quoteAsset, status });
+
+const exchangeInfo = Object.fromEntries([
+  info('BTCUSDT', 'BTC'),
+  info('JUPUSDT', 'JUP'),
+  info('SYRUPUSDT', 'SYRUP'),
+  info('BTCUPUSDT', 'BTCUP'),
+  info('ETHDOWNUSDT', 'ETHDOWN'),
+  info('BNBBULLUSDT', 'BNBBULL'),
+  info('ETHBTC', 'ETH', 'BTC'),
+  info('LUNAUSDT', 'LUNA', 'USDT', 'BREAK')
+].map(i => [i.symbol, i]));
+
+describe('getMarketSymbols', () => {
+  it('keeps coins that only end like a leveraged token', () => {
+    expect(getMarketSymbols(exchangeInfo, {})).toEqual(expect.arrayContaining(['JUPUSDT', 'SYRUPUSDT']));
+  });
+
+  it('leaves out leveraged tokens, other quotes and pairs not trading', () => {
+    const symbols = getMarketSymbols(exchangeInfo, {});
+    expect(symbols).toHaveLength(3);
+    ['BTCUPUSDT', 'ETHDOWNUSDT', 'BNBBULLUSDT', 'ETHBTC', 'LUNAUSDT'].forEach(s => expect(symbols).not.toContain(s));
+  });
+
+  it('puts pinned symbols first, then the rest by volume', () => {
+    expect(getMarketSymbols(exchangeInfo, { BTCUSDT: 10, JUPUSDT: 30, SYRUPUSDT: 20 }, ['BTCUSDT']))
+      .toEqual(['BTCUSDT', 'JUPUSDT', 'SYRUPUSDT']);
+  });
+});
@@ -0,0 +1,212 @@
+import { Watchlist, WatchlistEntry, SymbolInfo } from '../types';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+
+export interface WatchlistState {
+  lists: Watchlist[];
+  activeId: string;
+}
+
+const toEntries = (symbols: string[], group?: string): WatchlistEntry[] =>
+  symbols.map(symbol => (group ? { symbol, group } : { symbol }));
+
+// Seed lists for first-time users. MATICUSDT from the old hard-coded list was
+// delisted after the POL migration and is replaced by POLUSDT.
+export const DEFAULT_WATCHLISTS: Watchlist[] = [
+  {
+    id: 'majors',
+    name: 'majors',
+    entries: [
+      ...toEntries(['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'SOLUSDT', 'XRPUSDT'], '主流'),
+      ...toEntries(['DOGEUSDT', 'ADAUSDT', 'AVAXUSDT', 'LINKUSDT', 'DOTUSDT',
+        'POLUSDT', 'LTCUSDT', 'ATOMUSDT', 'NEARUSDT', 'APTUSDT'], '山寨')
+    ]
+  },
+  {
+    id: 'memes',
+    name: 'memes',
+    entries: toEntries(['DOGEUSDT', 'SHIBUSDT', 'PEPEUSDT', 'WIFUSDT', 'BONKUSDT', 'FLOKIUSDT'])
+  }
+];
+
+const DEFAULT_STATE: WatchlistState = { lists: DEFAULT_WATCHLISTS, activeId: DEFAULT_WATCHLISTS[0].id };
+
+export const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+const createId = () => `list-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Coerce untrusted JSON (storage or an imported file) into watchlists, dropping anything malformed
+const sanitizeLists = (raw: unknown): Watchlist[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((list: any) => list && typeof list.name === 'string' && Array.isArray(list.entries))
+    .map((list: any) => {
+      const seen = new Set<string>();
+      const entries: WatchlistEntry[] = [];
+      list.entries.forEach((entry: any) => {
+        const symbol = normalizeSymbol(typeof entry === 'string' ? entry : String(entry?.symbol ?? ''));
+        if (!symbol || seen.has(symbol)) return;
+        seen.add(symbol);
+        const group = typeof entry?.group === 'string' && entry.group.trim() ? entry.group.trim() : undefined;
+        entries.push(group ? { symbol, group } : { symbol });
+      });
+      return { id: typeof list.id === 'string' && list.id ? list.id : createId(), name: list.name, entries };
+    });
+};
+
+export const loadWatchlists = (): WatchlistState => {
+  const stored = loadJSON<Partial<WatchlistState> | null>(STORAGE_KEYS.watchlists, null);
+  const lists = sanitizeLists(stored?.lists);
+  if (lists.length === 0) return DEFAULT_STATE;
+  const activeId = lists.some(l => l.id === stored?.activeId) ? stored!.activeId! : lists[0].id;
+  return { lists, activeId };
+};
+
+export const saveWatchlists = (state: WatchlistState): void => {
+  saveJSON(STORAGE_KEYS.watchlists, state);
+};
+
+export const getActiveList = (state: WatchlistState): Watchlist =>
+  state.lists.find(l => l.id === state.activeId) ?? state.lists[0];
+
+// --- Pure list edits, each returns a new state ---
+
+const updateList = (state: WatchlistState, id: string, update: (list: Watchlist) => Watchlist): WatchlistState => ({
+  ...state,
+  lists: state.lists.map(list => (list.id === id ? update(list) : list))
+});
+
+export const createList = (state: WatchlistState, name: string): WatchlistState => {
+  const list: Watchlist = { id: createId(), name: name.trim() || '新列表', entries: [] };
+  return { lists: [...state.lists, list], activeId: list.id };
+};
+
+export const renameList = (state: WatchlistState, id: string, name: string): WatchlistState =>
+  updateList(state, id, list => ({ ...list, name: name.trim() || list.name }));
+
+export const deleteList = (state: WatchlistState, id: string): WatchlistState => {
+  const lists = state.lists.filter(l => l.id !== id);
+  // Always keep at least one list around
+  if (lists.length === 0) return state;
+  return { lists, activeId: state.activeId === id ? lists[0].id : state.activeId };
+};
+
+export const addSymbol = (state: WatchlistState, id: string, symbol: string, group?: string): WatchlistState =>
+  updateList(state, id, list => {
+    const normalized = normalizeSymbol(symbol);
+    if (!normalized || list.entries.some(e => e.symbol === normalized)) return list;
+    return { ...list, entries: [...list.entries, group ? { symbol: normalized, group } : { symbol: normalized }] };
+  });
+
+export const removeSymbol = (state: WatchlistState, id: string, symbol: string): WatchlistState =>
+  updateList(state, id, list => ({ ...list, entries: list.entries.filter(e => e.symbol !== symbol) }));
+
+export const moveSymbol = (state: WatchlistState, id: string, symbol: string, offset: number): WatchlistState =>
+  updateList(state, id, list => {
+    const from = list.entries.findIndex(e => e.symbol === symbol);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= list.entries.length) return list;
+    const entries = list.entries.slice();
+    const [moved] = entries.splice(from, 1);
+    entries.splice(to, 0, moved);
+    return { ...list, entries };
+  });
+
+export const setSymbolGroup = (state: WatchlistState, id: string, symbol: string, group: string): WatchlistState =>
+  updateList(state, id, list => ({
+    ...list,
+    entries: list.entries.map(e => {
+      if (e.symbol !== symbol) return e;
+      return group.trim() ? { symbol, group: group.trim() } : { symbol };
+    })
+  }));
+
+// --- Exchange validation ---
+
+export type SymbolValidity = 'TRADING' | 'NOT_TRADING' | 'UNKNOWN_SYMBOL';
+
+export const getSymbolValidity = (symbol: string, exchangeInfo: Record<string, SymbolInfo>): SymbolValidity => {
+  const info = exchangeInfo[symbol];
+  if (!info) return 'UNKNOWN_SYMBOL';
+  return info.status === 'TRADING' ? 'TRADING' : 'NOT_TRADING';
+};
+
+// Symbols of a list that should be scanned. Until exchange info has loaded
+// every symbol is trusted, afterwards only pairs that are still TRADING pass.
+export const getScanSymbols = (list: Watchlist, exchangeInfo: Record<string, SymbolInfo>): string[] => {
+  const known = Object.keys(exchangeInfo).length > 0;
+  return list.entries
+    .map(e => e.symbol)
+    .filter(symbol => !known || getSymbolValidity(symbol, exchangeInfo) === 'TRADING');
+};
+
+export const searchSymbols = (
+  query: string,
+  exchangeInfo: Record<string, SymbolInfo>,
+  limit: number = 20
+): SymbolInfo[] => {
+  const q = normalizeSymbol(query);
+  if (!q) return [];
+  const matches = Object.values(exchangeInfo).filter(info =>
+    info.status === 'TRADING' && (info.symbol.includes(q) || info.baseAsset === q)
+  );
+  // Exact base asset and prefix matches first, USDT pairs before other quotes
+  const rank = (info: SymbolInfo) =>
+    (info.baseAsset === q ? 0 : info.symbol.startsWith(q) ? 1 : 2) * 2 + (info.quoteAsset === 'USDT' ? 0 : 1);
+  return matches.sort((a, b) => rank(a) - rank(b) || a.symbol.localeCompare(b.symbol)).slice(0, limit);
+};
+
+// --- Import / export ---
+
+export const exportWatchlists = (state: WatchlistState): string =>
+  JSON.stringify({ version: 1, lists: state.lists }, null, 2);
+
+// Accepts the exported format or a bare array of lists. Imported lists are appended;
+// a list whose name already exists replaces that list.
+export const importWatchlists = (state: WatchlistState, json: string): WatchlistState => {
+  const parsed = JSON.parse(json);
+  const imported = sanitizeLists(Array.isArray(parsed) ? parsed : parsed?.lists);
+  if (imported.length === 0) throw new Error('文件中没有有效的自选列表');
+
+  const lists = state.lists.slice();
+  imported.forEach(list => {
+    const existing = lists.findIndex(l => l.name === list.name);
+    if (existing >= 0) {
+      lists[existing] = { ...list, id: lists[existing].id };
+    } else {
+      lists.push({ ...list, id: lists.some(l => l.id === list.id) ? createId() : list.id });
+    }
+  });
+  return { ...state, lists };
+};
+
+// --- Full market universe ---
+
+// Leveraged tokens track a multiple of another pair and distort the scan. Only
+// the bases Binance issued them for are matched, coins such as JUP or SYRUP
+// merely end in the same letters.
+const LEVERAGED_BASES = new Set([
+  'BTC', 'ETH', 'BNB', 'XRP', 'ADA', 'LINK', 'DOT', 'TRX', 'XTZ', 'EOS', 'LTC', 'BCH', 'XLM',
+  'FIL', 'SUSHI', 'AAVE', 'YFI', 'UNI', 'SXP', '1INCH'
+]);
+const LEVERAGED_TOKEN = /^([A-Z0-9]+)(UP|DOWN|BULL|BEAR)$/;
+
+const isLeveragedToken = (baseAsset: string) => {
+  const match = LEVERAGED_TOKEN.exec(baseAsset);
+  return !!match && LEVERAGED_BASES.has(match[1]);
+};
+
+// Every TRADING pair quoted in `quoteAsset`, most liquid first, with the
+// pinned symbols (usually the active watchlist) ahead of everything else.
+export const getMarketSymbols = (
+  exchangeInfo: Record<string, SymbolInfo>,
+  quoteVolumes: Record<string, number>,
+  pinned: string[] = [],
+  quoteAsset: string = 'USDT'
+): string[] => {
+  const universe = Object.values(exchangeInfo)
+    .filter(info => info.status === 'TRADING' && info.quoteAsset === quoteAsset && !isLeveragedToken(info.baseAsset))
+    .map(info => info.symbol)
+    .sort((a, b) => (quoteVolumes[b] ?? 0) - (quoteVolumes[a] ?? 0));
+  const pinnedSet = new Set(pinned);
+  return [...pinned.filter(s => exchangeInfo[s]?.status === 'TRADING'), ...universe.filter(s => !pinnedSet.has(s))];
+};
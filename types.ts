@@ -12,9 +12,45 @@ export enum SignalType {
   LONG = '做多 (Long)',
   SHORT = '做空 (Short)',
   WAIT = '观望 (Wait)',
-  WATCH = '密集关注 (Watch)' // Dense consolidation
+  WATCH = '密集关注 (Watch)', // Dense consolidation
+  BREAKOUT_LONG = '突破做多 (Breakout Long)', // Confirmed breakout above a consolidation
+  BREAKDOWN_SHORT = '跌破做空 (Breakdown Short)' // Confirmed breakdown below a consolidation
 }
 
+// Binance kline intervals the strategy can evaluate, lowest to highest
+export type Timeframe = '15m' | '1h' | '4h' | '1d' | '1w';
+
+// Lookback periods of the short/mid/long line pairs (MA + EMA each)
+export interface MAPeriods {
+  short: number;
+  mid: number;
+  long: number;
+}
+
+export interface StrategyConfig {
+  timeframes: Timeframe[]; // Intervals scanned for every symbol
+  maPeriods: MAPeriods;
+  denseThreshold: number; // Max spread of the six lines, % of price, to count as dense
+  priceDeviationThreshold: number; // Max distance of price from the MA centre, % of price
+  atrPeriod: number;
+  atrSmoothing: 'simple' | 'wilder'; // Plain mean of true ranges or Wilder's smoothing
+  atrMultiplier: number; // Stop buffer beyond the MA band, in ATRs
+  rewardRatio: number; // Take-profit distance as a multiple of risk
+  requireAlignment: boolean; // LONG needs short > mid > long (SHORT the mirror)
+  includeEmaInAlignment: boolean; // Alignment must also hold for the EMA triple
+  requirePriceBeyondBand: boolean; // LONG/SHORT need price outside all six lines
+  stopMode: 'atr' | 'structure'; // Stop beyond the MA band plus an ATR buffer, or beyond the recent swing
+  swingLookback: number; // Candles searched for the swing high/low of structure stops
+  takeProfitLadder: number[]; // Partial take-profit targets, in R, closed in equal parts
+  trailAtrMultiple: number; // Distance of the suggested trailing stop, in ATRs
+  minConsolidationBars: number; // Dense candles in a row before a breakout counts
+  breakoutVolumeFactor: number; // Breakout volume must exceed the 20-candle average by this factor
+  // 'closed' scores the last finished candle, 'intrabar' the forming one (signals may repaint before the close)
+  evaluationMode: 'closed' | 'intrabar';
+}
+
+// Values of the six lines on the evaluated candle. Keys name the slot
+// (short/mid/long), the actual lookbacks come from StrategyConfig.maPeriods.
 export interface MASet {
   ma20: number;
   ma60: number;
@@ -26,9 +62,10 @@ export interface MASet {
 
 export interface TradeSetup {
   symbol: string;
-  interval: '1h' | '4h'; // New field for timeframe
+  interval: Timeframe;
   price: number;
   mas: MASet;
+  maPeriods: MAPeriods;
   densityScore: number; // Percentage spread between highest and lowest MA
   priceDeviation: number; // Percentage distance of price from the average of all MAs
   atr: number;
@@ -38,16 +75,224 @@ export interface TradeSetup {
   takeProfit: number;
   isDense: boolean; 
   reason: string;
+  plans: TradePlan[]; // Entry/exit plans for the signal, WATCH gets one per breakout direction
+  futures?: FuturesContext; // Perpetual positioning of the symbol, attached after the scan
+  crowding?: CrowdingFlag[]; // Read of `futures` against this setup's signal
+  signalHistory?: SignalHistory; // Intrabar evaluation only, how the signal moved within the candle
+}
+
+// The signal of one candle at three points of its life. Null when that point
+// was not observed (the page opened mid-candle, or the candle is still forming).
+export interface BarSignals {
+  openTime: number;
+  atOpen: SignalType | null; // First evaluation within the first half of the candle
+  midBar: SignalType | null; // First evaluation in the second half
+  atClose: SignalType | null; // Evaluation of the finished candle
+  latest: SignalType; // Last evaluation seen
+  // A signal other than WAIT was shown and did not survive: replaced later in the
+  // candle, or gone at its close
+  repainted: boolean;
+}
+
+export interface SignalHistory {
+  current: BarSignals;
+  previous: BarSignals | null; // The candle before, closed
+}
+
+export type TradeDirection = 'LONG' | 'SHORT';
+
+export interface TakeProfitTarget {
+  price: number;
+  rMultiple: number;
+  sizePct: number; // Share of the position closed at this target
+}
+
+export interface TradePlan {
+  kind: 'TREND' | 'BREAKOUT' | 'BREAKDOWN';
+  direction: TradeDirection;
+  // Conditional entry: the plan is live once a candle closes beyond this price.
+  // null means enter at market, the signal is already confirmed.
+  trigger: number | null;
+  entryPrice: number;
+  stopLoss: number; // Active stop, per StrategyConfig.stopMode
+  atrStop: number; // Beyond the far edge of the MA band plus the ATR buffer
+  structureStop: number | null; // Beyond the recent swing, null when it sits on the wrong side of entry
+  takeProfit: number; // Target at StrategyConfig.rewardRatio
+  targets: TakeProfitTarget[];
+  trailingDistance: number; // Suggested ATR trailing stop distance once the first target fills
+}
+
+// Positioning on the USDⓈ-M perpetual of a symbol, whichever market the candles came from
+export interface FuturesContext {
+  symbol: string; // Perpetual symbol, e.g. 1000PEPEUSDT for PEPEUSDT
+  fundingRate: number; // Rate of the upcoming funding, 0.0001 = 0.01% per interval
+  nextFundingTime: number;
+  markPrice: number;
+  openInterest: number | null; // Notional, in the quote asset
+  openInterestChange24h: number | null; // %, null without enough history
+  longShortRatio: number | null; // Top trader positions, long over short
+  updatedAt: number;
+}
+
+// Performance of a symbol over one lookback, against BTC and against the scanned universe
+export interface RelativeReturn {
+  label: string; // '1D', '7D', ...
+  change: number | null; // %, null when the candles do not reach back that far
+  vsBtc: number | null; // % outperformance of BTC over the same window
+  vsUniverse: number | null; // Percentage points above the universe median
+}
+
+export interface RelativeStrength {
+  returns: RelativeReturn[];
+  score: number | null; // Mean vsUniverse over the lookbacks
+  percentile: number | null; // 0-100 rank of the score in the universe, 100 = strongest
+  rsLine: number[]; // Close over BTC's close, 100 at the start of the window
+  rsNewHigh: boolean; // The RS line closed at the top of its window
+}
+
+export type CrowdingMetric = 'FUNDING' | 'LONG_SHORT_RATIO' | 'OPEN_INTEREST';
+
+export interface CrowdingFlag {
+  metric: CrowdingMetric;
+  side: TradeDirection; // The crowded side
+  againstSignal: boolean; // The setup trades with the crowd, into squeeze risk
+  message: string;
+}
+
+export interface AIKeyLevel {
+  price: number;
+  kind: 'support' | 'resistance';
+  note: string;
 }
 
 export interface AIAnalysisResult {
   symbol: string;
+  interval: Timeframe;
   analysis: string;
   confidence: 'High' | 'Medium' | 'Low';
+  bias: 'LONG' | 'SHORT' | 'NEUTRAL';
+  keyLevels: AIKeyLevel[];
+  risks: string[];
+  model: string; // Provider and model that wrote it, e.g. "gemini:gemini-2.5-flash"
+  createdAt: number;
+}
+
+export type MarketRegime = 'BULL_TREND' | 'BEAR_TREND' | 'RANGE' | 'COMPRESSION' | 'VOLATILE';
+
+export interface BriefingPick {
+  rank: number; // 1 is the best setup
+  symbol: string;
+  interval: Timeframe;
+  direction: 'LONG' | 'SHORT' | 'WATCH';
+  rationale: string;
 }
 
-export const TARGET_SYMBOLS = [
-  'BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'SOLUSDT', 'XRPUSDT', 
-  'DOGEUSDT', 'ADAUSDT', 'AVAXUSDT', 'LINKUSDT', 'DOTUSDT',
-  'MATICUSDT', 'LTCUSDT', 'ATOMUSDT', 'NEARUSDT', 'APTUSDT'
-];
\ No newline at end of file
+// AI read of the whole scan, stored with the signal journal
+export interface MarketBriefing {
+  id: string;
+  createdAt: number;
+  model: string;
+  regime: MarketRegime;
+  regimeNote: string;
+  summary: string;
+  shortlist: BriefingPick[];
+  correlationWarnings: string[];
+  setupCount: number; // Setups sent to the model
+  btcSignal: SignalType | null; // BTC's primary signal at the time, null when it was not available
+}
+
+export type ExitReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'END_OF_DATA';
+
+export interface BacktestTrade {
+  symbol: string;
+  interval: Timeframe;
+  direction: TradeDirection;
+  signal: SignalType; // Signal that opened the trade
+  entryTime: number;
+  entryPrice: number;
+  stopLoss: number;
+  takeProfit: number;
+  exitTime: number;
+  exitPrice: number;
+  exitReason: ExitReason;
+  barsHeld: number;
+  rMultiple: number; // Result in units of initial risk (entry to stop)
+  pnlPct: number; // Net percentage return after fees
+}
+
+export interface BacktestStats {
+  trades: number;
+  wins: number; // Trades with a positive net return
+  losses: number;
+  winRate: number; // 0-100
+  avgR: number;
+  avgWinR: number;
+  avgLossR: number;
+  totalR: number;
+  expectancyPct: number; // Average net % return per trade
+  profitFactor: number; // Net % won over net % lost
+  maxDrawdownR: number; // Largest peak-to-trough drop of cumulative R
+  maxDrawdownPct: number; // Largest peak-to-trough drop of compounded equity
+}
+
+export interface BacktestReport {
+  symbol: string;
+  interval: Timeframe;
+  barsTested: number;
+  trades: BacktestTrade[];
+  stats: BacktestStats;
+}
+
+// A signal recorded by the live scanner and, once price reached a level, its outcome
+export interface JournalEntry {
+  id: string;
+  symbol: string;
+  interval: Timeframe;
+  signal: SignalType;
+  direction: TradeDirection; // WATCH follows the long-side levels it is given
+  recordedAt: number; // Wall-clock time the signal was first seen
+  candleTime: number; // Open time of the candle it was seen on
+  entryPrice: number;
+  stopLoss: number;
+  takeProfit: number;
+  densityScore: number;
+  reason: string;
+  config: StrategyConfig; // Parameters in effect when it was recorded
+  status: 'OPEN' | 'RESOLVED';
+  outcome?: BacktestTrade; // END_OF_DATA means it expired before reaching either level
+}
+
+// Order constraints from exchangeInfo, an order outside them is rejected by the exchange
+export interface SymbolFilters {
+  tickSize: number; // PRICE_FILTER, price increment
+  stepSize: number; // LOT_SIZE, quantity increment
+  minQty: number;
+  maxQty: number;
+  minNotional: number; // MIN_NOTIONAL / NOTIONAL, smallest order value in quote asset
+}
+
+export interface SymbolInfo {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  status: string; // 'TRADING', 'BREAK', 'HALT', ...
+  filters?: SymbolFilters; // Missing for fixtures recorded without them
+}
+
+export interface Ticker24h {
+  symbol: string;
+  lastPrice: number;
+  priceChangePercent: number;
+  quoteVolume: number;
+}
+
+export interface WatchlistEntry {
+  symbol: string;
+  group?: string; // Optional sub-heading inside a list, e.g. "L1", "DeFi"
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  entries: WatchlistEntry[];
+}
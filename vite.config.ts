@@ -6,12 +6,17 @@ export default defineConfig(({ mode }) => {
   return {
     plugins: [react()],
     define: {
-      // Vital: Maps Vercel's environment variable to the client-side code
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
-      'process.env': {} 
+      // No secrets in the bundle: the AI key stays with the backend (server/)
+      'process.env': {}
+    },
+    server: {
+      // In development the backend runs next to the Vite dev server (npm start)
+      proxy: {
+        '/api': env.BACKEND_URL || 'http://localhost:8080'
+      }
     },
     build: {
       outDir: 'dist',
     }
   };
-});
\ No newline at end of file
+});